@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "SigningPacket" ADD COLUMN     "templateId" TEXT;
+
+-- CreateTable
+CREATE TABLE "Template" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "fileName" TEXT NOT NULL,
+    "filePath" TEXT NOT NULL,
+    "placeholders" TEXT NOT NULL,
+    "defaultRoles" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Template_pkey" PRIMARY KEY ("id")
+);
+
+-- AddForeignKey
+ALTER TABLE "SigningPacket" ADD CONSTRAINT "SigningPacket_templateId_fkey" FOREIGN KEY ("templateId") REFERENCES "Template"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Recipient" ADD COLUMN     "declineReason" TEXT,
+ADD COLUMN     "declinedAt" TIMESTAMP(3);
@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Recipient" ADD COLUMN     "lastReminderAt" TIMESTAMP(3),
+ADD COLUMN     "notifiedAt" TIMESTAMP(3),
+ADD COLUMN     "reminderCount" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "SigningPacket" ADD COLUMN     "reminderEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "reminderFirstAfterDays" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN     "reminderIntervalDays" INTEGER NOT NULL DEFAULT 2,
+ADD COLUMN     "reminderMaxCount" INTEGER NOT NULL DEFAULT 3;
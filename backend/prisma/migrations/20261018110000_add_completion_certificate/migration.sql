@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "SigningPacket" ADD COLUMN     "includeCertificate" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "AuditLog" ADD COLUMN     "hash" TEXT,
+ADD COLUMN     "prevHash" TEXT,
+ADD COLUMN     "sequence" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuditLog_packetId_sequence_key" ON "AuditLog"("packetId", "sequence");
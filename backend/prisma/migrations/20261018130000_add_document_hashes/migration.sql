@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "SigningPacket" ADD COLUMN     "originalSha256" TEXT,
+ADD COLUMN     "signedSha256" TEXT;
+
+-- CreateIndex
+CREATE INDEX "SigningPacket_originalSha256_idx" ON "SigningPacket"("originalSha256");
+
+-- CreateIndex
+CREATE INDEX "SigningPacket_signedSha256_idx" ON "SigningPacket"("signedSha256");
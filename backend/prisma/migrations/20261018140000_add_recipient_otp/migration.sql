@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "Recipient" ADD COLUMN     "otpAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "otpCodeHash" TEXT,
+ADD COLUMN     "otpExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "otpLockedUntil" TIMESTAMP(3),
+ADD COLUMN     "otpSessionExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "otpSessionHash" TEXT,
+ADD COLUMN     "requireOtp" BOOLEAN NOT NULL DEFAULT false;
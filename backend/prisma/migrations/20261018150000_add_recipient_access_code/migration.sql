@@ -0,0 +1,12 @@
+-- Signing sessions now cover access codes as well as one-time passcodes
+ALTER TABLE "Recipient" RENAME COLUMN "otpSessionHash" TO "sessionHash";
+ALTER TABLE "Recipient" RENAME COLUMN "otpSessionExpiresAt" TO "sessionExpiresAt";
+
+-- AlterTable
+ALTER TABLE "Recipient" ADD COLUMN     "accessCodeAttempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "accessCodeHash" TEXT,
+ADD COLUMN     "accessCodeLockedUntil" TIMESTAMP(3),
+ADD COLUMN     "sessionOtpVerified" BOOLEAN NOT NULL DEFAULT false;
+
+-- Existing sessions could only have come from a verified passcode
+UPDATE "Recipient" SET "sessionOtpVerified" = true WHERE "sessionHash" IS NOT NULL;
@@ -0,0 +1,8 @@
+-- File paths become storage keys relative to the storage root
+UPDATE "Template" SET "filePath" = 'uploads/' || "filePath" WHERE "filePath" NOT LIKE 'uploads/%';
+UPDATE "SigningPacket" SET "filePath" = 'uploads/' || "filePath" WHERE "filePath" NOT LIKE 'uploads/%';
+
+-- Signed PDFs were stored as absolute paths into the signed/ directory
+UPDATE "SigningPacket"
+SET "signedPdfPath" = 'signed/' || regexp_replace("signedPdfPath", '^.*[/\\]', '')
+WHERE "signedPdfPath" IS NOT NULL AND "signedPdfPath" NOT LIKE 'signed/%';
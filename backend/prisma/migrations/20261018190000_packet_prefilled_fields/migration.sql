@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "SigningPacket" ADD COLUMN "prefilledFields" TEXT;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "SigningPacket" ADD COLUMN "stampingMode" TEXT NOT NULL DEFAULT 'in_place';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "SigningPacket" ADD COLUMN "flattenForm" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Signature" ADD COLUMN "initialsData" TEXT;
+ALTER TABLE "Signature" ADD COLUMN "initialsType" TEXT;
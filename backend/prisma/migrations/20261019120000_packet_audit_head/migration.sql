@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "SigningPacket" ADD COLUMN "auditHeadSequence" INTEGER;
+ALTER TABLE "SigningPacket" ADD COLUMN "auditHeadHash" TEXT;
+
+-- Record the current head of every existing chain
+UPDATE "SigningPacket" p
+SET "auditHeadSequence" = a."sequence", "auditHeadHash" = a."hash"
+FROM "AuditLog" a
+WHERE a."packetId" = p."id"
+  AND a."sequence" = (SELECT MAX("sequence") FROM "AuditLog" WHERE "packetId" = p."id");
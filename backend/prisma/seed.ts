@@ -15,7 +15,7 @@ async function main() {
   console.log('Seeding database...');
 
   // Create upload directories
-  const dirs = ['uploads/packets', 'signed'];
+  const dirs = ['uploads/packets', 'uploads/templates', 'signed'];
   for (const dir of dirs) {
     const fullPath = path.join(process.cwd(), dir);
     await fs.mkdir(fullPath, { recursive: true });
@@ -0,0 +1,145 @@
+/**
+ * Encrypt existing documents and signature data at rest, or re-wrap them
+ * under the active key after a rotation. Safe to run repeatedly.
+ *
+ *   npm run encryption:migrate             # apply
+ *   npm run encryption:migrate -- --dry-run
+ */
+
+import { prisma } from '../utils/prisma.js';
+import { rawStorage } from '../services/storage.service.js';
+import {
+  isEncryptionEnabled,
+  needsReencryption,
+  reencryptBuffer,
+  reencryptString,
+} from '../services/encryption.service.js';
+
+const dryRun = process.argv.includes('--dry-run');
+
+interface Counts {
+  updated: number;
+  current: number;
+  failed: number;
+}
+
+async function migrateFiles(keys: string[]): Promise<Counts> {
+  const counts: Counts = { updated: 0, current: 0, failed: 0 };
+
+  for (const key of keys) {
+    try {
+      const data = await rawStorage.get(key);
+      if (!needsReencryption(data)) {
+        counts.current++;
+        continue;
+      }
+      if (!dryRun) {
+        await rawStorage.put(key, reencryptBuffer(data));
+      }
+      counts.updated++;
+    } catch (err) {
+      console.error(`  Failed on ${key}:`, err instanceof Error ? err.message : err);
+      counts.failed++;
+    }
+  }
+
+  return counts;
+}
+
+async function migrateSignatures(): Promise<Counts> {
+  const counts: Counts = { updated: 0, current: 0, failed: 0 };
+  const signatures = await prisma.signature.findMany({
+    select: { id: true, signatureData: true, initialsData: true, textFields: true },
+  });
+
+  for (const signature of signatures) {
+    const stale = needsReencryption(signature.signatureData) ||
+      (signature.initialsData !== null && needsReencryption(signature.initialsData)) ||
+      (signature.textFields !== null && needsReencryption(signature.textFields));
+
+    if (!stale) {
+      counts.current++;
+      continue;
+    }
+
+    try {
+      if (!dryRun) {
+        await prisma.signature.update({
+          where: { id: signature.id },
+          data: {
+            signatureData: reencryptString(signature.signatureData),
+            initialsData: signature.initialsData !== null ? reencryptString(signature.initialsData) : null,
+            textFields: signature.textFields !== null ? reencryptString(signature.textFields) : null,
+          },
+        });
+      }
+      counts.updated++;
+    } catch (err) {
+      console.error(`  Failed on signature ${signature.id}:`, err instanceof Error ? err.message : err);
+      counts.failed++;
+    }
+  }
+
+  return counts;
+}
+
+async function migratePrefilledFields(): Promise<Counts> {
+  const counts: Counts = { updated: 0, current: 0, failed: 0 };
+  const packets = await prisma.signingPacket.findMany({
+    where: { prefilledFields: { not: null } },
+    select: { id: true, prefilledFields: true },
+  });
+
+  for (const packet of packets) {
+    if (!needsReencryption(packet.prefilledFields!)) {
+      counts.current++;
+      continue;
+    }
+
+    try {
+      if (!dryRun) {
+        await prisma.signingPacket.update({
+          where: { id: packet.id },
+          data: { prefilledFields: reencryptString(packet.prefilledFields!) },
+        });
+      }
+      counts.updated++;
+    } catch (err) {
+      console.error(`  Failed on packet ${packet.id}:`, err instanceof Error ? err.message : err);
+      counts.failed++;
+    }
+  }
+
+  return counts;
+}
+
+function report(label: string, counts: Counts) {
+  console.log(`${label}: ${counts.updated} ${dryRun ? 'to update' : 'updated'}, ${counts.current} already current, ${counts.failed} failed`);
+}
+
+async function main() {
+  if (!isEncryptionEnabled()) {
+    console.error('ENCRYPTION_KEYS is not set; nothing to encrypt with.');
+    process.exit(1);
+  }
+
+  console.log(`Encrypting data at rest${dryRun ? ' (dry run)' : ''}...`);
+
+  const templates = await prisma.template.findMany({ select: { filePath: true } });
+  const packets = await prisma.signingPacket.findMany({ select: { filePath: true, signedPdfPath: true } });
+
+  report('Template files', await migrateFiles(templates.map(t => t.filePath)));
+  report('Packet files', await migrateFiles(packets.map(p => p.filePath)));
+  report('Signed files', await migrateFiles(
+    packets.map(p => p.signedPdfPath).filter((key): key is string => !!key)
+  ));
+  report('Signatures', await migrateSignatures());
+  report('Prefilled fields', await migratePrefilledFields());
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
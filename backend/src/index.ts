@@ -3,14 +3,21 @@ import cors from '@fastify/cors';
 import fastifyJwt from '@fastify/jwt';
 import fastifyCookie from '@fastify/cookie';
 import multipart from '@fastify/multipart';
-import fastifyStatic from '@fastify/static';
-import path from 'path';
 import { config } from './utils/config.js';
 import { authRoutes } from './routes/auth.js';
 import { packetRoutes } from './routes/packets.js';
+import { templateRoutes } from './routes/templates.js';
 import { signingRoutes } from './routes/signing.js';
 import { adminRoutes } from './routes/admin.js';
 import { userRoutes } from './routes/user.js';
+import { verifyRoutes } from './routes/verify.js';
+import { documentRoutes } from './routes/documents.js';
+import { webhookRoutes } from './routes/webhooks.js';
+import { apiKeyRoutes } from './routes/api-keys.js';
+import { startScheduler } from './services/scheduler.service.js';
+import { startWebhookWorker } from './services/webhook.service.js';
+import { ensureSigningCertificate } from './services/pdf-signing.service.js';
+import { storage } from './services/storage.service.js';
 
 const fastify = Fastify({
   logger: true,
@@ -21,7 +28,7 @@ async function main() {
   fastify.addHook('onSend', async (request, reply) => {
     reply.header('Access-Control-Allow-Origin', config.CORS_ORIGIN);
     reply.header('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
-    reply.header('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    reply.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Signing-Session');
     reply.header('Access-Control-Allow-Credentials', 'true');
   });
 
@@ -30,7 +37,7 @@ async function main() {
     origin: config.CORS_ORIGIN,
     credentials: true,
     methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-    allowedHeaders: ['Content-Type', 'Authorization'],
+    allowedHeaders: ['Content-Type', 'Authorization', 'X-Signing-Session'],
   });
 
   // Cookie support (must be registered before JWT)
@@ -52,20 +59,6 @@ async function main() {
     },
   });
 
-  // Serve uploaded files
-  await fastify.register(fastifyStatic, {
-    root: path.join(process.cwd(), 'uploads'),
-    prefix: '/uploads/',
-    decorateReply: false,
-  });
-
-  // Serve signed PDFs
-  await fastify.register(fastifyStatic, {
-    root: path.join(process.cwd(), 'signed'),
-    prefix: '/signed/',
-    decorateReply: false,
-  });
-
   // Health check
   fastify.get('/health', async () => {
     return { status: 'ok', timestamp: new Date().toISOString() };
@@ -75,23 +68,32 @@ async function main() {
   await fastify.register(authRoutes, { prefix: '/api/auth' });
   await fastify.register(userRoutes, { prefix: '/api/user' });
   await fastify.register(packetRoutes, { prefix: '/api/packets' });
+  await fastify.register(templateRoutes, { prefix: '/api/templates' });
   await fastify.register(signingRoutes, { prefix: '/api/signing' });
   await fastify.register(adminRoutes, { prefix: '/api/admin' });
+  await fastify.register(verifyRoutes, { prefix: '/api/verify' });
+  await fastify.register(documentRoutes, { prefix: '/api/documents' });
+  await fastify.register(webhookRoutes, { prefix: '/api/webhooks' });
+  await fastify.register(apiKeyRoutes, { prefix: '/api/api-keys' });
 
-  // Create upload directories if they don't exist
-  const fs = await import('fs');
-  const dirs = ['uploads/packets', 'signed'];
-  for (const dir of dirs) {
-    const fullPath = path.join(process.cwd(), dir);
-    if (!fs.existsSync(fullPath)) {
-      fs.mkdirSync(fullPath, { recursive: true });
-    }
+  // Fail fast if the configured file storage is unreachable
+  await storage.checkHealth();
+
+  if (config.PDF_SIGNING_ENABLED) {
+    await ensureSigningCertificate();
   }
 
   // Start server
   try {
     await fastify.listen({ port: config.PORT, host: '0.0.0.0' });
     console.log(`Server running on http://localhost:${config.PORT}`);
+
+    if (config.SCHEDULER_ENABLED) {
+      startScheduler();
+    }
+
+    // Retries failed webhook deliveries
+    startWebhookWorker();
   } catch (err) {
     fastify.log.error(err);
     process.exit(1);
@@ -1,5 +1,12 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { authService } from '../services/auth.service.js';
+import {
+  ApiKeyScope,
+  isApiKey,
+  findActiveApiKey,
+  recordApiKeyUse,
+  createApiKeyAuditLog,
+} from '../services/api-key.service.js';
 
 // Extend FastifyRequest with our user type
 declare module 'fastify' {
@@ -11,6 +18,19 @@ declare module 'fastify' {
       role: string;
       isActive: boolean;
     };
+    // Set instead of currentUser when the request used an API key
+    apiKey?: {
+      id: string;
+      name: string;
+      scopes: string[];
+    };
+  }
+}
+
+// Routes can require a narrower API key scope than their method implies
+declare module 'fastify' {
+  interface FastifyContextConfig {
+    apiKeyScope?: ApiKeyScope;
   }
 }
 
@@ -63,3 +83,49 @@ export async function requireAdmin(
     return reply.status(403).send({ error: 'Admin access required' });
   }
 }
+
+function getBearerToken(request: FastifyRequest): string | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.authorization || '');
+  return match ? match[1] : null;
+}
+
+/**
+ * Admin session, or an API key granted the given scope. Other bearer
+ * tokens (admin JWTs) fall through to requireAdmin.
+ */
+export function requireAdminOrApiKey(scope: ApiKeyScope) {
+  return async (request: FastifyRequest, reply: FastifyReply): Promise<void> => {
+    const token = getBearerToken(request);
+
+    if (!token || !isApiKey(token)) {
+      return requireAdmin(request, reply);
+    }
+
+    const apiKey = await findActiveApiKey(token);
+
+    if (!apiKey) {
+      return reply.status(401).send({ error: 'Invalid, expired or revoked API key' });
+    }
+
+    if (!apiKey.scopes.includes(scope)) {
+      await createApiKeyAuditLog({
+        apiKeyId: apiKey.id,
+        action: 'denied',
+        details: `Missing scope ${scope}`,
+        request,
+      });
+      return reply.status(403).send({ error: `API key lacks the ${scope} scope` });
+    }
+
+    await recordApiKeyUse(apiKey.id, request);
+
+    request.apiKey = { id: apiKey.id, name: apiKey.name, scopes: apiKey.scopes };
+  };
+}
+
+/**
+ * Who made the request, for audit details
+ */
+export function describeActor(request: FastifyRequest): string {
+  return request.apiKey ? `API key "${request.apiKey.name}"` : request.currentUser!.email;
+}
@@ -1,8 +1,8 @@
 import { FastifyPluginAsync } from 'fastify';
 import { prisma } from '../utils/prisma.js';
 import { requireAdmin } from '../middleware/auth.middleware.js';
-import fs from 'fs/promises';
-import path from 'path';
+import { verifyAuditChain } from '../services/audit.service.js';
+import { storage } from '../services/storage.service.js';
 
 export const adminRoutes: FastifyPluginAsync = async (fastify) => {
   // Protect all admin routes
@@ -43,6 +43,8 @@ export const adminRoutes: FastifyPluginAsync = async (fastify) => {
       in_progress: 0,
       completed: 0,
       cancelled: 0,
+      declined: 0,
+      expired: 0,
     };
 
     for (const item of packetsByStatus) {
@@ -56,35 +58,22 @@ export const adminRoutes: FastifyPluginAsync = async (fastify) => {
     };
   });
 
-  // Download signed PDF
+  // Verify a packet's hash-chained audit log
   fastify.get<{ Params: { packetId: string } }>(
-    '/packets/:packetId/download',
+    '/packets/:packetId/audit/verify',
     async (request, reply) => {
       const { packetId } = request.params;
 
       const packet = await prisma.signingPacket.findUnique({
         where: { id: packetId },
+        select: { id: true },
       });
 
       if (!packet) {
         return reply.status(404).send({ error: 'Packet not found' });
       }
 
-      if (packet.status !== 'completed' || !packet.signedPdfPath) {
-        return reply.status(400).send({ error: 'Signed PDF not available' });
-      }
-
-      try {
-        const pdfBuffer = await fs.readFile(packet.signedPdfPath);
-        const fileName = `${packet.name.replace(/[^a-zA-Z0-9]/g, '_')}_signed.pdf`;
-
-        return reply
-          .header('Content-Type', 'application/pdf')
-          .header('Content-Disposition', `attachment; filename="${fileName}"`)
-          .send(pdfBuffer);
-      } catch (err) {
-        return reply.status(404).send({ error: 'PDF file not found' });
-      }
+      return verifyAuditChain(packetId);
     }
   );
 
@@ -158,28 +147,19 @@ export const adminRoutes: FastifyPluginAsync = async (fastify) => {
   fastify.get('/health', async (request, reply) => {
     const dbCheck = await prisma.$queryRaw`SELECT 1 as ok`;
 
-    const uploadsDir = path.join(process.cwd(), 'uploads');
-    const signedDir = path.join(process.cwd(), 'signed');
-
-    let uploadsWritable = false;
-    let signedWritable = false;
-
-    try {
-      await fs.access(uploadsDir, fs.constants.W_OK);
-      uploadsWritable = true;
-    } catch {}
+    let storageWritable = false;
 
     try {
-      await fs.access(signedDir, fs.constants.W_OK);
-      signedWritable = true;
+      await storage.checkHealth();
+      storageWritable = true;
     } catch {}
 
     return {
       status: 'ok',
       database: !!dbCheck,
       storage: {
-        uploads: uploadsWritable,
-        signed: signedWritable,
+        driver: storage.name,
+        writable: storageWritable,
       },
       timestamp: new Date().toISOString(),
     };
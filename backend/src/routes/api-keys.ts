@@ -0,0 +1,143 @@
+import { FastifyPluginAsync } from 'fastify';
+import { prisma } from '../utils/prisma.js';
+import { requireAdmin } from '../middleware/auth.middleware.js';
+import {
+  API_KEY_SCOPES,
+  generateApiKey,
+  createApiKeyAuditLog,
+} from '../services/api-key.service.js';
+import { z } from 'zod';
+
+const createApiKeySchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  expiresInDays: z.number().int().min(1).max(3650).optional(),
+});
+
+// Never return the hash
+const apiKeySelect = {
+  id: true,
+  name: true,
+  prefix: true,
+  scopes: true,
+  createdAt: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  lastUsedIp: true,
+  revokedAt: true,
+  createdBy: { select: { email: true, name: true } },
+} as const;
+
+function formatApiKey<T extends { scopes: string }>(apiKey: T) {
+  return {
+    ...apiKey,
+    scopes: JSON.parse(apiKey.scopes) as string[],
+  };
+}
+
+export const apiKeyRoutes: FastifyPluginAsync = async (fastify) => {
+  // Managing keys needs an admin session; keys cannot manage keys
+  fastify.addHook('preHandler', requireAdmin);
+
+  // Scopes a key can be granted
+  fastify.get('/scopes', async () => {
+    return { scopes: API_KEY_SCOPES };
+  });
+
+  // List keys, including revoked ones
+  fastify.get('/', async () => {
+    const apiKeys = await prisma.apiKey.findMany({
+      orderBy: { createdAt: 'desc' },
+      select: apiKeySelect,
+    });
+
+    return apiKeys.map(formatApiKey);
+  });
+
+  // Create key. The key is in this response only.
+  fastify.post<{ Body: z.infer<typeof createApiKeySchema> }>('/', async (request, reply) => {
+    const validation = createApiKeySchema.safeParse(request.body);
+
+    if (!validation.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+    }
+
+    const { name, scopes, expiresInDays } = validation.data;
+    const { key, prefix, keyHash } = generateApiKey();
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        name,
+        prefix,
+        keyHash,
+        scopes: JSON.stringify(scopes),
+        createdById: request.currentUser!.id,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      },
+      select: apiKeySelect,
+    });
+
+    await createApiKeyAuditLog({
+      apiKeyId: apiKey.id,
+      action: 'created',
+      details: `Created by ${request.currentUser!.email} with scopes ${scopes.join(', ')}`,
+      request,
+    });
+
+    return { ...formatApiKey(apiKey), key };
+  });
+
+  // Revoke key. It stays listed with its audit trail.
+  fastify.post<{ Params: { id: string } }>('/:id/revoke', async (request, reply) => {
+    const { id } = request.params;
+
+    const apiKey = await prisma.apiKey.findUnique({ where: { id } });
+
+    if (!apiKey) {
+      return reply.status(404).send({ error: 'API key not found' });
+    }
+
+    if (apiKey.revokedAt) {
+      return reply.status(400).send({ error: 'API key is already revoked' });
+    }
+
+    const updated = await prisma.apiKey.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+      select: apiKeySelect,
+    });
+
+    await createApiKeyAuditLog({
+      apiKeyId: id,
+      action: 'revoked',
+      details: `Revoked by ${request.currentUser!.email}`,
+      request,
+    });
+
+    return formatApiKey(updated);
+  });
+
+  // Audit trail for a key, newest first
+  fastify.get<{
+    Params: { id: string };
+    Querystring: { limit?: string };
+  }>('/:id/audit', async (request, reply) => {
+    const { id } = request.params;
+    const limit = Math.min(parseInt(request.query.limit || '100', 10) || 100, 500);
+
+    const apiKey = await prisma.apiKey.findUnique({ where: { id } });
+
+    if (!apiKey) {
+      return reply.status(404).send({ error: 'API key not found' });
+    }
+
+    return prisma.apiKeyAuditLog.findMany({
+      where: { apiKeyId: id },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  });
+};
@@ -0,0 +1,96 @@
+import { FastifyPluginAsync } from 'fastify';
+import { prisma } from '../utils/prisma.js';
+import { isTokenExpired } from '../utils/token.js';
+import { verifyDownloadSignature } from '../utils/signed-url.js';
+import { storage } from '../services/storage.service.js';
+import { createAuditLog } from '../services/audit.service.js';
+import { requireAdminOrApiKey, describeActor } from '../middleware/auth.middleware.js';
+import { z } from 'zod';
+
+const documentKindSchema = z.enum(['original', 'signed']);
+
+const signedQuerySchema = z.object({
+  recipient: z.string().min(1),
+  expires: z.coerce.number().int(),
+  signature: z.string().regex(/^[a-f0-9]{64}$/),
+});
+
+export const documentRoutes: FastifyPluginAsync = async (fastify) => {
+  // Download a packet's original or signed PDF (admin session, API key or signed signer URL)
+  fastify.get<{
+    Params: { packetId: string; kind: string };
+    Querystring: Record<string, string | undefined>;
+  }>('/packets/:packetId/:kind', async (request, reply) => {
+    const { packetId } = request.params;
+    const kindValidation = documentKindSchema.safeParse(request.params.kind);
+
+    if (!kindValidation.success) {
+      return reply.status(404).send({ error: 'Document not found' });
+    }
+
+    const kind = kindValidation.data;
+    let downloadedBy: string;
+    let recipientId: string | undefined;
+
+    if (request.query.signature) {
+      const validation = signedQuerySchema.safeParse(request.query);
+      if (!validation.success) {
+        return reply.status(403).send({ error: 'This download link is invalid or has expired' });
+      }
+
+      const { recipient: id, expires, signature } = validation.data;
+      const recipient = await prisma.recipient.findFirst({ where: { id, packetId } });
+
+      if (
+        !recipient ||
+        isTokenExpired(recipient.tokenExpiresAt) ||
+        !verifyDownloadSignature({ packetId, kind, recipientId: id, expires }, signature, recipient.token)
+      ) {
+        return reply.status(403).send({ error: 'This download link is invalid or has expired' });
+      }
+
+      downloadedBy = `${recipient.name} (${recipient.email}) via signing link`;
+      recipientId = recipient.id;
+    } else {
+      // Originals come with packet read access; signed copies need their own scope
+      await requireAdminOrApiKey(kind === 'signed' ? 'documents:signed' : 'packets:read')(request, reply);
+      if (reply.sent) return;
+      downloadedBy = request.apiKey ? describeActor(request) : `admin ${describeActor(request)}`;
+    }
+
+    const packet = await prisma.signingPacket.findUnique({ where: { id: packetId } });
+
+    if (!packet) {
+      return reply.status(404).send({ error: 'Packet not found' });
+    }
+
+    if (kind === 'signed' && (packet.status !== 'completed' || !packet.signedPdfPath)) {
+      return reply.status(400).send({ error: 'Signed PDF not available' });
+    }
+
+    let pdfBuffer: Buffer;
+    try {
+      pdfBuffer = await storage.get(kind === 'signed' ? packet.signedPdfPath! : packet.filePath);
+    } catch (err) {
+      return reply.status(404).send({ error: 'PDF file not found' });
+    }
+
+    await createAuditLog({
+      packetId: packet.id,
+      recipientId,
+      action: 'downloaded',
+      details: `${kind === 'signed' ? 'Signed' : 'Original'} PDF downloaded by ${downloadedBy}`,
+      ipAddress: request.ip,
+      userAgent: request.headers['user-agent'],
+    });
+
+    const fileName = kind === 'signed'
+      ? `${packet.name.replace(/[^a-zA-Z0-9]/g, '_')}_signed.pdf`
+      : packet.fileName;
+
+    return reply
+      .header('Content-Type', 'application/pdf')
+      .header('Content-Disposition', `${kind === 'signed' ? 'attachment' : 'inline'}; filename="${fileName}"`)
+      .send(pdfBuffer);
+  });
+};
@@ -1,12 +1,33 @@
-import { FastifyPluginAsync } from 'fastify';
+import { FastifyPluginAsync, FastifyReply } from 'fastify';
 import { prisma } from '../utils/prisma.js';
 import { generateSecureToken, getTokenExpiryDate, generateSigningUrl } from '../utils/token.js';
-import { sendSigningRequest, sendReminderEmail } from '../services/email.service.js';
-import { parseTemplatePlaceholders, getUniqueRoles, Placeholder } from '../services/pdf.service.js';
-import { requireAdmin } from '../middleware/auth.middleware.js';
+import { sha256Hex } from '../utils/hash.js';
+import { sendReminderEmail } from '../services/email.service.js';
+import { getSigningStages, getCurrentStage, notifyStage, reassignRecipient } from '../services/workflow.service.js';
+import { createAuditLog } from '../services/audit.service.js';
+import { RESET_VERIFICATION_STATE } from '../services/signing-session.service.js';
+import { hashAccessCode } from '../services/access-code.service.js';
+import { storage, storageKeys } from '../services/storage.service.js';
+import { encryptString, decryptString } from '../services/encryption.service.js';
+import {
+  parseTemplatePlaceholders,
+  getUniqueRoles,
+  getSignatureRoles,
+  checkRoleMapping,
+  placedFieldSchema,
+  mergePlacedFields,
+  checkPlacedFields,
+  formFieldMappingSchema,
+  findFormFields,
+  checkFormFieldMapping,
+  mergeFormFields,
+  STAMPING_MODES,
+  Placeholder,
+  PlacedField,
+  StampingMode,
+} from '../services/pdf.service.js';
+import { requireAdminOrApiKey, describeActor } from '../middleware/auth.middleware.js';
 import { z } from 'zod';
-import fs from 'fs/promises';
-import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 
 const recipientSchema = z.object({
@@ -14,16 +35,220 @@ const recipientSchema = z.object({
   name: z.string().min(1),
   email: z.string().email(),
   order: z.number().int().min(1),
+  requireOtp: z.boolean().optional(),
+  accessCode: z.string().trim().min(4).max(64).optional(),
 });
 
 const updatePacketSchema = z.object({
   name: z.string().min(1).optional(),
   recipients: z.array(recipientSchema).optional(),
+  includeCertificate: z.boolean().optional(),
+  stampingMode: z.enum(STAMPING_MODES).optional(),
+  flattenForm: z.boolean().optional(),
 });
 
+const placedFieldListSchema = z.array(placedFieldSchema).max(500);
+
+const placedFieldsSchema = z.object({
+  fields: placedFieldListSchema,
+});
+
+const formFieldsSchema = z.object({
+  mapping: formFieldMappingSchema,
+});
+
+const reassignRecipientSchema = z.object({
+  name: z.string().trim().min(1),
+  email: z.string().email(),
+  reason: z.string().trim().max(2000).optional(),
+});
+
+const reminderSettingsSchema = z.object({
+  enabled: z.boolean(),
+  firstAfterDays: z.number().int().min(1).max(60).default(3),
+  intervalDays: z.number().int().min(1).max(60).default(2),
+  maxCount: z.number().int().min(1).max(10).default(3),
+});
+
+const createFromTemplateSchema = z.object({
+  templateId: z.string().min(1),
+  name: z.string().min(1).optional(),
+  recipients: z.array(recipientSchema).min(1),
+  reminders: reminderSettingsSchema.optional(),
+  includeCertificate: z.boolean().optional(),
+  stampingMode: z.enum(STAMPING_MODES).optional(),
+  flattenForm: z.boolean().optional(),
+});
+
+const MAX_PDF_BYTES = 50 * 1024 * 1024;
+
+// A PDF sent inline as base64 (a data: URL prefix is tolerated)
+const base64PdfSchema = z.string().min(1).transform((value, ctx) => {
+  const buffer = Buffer.from(value.replace(/^data:application\/pdf;base64,/, ''), 'base64');
+  if (buffer.subarray(0, 5).toString('latin1') !== '%PDF-') {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Not a base64-encoded PDF' });
+    return z.NEVER;
+  }
+  if (buffer.length > MAX_PDF_BYTES) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'PDF is larger than 50MB' });
+    return z.NEVER;
+  }
+  return buffer;
+});
+
+const createPacketJsonSchema = z.object({
+  name: z.string().min(1).optional(),
+  pdfBase64: base64PdfSchema.optional(),
+  // Used in the storage key, so no path separators or parent references
+  fileName: z.string().trim().min(1).max(255)
+    .regex(/\.pdf$/i, 'File name must end in .pdf')
+    .refine(name => !/[/\\]|\.\./.test(name), 'File name must not contain a path')
+    .optional(),
+  templateId: z.string().min(1).optional(),
+  recipients: z.array(recipientSchema).min(1),
+  prefilledFields: z.record(z.string().max(1000)).optional(),
+  reminders: reminderSettingsSchema.optional(),
+  includeCertificate: z.boolean().optional(),
+  stampingMode: z.enum(STAMPING_MODES).optional(),
+  flattenForm: z.boolean().optional(),
+  sendImmediately: z.boolean().optional(),
+}).refine(
+  data => (data.pdfBase64 === undefined) !== (data.templateId === undefined),
+  { message: 'Provide either pdfBase64 or templateId', path: ['pdfBase64'] }
+);
+
+/**
+ * Checks that need the document's placeholders: recipients must map onto
+ * its roles and every prefilled field must be a TEXT placeholder
+ */
+function placeholderRulesSchema(placeholders: Placeholder[]) {
+  const textFields = new Set(
+    placeholders.filter(p => p.type === 'TEXT' && p.fieldName).map(p => p.fieldName!)
+  );
+
+  return z.object({
+    recipients: z.array(recipientSchema),
+    prefilledFields: z.record(z.string()).optional(),
+  }).superRefine((data, ctx) => {
+    for (const issue of checkRoleMapping(placeholders, data.recipients)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: issue.recipientIndex !== undefined ? ['recipients', issue.recipientIndex, 'roleName'] : ['recipients'],
+        message: issue.message,
+      });
+    }
+
+    for (const fieldName of Object.keys(data.prefilledFields || {})) {
+      if (!textFields.has(fieldName)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['prefilledFields', fieldName],
+          message: `"${fieldName}" is not a text field in the document`,
+        });
+      }
+    }
+  });
+}
+
+/**
+ * Reject recipients that do not map onto the document's roles. Returns true
+ * if a response was sent.
+ */
+function rejectRoleMismatch(
+  reply: FastifyReply,
+  placeholders: Placeholder[],
+  recipients: Array<{ roleName: string }>
+): boolean {
+  const issues = checkRoleMapping(placeholders, recipients);
+  if (!issues.length) return false;
+
+  reply.status(400).send({
+    error: 'Recipient roles do not match the document',
+    details: issues,
+  });
+  return true;
+}
+
+/**
+ * Notify the first signing stage and mark the packet sent
+ */
+async function startSigning(packet: {
+  id: string;
+  name: string;
+  recipients: Array<{ id: string; name: string; email: string; order: number; status: string }>;
+}) {
+  // Everyone in the first stage (lowest order) is notified together
+  const [firstStage] = getSigningStages(packet.recipients);
+  await notifyStage(packet, firstStage);
+
+  await prisma.signingPacket.update({
+    where: { id: packet.id },
+    data: { status: 'sent' },
+  });
+}
+
+/**
+ * Map validated reminder settings onto the packet columns
+ */
+function toReminderData(reminders?: z.infer<typeof reminderSettingsSchema>) {
+  if (!reminders) return {};
+  return {
+    reminderEnabled: reminders.enabled,
+    reminderFirstAfterDays: reminders.firstAfterDays,
+    reminderIntervalDays: reminders.intervalDays,
+    reminderMaxCount: reminders.maxCount,
+  };
+}
+
+/**
+ * Build recipient rows with fresh signing tokens, hashing any access code
+ */
+async function toRecipientCreateData(recipients: z.infer<typeof recipientSchema>[]) {
+  return Promise.all(recipients.map(async ({ accessCode, ...r }) => ({
+    ...r,
+    accessCodeHash: accessCode ? await hashAccessCode(accessCode) : null,
+    token: generateSecureToken(),
+    tokenExpiresAt: getTokenExpiryDate(),
+  })));
+}
+
+// Recipient columns returned by the API; signing tokens and verification hashes are left out
+const recipientSelect = {
+  id: true,
+  packetId: true,
+  roleName: true,
+  name: true,
+  email: true,
+  order: true,
+  status: true,
+  tokenExpiresAt: true,
+  notifiedAt: true,
+  reminderCount: true,
+  lastReminderAt: true,
+  signedAt: true,
+  declinedAt: true,
+  declineReason: true,
+  requireOtp: true,
+  accessCodeHash: true, // only read to report hasAccessCode
+} as const;
+
+/**
+ * Shape a recipient for responses; the access code hash never leaves the server
+ */
+function toRecipientResponse<T extends { accessCodeHash: string | null }>({ accessCodeHash, ...recipient }: T) {
+  return { ...recipient, hasAccessCode: !!accessCodeHash };
+}
+
 export const packetRoutes: FastifyPluginAsync = async (fastify) => {
-  // Protect all packet routes - admin only
-  fastify.addHook('preHandler', requireAdmin);
+  // Protect all packet routes - admin, or an API key scoped for reads (GET) or writes.
+  // Routes that reassign, cancel, delete or map form fields name packets:manage in their config.
+  fastify.addHook('preHandler', (request, reply) => {
+    const scope = request.routeOptions.config.apiKeyScope
+      ?? (request.method === 'GET' ? 'packets:read' : 'packets:write');
+    return requireAdminOrApiKey(scope)(request, reply);
+  });
+
+  const manageScope = { config: { apiKeyScope: 'packets:manage' as const } };
 
   // List all packets
   fastify.get<{
@@ -58,6 +283,7 @@ export const packetRoutes: FastifyPluginAsync = async (fastify) => {
     return packets.map(p => ({
       ...p,
       placeholders: JSON.parse(p.placeholders as string),
+      prefilledFields: p.prefilledFields ? JSON.parse(decryptString(p.prefilledFields)) : {},
     }));
   });
 
@@ -70,7 +296,8 @@ export const packetRoutes: FastifyPluginAsync = async (fastify) => {
       include: {
         recipients: {
           orderBy: { order: 'asc' },
-          include: {
+          select: {
+            ...recipientSelect,
             signature: {
               select: {
                 id: true,
@@ -93,7 +320,36 @@ export const packetRoutes: FastifyPluginAsync = async (fastify) => {
 
     return {
       ...packet,
+      recipients: packet.recipients.map(toRecipientResponse),
       placeholders: JSON.parse(packet.placeholders as string),
+      prefilledFields: packet.prefilledFields ? JSON.parse(decryptString(packet.prefilledFields)) : {},
+    };
+  });
+
+  // Detect placeholders in a PDF without storing it, so recipients can be mapped to roles
+  fastify.post('/detect-placeholders', async (request, reply) => {
+    const body = request.body as Record<string, any>;
+    const fileField = body?.file;
+
+    if (!fileField || !fileField.toBuffer) {
+      return reply.status(400).send({ error: 'No file uploaded' });
+    }
+
+    if (fileField.mimetype !== 'application/pdf') {
+      return reply.status(400).send({ error: 'Only PDF files are allowed' });
+    }
+
+    let placeholders: Placeholder[] = [];
+    try {
+      placeholders = await parseTemplatePlaceholders(await fileField.toBuffer());
+    } catch (err) {
+      console.error('Failed to parse placeholders:', err);
+    }
+
+    return {
+      roles: getUniqueRoles(placeholders),
+      signatureRoles: getSignatureRoles(placeholders),
+      placeholders,
     };
   });
 
@@ -115,6 +371,8 @@ export const packetRoutes: FastifyPluginAsync = async (fastify) => {
     // Get form fields (they come as { value: string } objects)
     const name = body?.name?.value || fileField.filename.replace('.pdf', '');
     const recipientsJson = body?.recipients?.value;
+    const includeCertificate = body?.includeCertificate?.value === 'true';
+    const flattenForm = body?.flattenForm?.value === 'true';
 
     if (!recipientsJson) {
       return reply.status(400).send({ error: 'Recipients are required' });
@@ -131,29 +389,85 @@ export const packetRoutes: FastifyPluginAsync = async (fastify) => {
           details: validation.error.errors,
         });
       }
+      recipients = validation.data;
     } catch (err) {
       return reply.status(400).send({ error: 'Invalid recipients JSON' });
     }
 
-    // Generate unique IDs
-    const packetId = uuidv4();
-    const fileId = uuidv4();
-    const fileName = `${fileId}_${fileField.filename}`;
-    const packetDir = path.join(process.cwd(), 'uploads', 'packets', packetId);
-    const filePath = path.join(packetDir, fileName);
+    // Optional automatic reminder settings
+    let reminders: z.infer<typeof reminderSettingsSchema> | undefined;
+    const remindersJson = body?.reminders?.value;
+    if (remindersJson) {
+      try {
+        const validation = reminderSettingsSchema.safeParse(JSON.parse(remindersJson));
+        if (!validation.success) {
+          return reply.status(400).send({
+            error: 'Invalid reminder settings',
+            details: validation.error.errors,
+          });
+        }
+        reminders = validation.data;
+      } catch (err) {
+        return reply.status(400).send({ error: 'Invalid reminders JSON' });
+      }
+    }
+
+    // Optional fields placed in the editor, for PDFs without tags
+    let fields: PlacedField[] = [];
+    const fieldsJson = body?.fields?.value;
+    if (fieldsJson) {
+      try {
+        const validation = placedFieldListSchema.safeParse(JSON.parse(fieldsJson));
+        if (!validation.success) {
+          return reply.status(400).send({
+            error: 'Invalid fields',
+            details: validation.error.errors,
+          });
+        }
+        fields = validation.data;
+      } catch (err) {
+        return reply.status(400).send({ error: 'Invalid fields JSON' });
+      }
+    }
+
+    // Optional stamping strategy; in-place when not given
+    let stampingMode: StampingMode | undefined;
+    if (body?.stampingMode?.value) {
+      const validation = z.enum(STAMPING_MODES).safeParse(body.stampingMode.value);
+      if (!validation.success) {
+        return reply.status(400).send({
+          error: 'Invalid stamping mode',
+          details: validation.error.errors,
+        });
+      }
+      stampingMode = validation.data;
+    }
 
-    // Ensure directory exists and save file
-    await fs.mkdir(packetDir, { recursive: true });
     const buffer = await fileField.toBuffer();
-    await fs.writeFile(filePath, buffer);
+
+    const fieldIssues = await checkPlacedFields(buffer, fields);
+    if (fieldIssues.length) {
+      return reply.status(400).send({ error: 'Invalid fields', details: fieldIssues });
+    }
 
     // Parse placeholders from PDF
     let placeholders: Placeholder[] = [];
     try {
-      placeholders = await parseTemplatePlaceholders(filePath);
+      placeholders = await parseTemplatePlaceholders(buffer);
     } catch (err) {
       console.error('Failed to parse placeholders:', err);
     }
+    placeholders = mergePlacedFields(placeholders, fields);
+
+    if (rejectRoleMismatch(reply, placeholders, recipients)) return;
+
+    // Generate unique IDs
+    const packetId = uuidv4();
+    const fileId = uuidv4();
+    const fileName = `${fileId}_${fileField.filename}`;
+    const filePath = storageKeys.packetFile(packetId, fileName);
+
+    await storage.put(filePath, buffer);
 
     // Create packet with embedded PDF info
     const packet = await prisma.signingPacket.create({
@@ -161,42 +475,270 @@ export const packetRoutes: FastifyPluginAsync = async (fastify) => {
         id: packetId,
         name,
         fileName: fileField.filename,
-        filePath: `packets/${packetId}/${fileName}`,
+        filePath,
         placeholders: JSON.stringify(placeholders),
+        originalSha256: sha256Hex(buffer),
         status: 'draft',
+        includeCertificate,
+        stampingMode,
+        flattenForm,
+        ...toReminderData(reminders),
         recipients: {
-          create: recipients.map(r => ({
-            ...r,
-            token: generateSecureToken(),
-            tokenExpiresAt: getTokenExpiryDate(),
-          })),
+          create: await toRecipientCreateData(recipients),
         },
       },
       include: {
         recipients: {
           orderBy: { order: 'asc' },
+          select: recipientSelect,
         },
       },
     });
 
     // Create audit log
-    await prisma.auditLog.create({
-      data: {
-        packetId: packet.id,
-        action: 'created',
-        details: `Packet "${name}" created with ${recipients.length} recipients`,
-      },
+    await createAuditLog({
+      packetId: packet.id,
+      action: 'created',
+      details: `Packet "${name}" created with ${recipients.length} recipients`,
     });
 
     const roles = getUniqueRoles(placeholders);
 
     return {
       ...packet,
+      recipients: packet.recipients.map(toRecipientResponse),
       placeholders,
       roles,
     };
   });
 
+  // Create new packet from a stored template
+  fastify.post<{
+    Body: z.infer<typeof createFromTemplateSchema>;
+  }>('/from-template', async (request, reply) => {
+    const validation = createFromTemplateSchema.safeParse(request.body);
+
+    if (!validation.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+    }
+
+    const { templateId, recipients, reminders, includeCertificate, stampingMode, flattenForm } = validation.data;
+
+    const template = await prisma.template.findUnique({ where: { id: templateId } });
+
+    if (!template) {
+      return reply.status(404).send({ error: 'Template not found' });
+    }
+
+    if (rejectRoleMismatch(reply, JSON.parse(template.placeholders as string), recipients)) return;
+
+    const name = validation.data.name || template.name;
+
+    // Copy the template PDF so later template edits never touch this packet
+    const packetId = uuidv4();
+    const fileId = uuidv4();
+    const fileName = `${fileId}_${template.fileName}`;
+    const filePath = storageKeys.packetFile(packetId, fileName);
+
+    let buffer: Buffer;
+    try {
+      buffer = await storage.get(template.filePath);
+      await storage.put(filePath, buffer);
+    } catch (err) {
+      console.error('Failed to copy template file:', err);
+      return reply.status(500).send({ error: 'Template file is missing' });
+    }
+
+    const packet = await prisma.signingPacket.create({
+      data: {
+        id: packetId,
+        name,
+        templateId: template.id,
+        fileName: template.fileName,
+        filePath,
+        placeholders: template.placeholders,
+        originalSha256: sha256Hex(buffer),
+        status: 'draft',
+        includeCertificate,
+        stampingMode,
+        flattenForm,
+        ...toReminderData(reminders),
+        recipients: {
+          create: await toRecipientCreateData(recipients),
+        },
+      },
+      include: {
+        recipients: {
+          orderBy: { order: 'asc' },
+          select: recipientSelect,
+        },
+      },
+    });
+
+    await createAuditLog({
+      packetId: packet.id,
+      action: 'created',
+      details: `Packet "${name}" created from template "${template.name}" with ${recipients.length} recipients`,
+    });
+
+    const placeholders: Placeholder[] = JSON.parse(packet.placeholders as string);
+
+    return {
+      ...packet,
+      recipients: packet.recipients.map(toRecipientResponse),
+      placeholders,
+      roles: getUniqueRoles(placeholders),
+    };
+  });
+
+  // Create a packet from JSON (inline PDF or template), optionally sending it straight away
+  fastify.post<{
+    Body: z.input<typeof createPacketJsonSchema>;
+  }>('/json', { bodyLimit: Math.ceil(MAX_PDF_BYTES * 4 / 3) + 1024 * 1024 }, async (request, reply) => {
+    const validation = createPacketJsonSchema.safeParse(request.body);
+
+    if (!validation.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+    }
+
+    const {
+      pdfBase64,
+      templateId,
+      recipients,
+      prefilledFields,
+      reminders,
+      includeCertificate,
+      stampingMode,
+      flattenForm,
+      sendImmediately,
+    } = validation.data;
+
+    let buffer: Buffer;
+    let originalFileName: string;
+    let placeholders: Placeholder[];
+    let name: string;
+    let source = '';
+
+    if (templateId) {
+      const template = await prisma.template.findUnique({ where: { id: templateId } });
+
+      if (!template) {
+        return reply.status(404).send({ error: 'Template not found' });
+      }
+
+      try {
+        buffer = await storage.get(template.filePath);
+      } catch (err) {
+        console.error('Failed to read template file:', err);
+        return reply.status(500).send({ error: 'Template file is missing' });
+      }
+
+      originalFileName = template.fileName;
+      placeholders = JSON.parse(template.placeholders as string);
+      name = validation.data.name || template.name;
+      source = ` from template "${template.name}"`;
+    } else {
+      buffer = pdfBase64!;
+      originalFileName = validation.data.fileName || 'document.pdf';
+      try {
+        placeholders = await parseTemplatePlaceholders(buffer);
+      } catch (err) {
+        console.error('Failed to parse placeholders:', err);
+        placeholders = [];
+      }
+      name = validation.data.name || originalFileName.replace(/\.pdf$/i, '');
+    }
+
+    const placeholderValidation = placeholderRulesSchema(placeholders).safeParse({ recipients, prefilledFields });
+
+    if (!placeholderValidation.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: placeholderValidation.error.errors,
+      });
+    }
+
+    const packetId = uuidv4();
+    const filePath = storageKeys.packetFile(packetId, `${uuidv4()}_${originalFileName}`);
+    await storage.put(filePath, buffer);
+
+    const created = await prisma.signingPacket.create({
+      data: {
+        id: packetId,
+        name,
+        templateId: templateId || null,
+        fileName: originalFileName,
+        filePath,
+        placeholders: JSON.stringify(placeholders),
+        prefilledFields: prefilledFields && Object.keys(prefilledFields).length
+          ? encryptString(JSON.stringify(prefilledFields))
+          : null,
+        originalSha256: sha256Hex(buffer),
+        status: 'draft',
+        includeCertificate,
+        stampingMode,
+        flattenForm,
+        ...toReminderData(reminders),
+        recipients: {
+          create: await toRecipientCreateData(recipients),
+        },
+      },
+      include: {
+        recipients: {
+          orderBy: { order: 'asc' },
+          select: recipientSelect,
+        },
+      },
+    });
+
+    await createAuditLog({
+      packetId,
+      action: 'created',
+      details: `Packet "${name}" created${source} with ${recipients.length} recipients by ${describeActor(request)}`,
+    });
+
+    if (sendImmediately) {
+      await startSigning(created);
+    }
+
+    const packet = await prisma.signingPacket.findUniqueOrThrow({
+      where: { id: packetId },
+      include: {
+        recipients: {
+          orderBy: { order: 'asc' },
+          // The token is only read to build the signing URLs below
+          select: { ...recipientSelect, token: true },
+        },
+      },
+    });
+
+    return {
+      ...packet,
+      recipients: packet.recipients.map(({ token, ...r }) => toRecipientResponse(r)),
+      placeholders,
+      prefilledFields: prefilledFields || {},
+      roles: getUniqueRoles(placeholders),
+      // Only links that have been emailed are live; later stages get theirs when their turn comes
+      signingUrls: packet.recipients
+        .filter(r => r.status === 'notified')
+        .map(r => ({
+          recipientId: r.id,
+          roleName: r.roleName,
+          name: r.name,
+          email: r.email,
+          order: r.order,
+          url: generateSigningUrl(r.token),
+          expiresAt: r.tokenExpiresAt,
+        })),
+    };
+  });
+
   // Update packet (only in draft status)
   fastify.patch<{
     Params: { id: string };
@@ -225,7 +767,9 @@ export const packetRoutes: FastifyPluginAsync = async (fastify) => {
       return reply.status(400).send({ error: 'Can only update draft packets' });
     }
 
-    const { name, recipients } = validation.data;
+    const { name, recipients, includeCertificate, stampingMode, flattenForm } = validation.data;
+
+    if (recipients && rejectRoleMismatch(reply, JSON.parse(packet.placeholders as string), recipients)) return;
 
     // Update packet
     if (recipients) {
@@ -237,29 +781,64 @@ export const packetRoutes: FastifyPluginAsync = async (fastify) => {
       where: { id },
       data: {
         ...(name && { name }),
+        ...(includeCertificate !== undefined && { includeCertificate }),
+        ...(stampingMode && { stampingMode }),
+        ...(flattenForm !== undefined && { flattenForm }),
         ...(recipients && {
           recipients: {
-            create: recipients.map(r => ({
-              ...r,
-              token: generateSecureToken(),
-              tokenExpiresAt: getTokenExpiryDate(),
-            })),
+            create: await toRecipientCreateData(recipients),
           },
         }),
       },
       include: {
         recipients: {
           orderBy: { order: 'asc' },
+          select: recipientSelect,
         },
       },
     });
 
     return {
       ...updated,
+      recipients: updated.recipients.map(toRecipientResponse),
       placeholders: JSON.parse(updated.placeholders as string),
     };
   });
 
+  // Update automatic reminder settings (allowed while signing is in progress)
+  fastify.put<{
+    Params: { id: string };
+    Body: z.infer<typeof reminderSettingsSchema>;
+  }>('/:id/reminders', async (request, reply) => {
+    const { id } = request.params;
+    const validation = reminderSettingsSchema.safeParse(request.body);
+
+    if (!validation.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+    }
+
+    const packet = await prisma.signingPacket.findUnique({ where: { id } });
+
+    if (!packet) {
+      return reply.status(404).send({ error: 'Packet not found' });
+    }
+
+    const updated = await prisma.signingPacket.update({
+      where: { id },
+      data: toReminderData(validation.data),
+    });
+
+    return {
+      reminderEnabled: updated.reminderEnabled,
+      reminderFirstAfterDays: updated.reminderFirstAfterDays,
+      reminderIntervalDays: updated.reminderIntervalDays,
+      reminderMaxCount: updated.reminderMaxCount,
+    };
+  });
+
   // Send packet (trigger signing workflow)
   fastify.post<{ Params: { id: string } }>('/:id/send', async (request, reply) => {
     const { id } = request.params;
@@ -285,50 +864,10 @@ export const packetRoutes: FastifyPluginAsync = async (fastify) => {
       return reply.status(400).send({ error: 'Packet has no recipients' });
     }
 
-    // Find first recipient (order = 1)
-    const firstRecipient = packet.recipients.find(r => r.order === 1);
-    if (!firstRecipient) {
-      return reply.status(400).send({ error: 'No recipient with order 1' });
-    }
-
-    // Generate fresh token for first recipient
-    const token = generateSecureToken();
-    const tokenExpiresAt = getTokenExpiryDate();
-
-    await prisma.recipient.update({
-      where: { id: firstRecipient.id },
-      data: {
-        token,
-        tokenExpiresAt,
-        status: 'notified',
-      },
-    });
-
-    // Send email to first signer
-    const signingUrl = generateSigningUrl(token);
-    await sendSigningRequest(
-      firstRecipient.email,
-      firstRecipient.name,
-      packet.name,
-      signingUrl,
-      tokenExpiresAt
-    );
-
-    // Update packet status
-    await prisma.signingPacket.update({
-      where: { id },
-      data: { status: 'sent' },
-    });
+    // Drafts saved before roles were checked may still be mismatched
+    if (rejectRoleMismatch(reply, JSON.parse(packet.placeholders as string), packet.recipients)) return;
 
-    // Audit log
-    await prisma.auditLog.create({
-      data: {
-        packetId: id,
-        recipientId: firstRecipient.id,
-        action: 'sent',
-        details: `Signing request sent to ${firstRecipient.email}`,
-      },
-    });
+    await startSigning(packet);
 
     return { success: true, message: 'Signing request sent' };
   });
@@ -350,57 +889,126 @@ export const packetRoutes: FastifyPluginAsync = async (fastify) => {
       return reply.status(404).send({ error: 'Packet not found' });
     }
 
-    if (packet.status === 'completed' || packet.status === 'cancelled') {
+    if (packet.status === 'completed' || packet.status === 'cancelled' || packet.status === 'declined') {
       return reply.status(400).send({ error: 'Packet is no longer active' });
     }
 
-    // Find current pending/notified recipient
-    const currentRecipient = packet.recipients.find(
-      r => r.status === 'notified' || r.status === 'pending'
+    // Find unsigned recipients in the current stage (expired links are revived)
+    const currentStage = getCurrentStage(packet.recipients);
+    const pendingRecipients = (currentStage || []).filter(
+      r => r.status === 'notified' || r.status === 'pending' || r.status === 'expired'
     );
 
-    if (!currentRecipient) {
+    if (pendingRecipients.length === 0) {
       return reply.status(400).send({ error: 'No pending recipient found' });
     }
 
-    // Generate new token (invalidates old one)
-    const token = generateSecureToken();
-    const tokenExpiresAt = getTokenExpiryDate();
-
-    await prisma.recipient.update({
-      where: { id: currentRecipient.id },
-      data: {
-        token,
-        tokenExpiresAt,
-        status: 'notified',
-      },
-    });
-
-    // Send email
-    const signingUrl = generateSigningUrl(token);
-    await sendReminderEmail(
-      currentRecipient.email,
-      currentRecipient.name,
-      packet.name,
-      signingUrl,
-      tokenExpiresAt
-    );
+    for (const currentRecipient of pendingRecipients) {
+      // Generate new token (invalidates old one)
+      const token = generateSecureToken();
+      const tokenExpiresAt = getTokenExpiryDate();
+
+      await prisma.recipient.update({
+        where: { id: currentRecipient.id },
+        data: {
+          token,
+          tokenExpiresAt,
+          status: 'notified',
+          notifiedAt: new Date(),
+          reminderCount: 0,
+          lastReminderAt: null,
+          ...RESET_VERIFICATION_STATE,
+        },
+      });
 
-    // Audit log
-    await prisma.auditLog.create({
-      data: {
+      // Send email
+      const signingUrl = generateSigningUrl(token);
+      await sendReminderEmail(
+        currentRecipient.email,
+        currentRecipient.name,
+        packet.name,
+        signingUrl,
+        tokenExpiresAt
+      );
+
+      // Audit log
+      await createAuditLog({
         packetId: id,
         recipientId: currentRecipient.id,
         action: 'resent',
         details: `New signing link sent to ${currentRecipient.email}`,
-      },
+      });
+    }
+
+    if (packet.status === 'expired') {
+      await prisma.signingPacket.update({
+        where: { id },
+        data: { status: packet.recipients.some(r => r.status === 'signed') ? 'in_progress' : 'sent' },
+      });
+    }
+
+    return {
+      success: true,
+      message: pendingRecipients.length > 1 ? 'New signing links sent' : 'New signing link sent',
+    };
+  });
+
+  // Reassign an unsigned recipient to another person
+  fastify.post<{
+    Params: { id: string; recipientId: string };
+    Body: z.infer<typeof reassignRecipientSchema>;
+  }>('/:id/recipients/:recipientId/reassign', manageScope, async (request, reply) => {
+    const { id, recipientId } = request.params;
+    const validation = reassignRecipientSchema.safeParse(request.body);
+
+    if (!validation.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+    }
+
+    const { name, email, reason } = validation.data;
+
+    const packet = await prisma.signingPacket.findUnique({ where: { id } });
+
+    if (!packet) {
+      return reply.status(404).send({ error: 'Packet not found' });
+    }
+
+    if (!['draft', 'sent', 'in_progress'].includes(packet.status)) {
+      return reply.status(400).send({ error: 'Packet is no longer active' });
+    }
+
+    const recipient = await prisma.recipient.findFirst({
+      where: { id: recipientId, packetId: id },
     });
 
-    return { success: true, message: 'New signing link sent' };
+    if (!recipient) {
+      return reply.status(404).send({ error: 'Recipient not found' });
+    }
+
+    if (recipient.status === 'signed' || recipient.status === 'declined') {
+      return reply.status(400).send({ error: 'Only unsigned recipients can be reassigned' });
+    }
+
+    await reassignRecipient(
+      packet,
+      recipient,
+      { name, email },
+      {
+        action: 'reassigned',
+        details: `Recipient reassigned by ${describeActor(request)} from ${recipient.name} (${recipient.email}) to ${name} (${email})${reason ? `: ${reason}` : ''}`,
+        ipAddress: request.ip,
+        userAgent: request.headers['user-agent'],
+      }
+    );
+
+    return { success: true, message: `Recipient reassigned to ${name}` };
   });
 
   // Cancel packet
-  fastify.post<{ Params: { id: string } }>('/:id/cancel', async (request, reply) => {
+  fastify.post<{ Params: { id: string } }>('/:id/cancel', manageScope, async (request, reply) => {
     const { id } = request.params;
 
     const packet = await prisma.signingPacket.findUnique({ where: { id } });
@@ -419,19 +1027,17 @@ export const packetRoutes: FastifyPluginAsync = async (fastify) => {
     });
 
     // Audit log
-    await prisma.auditLog.create({
-      data: {
-        packetId: id,
-        action: 'cancelled',
-        details: 'Packet cancelled by admin',
-      },
+    await createAuditLog({
+      packetId: id,
+      action: 'cancelled',
+      details: 'Packet cancelled by admin',
     });
 
     return { success: true };
   });
 
   // Delete packet (only drafts)
-  fastify.delete<{ Params: { id: string } }>('/:id', async (request, reply) => {
+  fastify.delete<{ Params: { id: string } }>('/:id', manageScope, async (request, reply) => {
     const { id } = request.params;
 
     const packet = await prisma.signingPacket.findUnique({ where: { id } });
@@ -446,11 +1052,7 @@ export const packetRoutes: FastifyPluginAsync = async (fastify) => {
 
     // Delete PDF file
     try {
-      const fullPath = path.join(process.cwd(), 'uploads', packet.filePath);
-      await fs.unlink(fullPath);
-      // Try to remove the packet directory if empty
-      const packetDir = path.dirname(fullPath);
-      await fs.rmdir(packetDir);
+      await storage.delete(packet.filePath);
     } catch (err) {
       console.error('Failed to delete packet file:', err);
     }
@@ -477,6 +1079,106 @@ export const packetRoutes: FastifyPluginAsync = async (fastify) => {
     return logs;
   });
 
+  // Replace the fields placed in the editor. Placeholders found from tags are kept.
+  fastify.put<{
+    Params: { id: string };
+    Body: z.infer<typeof placedFieldsSchema>;
+  }>('/:id/fields', async (request, reply) => {
+    const { id } = request.params;
+    const validation = placedFieldsSchema.safeParse(request.body);
+
+    if (!validation.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+    }
+
+    const packet = await prisma.signingPacket.findUnique({ where: { id } });
+
+    if (!packet) {
+      return reply.status(404).send({ error: 'Packet not found' });
+    }
+
+    if (packet.status !== 'draft') {
+      return reply.status(400).send({ error: 'Can only place fields on draft packets' });
+    }
+
+    const { fields } = validation.data;
+
+    const fieldIssues = await checkPlacedFields(await storage.get(packet.filePath), fields);
+    if (fieldIssues.length) {
+      return reply.status(400).send({ error: 'Invalid fields', details: fieldIssues });
+    }
+
+    // Recipients are checked against the new roles when the packet is sent
+    const placeholders = mergePlacedFields(JSON.parse(packet.placeholders as string), fields);
+
+    await prisma.signingPacket.update({
+      where: { id },
+      data: { placeholders: JSON.stringify(placeholders) },
+    });
+
+    return { roles: getUniqueRoles(placeholders), signatureRoles: getSignatureRoles(placeholders), placeholders };
+  });
+
+  // AcroForm fields in the packet's PDF. Their roles are on the placeholders.
+  fastify.get<{ Params: { id: string } }>('/:id/form-fields', async (request, reply) => {
+    const { id } = request.params;
+
+    const packet = await prisma.signingPacket.findUnique({ where: { id } });
+
+    if (!packet) {
+      return reply.status(404).send({ error: 'Packet not found' });
+    }
+
+    return { formFields: await findFormFields(await storage.get(packet.filePath)) };
+  });
+
+  // Assign roles to form fields. Fields left out fall back to their names.
+  fastify.put<{
+    Params: { id: string };
+    Body: z.infer<typeof formFieldsSchema>;
+  }>('/:id/form-fields', manageScope, async (request, reply) => {
+    const { id } = request.params;
+    const validation = formFieldsSchema.safeParse(request.body);
+
+    if (!validation.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+    }
+
+    const packet = await prisma.signingPacket.findUnique({ where: { id } });
+
+    if (!packet) {
+      return reply.status(404).send({ error: 'Packet not found' });
+    }
+
+    if (packet.status !== 'draft') {
+      return reply.status(400).send({ error: 'Can only map form fields on draft packets' });
+    }
+
+    const { mapping } = validation.data;
+    const formFields = await findFormFields(await storage.get(packet.filePath));
+
+    const mappingIssues = checkFormFieldMapping(formFields, mapping);
+    if (mappingIssues.length) {
+      return reply.status(400).send({ error: 'Invalid form field mapping', details: mappingIssues });
+    }
+
+    // Recipients are checked against the new roles when the packet is sent
+    const placeholders = mergeFormFields(JSON.parse(packet.placeholders as string), formFields, mapping);
+
+    await prisma.signingPacket.update({
+      where: { id },
+      data: { placeholders: JSON.stringify(placeholders) },
+    });
+
+    return { roles: getUniqueRoles(placeholders), signatureRoles: getSignatureRoles(placeholders), placeholders };
+  });
+
   // Get packet roles (from placeholders)
   fastify.get<{ Params: { id: string } }>('/:id/roles', async (request, reply) => {
     const { id } = request.params;
@@ -490,6 +1192,6 @@ export const packetRoutes: FastifyPluginAsync = async (fastify) => {
     const placeholders = JSON.parse(packet.placeholders as string);
     const roles = getUniqueRoles(placeholders);
 
-    return { roles, placeholders };
+    return { roles, signatureRoles: getSignatureRoles(placeholders), placeholders };
   });
 };
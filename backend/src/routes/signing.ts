@@ -1,21 +1,88 @@
 import { FastifyPluginAsync } from 'fastify';
 import { prisma } from '../utils/prisma.js';
-import { isTokenExpired, generateSecureToken, getTokenExpiryDate, generateSigningUrl } from '../utils/token.js';
-import { stampSignature, saveStampedPdf, Placeholder } from '../services/pdf.service.js';
-import { sendSigningRequest, sendCompletionEmail } from '../services/email.service.js';
+import { isTokenExpired } from '../utils/token.js';
+import {
+  stampSignature,
+  saveStampedPdf,
+  appendCompletionCertificate,
+  isPlacedField,
+  isFormField,
+  fieldValuesSchema,
+  Placeholder,
+  StampingMode,
+} from '../services/pdf.service.js';
+import { storage } from '../services/storage.service.js';
+import { encryptString, decryptString } from '../services/encryption.service.js';
+import { signPdf } from '../services/pdf-signing.service.js';
+import { sendCompletionEmail, sendDeclineNotification } from '../services/email.service.js';
+import { getCurrentStage, isRecipientTurn, notifyStage, reassignRecipient } from '../services/workflow.service.js';
+import { createAuditLog } from '../services/audit.service.js';
+import { issueOtp, verifyOtp, isOtpLocked, maskEmail } from '../services/otp.service.js';
+import { verifyAccessCode, isAccessCodeLocked } from '../services/access-code.service.js';
+import { hasSigningSession, hasSessionToken } from '../services/signing-session.service.js';
 import { z } from 'zod';
-import fs from 'fs/promises';
-import path from 'path';
 import { config } from '../utils/config.js';
+import { sha256Hex } from '../utils/hash.js';
+import { createSignedDownloadUrl } from '../utils/signed-url.js';
 
 const signDocumentSchema = z.object({
   signatureData: z.string().min(1), // Base64 image or typed text
   signatureType: z.enum(['drawn', 'typed']),
   typedName: z.string().min(1),
+  // Drawn image or typed initials; taken from typedName when left out
+  initialsData: z.string().min(1).optional(),
+  initialsType: z.enum(['drawn', 'typed']).optional(),
+  // Pages the signer initialed on the signing page
+  initialedPages: z.array(z.number().int().min(1)).optional(),
   textFields: z.record(z.string()).optional(),
   confirmed: z.boolean(),
+}).refine(
+  data => !data.initialsData || data.initialsType,
+  { message: 'Initials need an initialsType', path: ['initialsType'] }
+);
+
+const declineSchema = z.object({
+  reason: z.string().trim().min(1).max(2000),
+});
+
+const verifyAccessCodeSchema = z.object({
+  code: z.string().trim().min(1).max(64),
+});
+
+const verifyOtpSchema = z.object({
+  code: z.string().trim().regex(/^\d{6}$/, 'Enter the 6-digit code'),
 });
 
+const delegateSchema = z.object({
+  name: z.string().trim().min(1),
+  email: z.string().email(),
+  reason: z.string().trim().max(2000).optional(),
+});
+/**
+ * The placeholders a recipient sees: SIGNATURE for their role, DATE (always
+ * shown) and TEXT (unless prefilled)
+ */
+function getRecipientPlaceholders(
+  packet: { placeholders: string; prefilledFields: string | null },
+  roleName: string
+): Placeholder[] {
+  const placeholders: Placeholder[] = JSON.parse(packet.placeholders);
+  const prefilledFields: Record<string, string> = packet.prefilledFields
+    ? JSON.parse(decryptString(packet.prefilledFields))
+    : {};
+
+  return placeholders.filter(p => {
+    if (p.type === 'TEXT' && p.fieldName && p.fieldName in prefilledFields) return false;
+    // Fields placed in the editor and form fields belong to the role they were assigned
+    if (isPlacedField(p) || isFormField(p)) return p.role === roleName;
+    // Tagged TEXT and DATE fields are shown for all signers
+    if (p.type === 'TEXT') return true;
+    if (p.type === 'DATE') return true;
+    // Roles are checked against the document when the packet is created and sent
+    return p.role === roleName;
+  });
+}
+
 export const signingRoutes: FastifyPluginAsync = async (fastify) => {
   // Get signing session by token
   fastify.get<{ Params: { token: string } }>('/:token', async (request, reply) => {
@@ -54,54 +121,68 @@ export const signingRoutes: FastifyPluginAsync = async (fastify) => {
       return reply.status(400).send({ error: 'You have already signed this document' });
     }
 
+    if (recipient.status === 'declined') {
+      return reply.status(400).send({ error: 'You have declined to sign this document' });
+    }
+
     if (recipient.packet.status === 'cancelled') {
       return reply.status(400).send({ error: 'This signing request has been cancelled' });
     }
 
+    if (recipient.packet.status === 'declined') {
+      return reply.status(400).send({ error: 'This signing request was declined by another signer' });
+    }
+
+    if (recipient.status === 'expired' || recipient.packet.status === 'expired') {
+      return reply.status(410).send({ error: 'This signing request has expired' });
+    }
+
     if (recipient.packet.status === 'completed') {
       return reply.status(400).send({ error: 'This document has already been completed' });
     }
 
-    // Check if it's this recipient's turn
-    const pendingBefore = recipient.packet.recipients.filter(
-      r => r.order < recipient.order && r.status !== 'signed'
-    );
-
-    if (pendingBefore.length > 0) {
+    // Check if it's this recipient's stage
+    if (!isRecipientTurn(recipient, recipient.packet.recipients)) {
       return reply.status(400).send({
         error: 'Waiting for previous signers to complete',
       });
     }
 
+    // Hold back the document until the signer passes the access code and/or emailed passcode
+    if (!hasSigningSession(request, recipient)) {
+      const accessCodeRequired = !!recipient.accessCodeHash && !hasSessionToken(request, recipient);
+
+      return {
+        verificationRequired: true,
+        accessCode: accessCodeRequired
+          ? { lockedUntil: isAccessCodeLocked(recipient) ? recipient.accessCodeLockedUntil : null }
+          : null,
+        otp: recipient.requireOtp
+          ? {
+              maskedEmail: maskEmail(recipient.email),
+              codeSent: !!recipient.otpExpiresAt && recipient.otpExpiresAt > new Date(),
+              lockedUntil: isOtpLocked(recipient) ? recipient.otpLockedUntil : null,
+            }
+          : null,
+        recipient: { name: recipient.name },
+        packet: { name: recipient.packet.name },
+      };
+    }
+
     // Log view event
-    await prisma.auditLog.create({
-      data: {
-        packetId: recipient.packetId,
-        recipientId: recipient.id,
-        action: 'viewed',
-        details: `Document viewed by ${recipient.name}`,
-        ipAddress: request.ip,
-        userAgent: request.headers['user-agent'],
-      },
+    await createAuditLog({
+      packetId: recipient.packetId,
+      recipientId: recipient.id,
+      action: 'viewed',
+      details: `Document viewed by ${recipient.name}`,
+      ipAddress: request.ip,
+      userAgent: request.headers['user-agent'],
     });
 
-    const placeholders = JSON.parse(recipient.packet.placeholders as string);
-
-    // Filter placeholders for this recipient's role
-    // Include: SIGNATURE for this role, DATE (always shown), TEXT (always shown)
-    const recipientPlaceholders = placeholders.filter(
-      (p: Placeholder) => {
-        // TEXT and DATE fields are shown for all signers
-        if (p.type === 'TEXT' || p.type === 'DATE') return true;
-        // SIGNATURE fields are matched by role (signer, signer1, etc.)
-        // Also match if roles have same base (e.g., signer matches signer1)
-        if (p.role === recipient.roleName) return true;
-        if (recipient.roleName.startsWith(p.role) || p.role.startsWith(recipient.roleName)) return true;
-        return false;
-      }
-    );
+    const recipientPlaceholders = getRecipientPlaceholders(recipient.packet, recipient.roleName);
 
     return {
+      verificationRequired: false,
       recipient: {
         id: recipient.id,
         name: recipient.name,
@@ -115,7 +196,8 @@ export const signingRoutes: FastifyPluginAsync = async (fastify) => {
       },
       document: {
         fileName: recipient.packet.fileName,
-        filePath: `/uploads/${recipient.packet.filePath}`,
+        // Short-lived link for the preview; the raw file path is never exposed
+        ...createSignedDownloadUrl(recipient.packet.id, 'original', recipient),
       },
       placeholders: recipientPlaceholders,
       signers: recipient.packet.recipients.map(r => ({
@@ -128,6 +210,155 @@ export const signingRoutes: FastifyPluginAsync = async (fastify) => {
     };
   });
 
+  // Check an access code shared with the signer out-of-band
+  fastify.post<{
+    Params: { token: string };
+    Body: z.infer<typeof verifyAccessCodeSchema>;
+  }>('/:token/access', async (request, reply) => {
+    const { token } = request.params;
+    const validation = verifyAccessCodeSchema.safeParse(request.body);
+
+    if (!validation.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+    }
+
+    const recipient = await prisma.recipient.findUnique({ where: { token } });
+
+    if (!recipient) {
+      return reply.status(404).send({ error: 'Invalid or expired signing link' });
+    }
+
+    if (isTokenExpired(recipient.tokenExpiresAt)) {
+      return reply.status(410).send({ error: 'This signing link has expired' });
+    }
+
+    if (!recipient.accessCodeHash) {
+      return reply.status(400).send({ error: 'No access code is required for this link' });
+    }
+
+    if (recipient.status !== 'notified' && recipient.status !== 'pending') {
+      return reply.status(400).send({ error: 'This signing request is no longer active' });
+    }
+
+    const result = await verifyAccessCode(recipient, validation.data.code, request);
+
+    switch (result.status) {
+      case 'verified':
+        return { success: true, sessionToken: result.sessionToken, expiresAt: result.expiresAt };
+      case 'invalid':
+        return reply.status(400).send({
+          error: `Incorrect access code. ${result.attemptsRemaining} attempt${result.attemptsRemaining === 1 ? '' : 's'} remaining.`,
+        });
+      case 'locked':
+        return reply.status(423).send({
+          error: 'Too many incorrect access codes. Please try again later.',
+          lockedUntil: result.lockedUntil,
+        });
+    }
+  });
+
+  // Email a one-time passcode to the signer
+  fastify.post<{ Params: { token: string } }>('/:token/otp/send', async (request, reply) => {
+    const { token } = request.params;
+
+    const recipient = await prisma.recipient.findUnique({
+      where: { token },
+      include: { packet: true },
+    });
+
+    if (!recipient) {
+      return reply.status(404).send({ error: 'Invalid or expired signing link' });
+    }
+
+    if (isTokenExpired(recipient.tokenExpiresAt)) {
+      return reply.status(410).send({ error: 'This signing link has expired' });
+    }
+
+    if (!recipient.requireOtp) {
+      return reply.status(400).send({ error: 'No verification code is required for this link' });
+    }
+
+    // The access code, if any, must be entered before a passcode is emailed or checked
+    if (recipient.accessCodeHash && !hasSessionToken(request, recipient)) {
+      return reply.status(401).send({ error: 'Access code required' });
+    }
+
+    if (recipient.status !== 'notified' && recipient.status !== 'pending') {
+      return reply.status(400).send({ error: 'This signing request is no longer active' });
+    }
+
+    if (isOtpLocked(recipient)) {
+      return reply.status(423).send({
+        error: 'Too many incorrect codes. Please try again later.',
+        lockedUntil: recipient.otpLockedUntil,
+      });
+    }
+
+    const issued = await issueOtp(recipient, recipient.packet.name, request);
+
+    if (!issued) {
+      return reply.status(429).send({ error: 'A code was sent recently. Please wait a minute before requesting another.' });
+    }
+
+    return { success: true, maskedEmail: maskEmail(recipient.email), expiresAt: issued.expiresAt };
+  });
+
+  // Verify a one-time passcode and start a signing session
+  fastify.post<{
+    Params: { token: string };
+    Body: z.infer<typeof verifyOtpSchema>;
+  }>('/:token/otp/verify', async (request, reply) => {
+    const { token } = request.params;
+    const validation = verifyOtpSchema.safeParse(request.body);
+
+    if (!validation.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+    }
+
+    const recipient = await prisma.recipient.findUnique({ where: { token } });
+
+    if (!recipient) {
+      return reply.status(404).send({ error: 'Invalid or expired signing link' });
+    }
+
+    if (isTokenExpired(recipient.tokenExpiresAt)) {
+      return reply.status(410).send({ error: 'This signing link has expired' });
+    }
+
+    if (!recipient.requireOtp) {
+      return reply.status(400).send({ error: 'No verification code is required for this link' });
+    }
+
+    // The access code, if any, must be entered before a passcode is emailed or checked
+    if (recipient.accessCodeHash && !hasSessionToken(request, recipient)) {
+      return reply.status(401).send({ error: 'Access code required' });
+    }
+
+    const result = await verifyOtp(recipient, validation.data.code, request);
+
+    switch (result.status) {
+      case 'verified':
+        return { success: true, sessionToken: result.sessionToken, expiresAt: result.expiresAt };
+      case 'invalid':
+        return reply.status(400).send({
+          error: `Incorrect code. ${result.attemptsRemaining} attempt${result.attemptsRemaining === 1 ? '' : 's'} remaining.`,
+        });
+      case 'expired':
+        return reply.status(400).send({ error: 'This code has expired. Please request a new one.' });
+      case 'locked':
+        return reply.status(423).send({
+          error: 'Too many incorrect codes. Please try again later.',
+          lockedUntil: result.lockedUntil,
+        });
+    }
+  });
+
   // Submit signature
   fastify.post<{
     Params: { token: string };
@@ -143,7 +374,16 @@ export const signingRoutes: FastifyPluginAsync = async (fastify) => {
       });
     }
 
-    const { signatureData, signatureType, typedName, textFields, confirmed } = validation.data;
+    const {
+      signatureData,
+      signatureType,
+      typedName,
+      initialsData,
+      initialsType,
+      initialedPages,
+      textFields,
+      confirmed,
+    } = validation.data;
 
     if (!confirmed) {
       return reply.status(400).send({
@@ -179,49 +419,100 @@ export const signingRoutes: FastifyPluginAsync = async (fastify) => {
       return reply.status(400).send({ error: 'You have already signed this document' });
     }
 
-    // Check order
-    const pendingBefore = recipient.packet.recipients.filter(
-      r => r.order < recipient.order && r.status !== 'signed'
-    );
+    if (recipient.status === 'declined' || recipient.packet.status === 'declined') {
+      return reply.status(400).send({ error: 'This signing request has been declined' });
+    }
 
-    if (pendingBefore.length > 0) {
+    if (recipient.status === 'expired' || recipient.packet.status === 'expired') {
+      return reply.status(410).send({ error: 'This signing request has expired' });
+    }
+
+    if (recipient.packet.status === 'cancelled') {
+      return reply.status(400).send({ error: 'This signing request has been cancelled' });
+    }
+
+    // Check stage order
+    if (!isRecipientTurn(recipient, recipient.packet.recipients)) {
       return reply.status(400).send({
         error: 'Waiting for previous signers',
       });
     }
 
-    // Save signature
-    await prisma.signature.create({
-      data: {
-        recipientId: recipient.id,
-        signatureData,
-        signatureType,
-        typedName,
-        textFields: textFields ? JSON.stringify(textFields) : null,
-        ipAddress: request.ip,
-        userAgent: request.headers['user-agent'],
-      },
-    });
+    if (!hasSigningSession(request, recipient)) {
+      return reply.status(401).send({ error: 'Verification required' });
+    }
 
-    // Update recipient status
-    await prisma.recipient.update({
-      where: { id: recipient.id },
+    const recipientPlaceholders = getRecipientPlaceholders(recipient.packet, recipient.roleName);
+
+    // Check values against the checkbox, choice and number fields this signer was shown
+    const fieldValidation = fieldValuesSchema(recipientPlaceholders).safeParse(textFields || {});
+
+    if (!fieldValidation.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: fieldValidation.error.errors,
+      });
+    }
+
+    // Every page with an initials field must be initialed
+    const initialsPages = Array.from(new Set(
+      recipientPlaceholders.filter(p => p.type === 'INITIALS').map(p => p.pageNumber)
+    )).sort((a, b) => a - b);
+    const missingPages = initialsPages.filter(page => !initialedPages?.includes(page));
+
+    if (missingPages.length > 0) {
+      return reply.status(400).send({
+        error: `Initial every page that asks for it (still missing page ${missingPages.join(', ')})`,
+      });
+    }
+
+    // Claim the recipient first so a double submit is turned away instead of hitting the signature constraint
+    const claimed = await prisma.recipient.updateMany({
+      where: { id: recipient.id, status: { in: ['pending', 'notified'] } },
       data: {
         status: 'signed',
         signedAt: new Date(),
       },
     });
 
+    if (!claimed.count) {
+      return reply.status(400).send({ error: 'You have already signed this document' });
+    }
+
+    // Save signature
+    try {
+      await prisma.signature.create({
+        data: {
+          recipientId: recipient.id,
+          signatureData: encryptString(signatureData),
+          signatureType,
+          typedName,
+          initialsData: initialsData ? encryptString(initialsData) : null,
+          initialsType: initialsData ? initialsType : null,
+          textFields: textFields ? encryptString(JSON.stringify(textFields)) : null,
+          ipAddress: request.ip,
+          userAgent: request.headers['user-agent'],
+        },
+      });
+    } catch (err) {
+      // Release the claim so the signer can try again
+      await prisma.recipient.update({
+        where: { id: recipient.id },
+        data: { status: recipient.status, signedAt: null },
+      });
+      throw err;
+    }
+
     // Audit log
-    await prisma.auditLog.create({
-      data: {
-        packetId: recipient.packetId,
-        recipientId: recipient.id,
-        action: 'signed',
-        details: `Document signed by ${recipient.name} (${recipient.email})`,
-        ipAddress: request.ip,
-        userAgent: request.headers['user-agent'],
-      },
+    await createAuditLog({
+      packetId: recipient.packetId,
+      recipientId: recipient.id,
+      action: 'signed',
+      details: `Document signed by ${recipient.name} (${recipient.email})${
+        initialsPages.length > 0 ? `, initialing page ${initialsPages.join(', ')}` : ''
+      }`,
+      ipAddress: request.ip,
+      userAgent: request.headers['user-agent'],
     });
 
     // Check if all signers have completed
@@ -234,32 +525,93 @@ export const signingRoutes: FastifyPluginAsync = async (fastify) => {
     const allSigned = allRecipients.every(r => r.status === 'signed');
 
     if (allSigned) {
+      // The last signers may submit together; only the request that claims the packet completes it
+      const claimed = await prisma.signingPacket.updateMany({
+        where: { id: recipient.packetId, status: { in: ['sent', 'in_progress'] } },
+        data: { status: 'completing' },
+      });
+      if (!claimed.count) {
+        return {
+          success: true,
+          completed: true,
+          message: 'Document has been fully signed',
+        };
+      }
+
       // All signatures collected - stamp PDF and complete
-      const documentPath = path.join(
-        process.cwd(),
-        'uploads',
-        recipient.packet.filePath
-      );
-
-      const placeholders = JSON.parse(recipient.packet.placeholders as string);
-
-      // Build stamp configs for all signers
-      const stamps = allRecipients.map(r => ({
-        role: r.roleName,
-        signatureData: {
-          signatureImage: r.signature?.signatureData,
-          typedName: r.signature?.typedName || r.name,
-          signatureType: (r.signature?.signatureType || 'typed') as 'drawn' | 'typed',
-          textFields: r.signature?.textFields
-            ? JSON.parse(r.signature.textFields as string)
-            : undefined,
-        },
-        timestamp: r.signedAt || new Date(),
-      }));
+      let stampedPdf: Uint8Array;
+      let signedPdfPath: string;
+      try {
+        const originalPdf = await storage.get(recipient.packet.filePath);
+
+        const placeholders = JSON.parse(recipient.packet.placeholders as string);
+
+        // Build stamp configs for all signers
+        const stamps = allRecipients.map(r => ({
+          role: r.roleName,
+          signatureData: {
+            signatureImage: r.signature ? decryptString(r.signature.signatureData) : undefined,
+            typedName: r.signature?.typedName || r.name,
+            signatureType: (r.signature?.signatureType || 'typed') as 'drawn' | 'typed',
+            initials: r.signature?.initialsData ? decryptString(r.signature.initialsData) : undefined,
+            initialsType: (r.signature?.initialsType || undefined) as 'drawn' | 'typed' | undefined,
+            textFields: r.signature?.textFields
+              ? JSON.parse(decryptString(r.signature.textFields))
+              : undefined,
+          },
+          timestamp: r.signedAt || new Date(),
+        }));
+
+        // Stamp the PDF, add the optional certificate page, then seal it with the server's digital signature
+        const prefilledFields = recipient.packet.prefilledFields
+          ? JSON.parse(decryptString(recipient.packet.prefilledFields))
+          : {};
+        stampedPdf = await stampSignature(
+          originalPdf,
+          stamps,
+          placeholders,
+          prefilledFields,
+          recipient.packet.stampingMode as StampingMode,
+          recipient.packet.flattenForm
+        );
 
-      // Stamp the PDF
-      const stampedPdf = await stampSignature(documentPath, stamps, placeholders);
-      const signedPdfPath = await saveStampedPdf(stampedPdf, recipient.packetId);
+        if (recipient.packet.includeCertificate) {
+          const events = await prisma.auditLog.findMany({
+            where: { packetId: recipient.packetId },
+            orderBy: { createdAt: 'asc' },
+          });
+
+          stampedPdf = await appendCompletionCertificate(stampedPdf, {
+            packetId: recipient.packetId,
+            packetName: recipient.packet.name,
+            fileName: recipient.packet.fileName,
+            originalSha256: recipient.packet.originalSha256 || sha256Hex(originalPdf),
+            completedAt: new Date(),
+            signers: allRecipients.map(r => ({
+              name: r.name,
+              email: r.email,
+              roleName: r.roleName,
+              signatureType: r.signature?.signatureType || 'typed',
+              signedAt: r.signedAt,
+              ipAddress: r.signature?.ipAddress || null,
+              userAgent: r.signature?.userAgent || null,
+            })),
+            events,
+          });
+        }
+
+        if (config.PDF_SIGNING_ENABLED) {
+          stampedPdf = await signPdf(stampedPdf);
+        }
+        signedPdfPath = await saveStampedPdf(stampedPdf, recipient.packetId);
+      } catch (err) {
+        // Release the claim rather than leave the packet stuck in completing
+        await prisma.signingPacket.update({
+          where: { id: recipient.packetId },
+          data: { status: 'in_progress' },
+        });
+        throw err;
+      }
 
       // Update packet
       await prisma.signingPacket.update({
@@ -267,17 +619,16 @@ export const signingRoutes: FastifyPluginAsync = async (fastify) => {
         data: {
           status: 'completed',
           signedPdfPath,
+          signedSha256: sha256Hex(stampedPdf),
           completedAt: new Date(),
         },
       });
 
       // Audit log
-      await prisma.auditLog.create({
-        data: {
-          packetId: recipient.packetId,
-          action: 'completed',
-          details: 'All signatures collected, document completed',
-        },
+      await createAuditLog({
+        packetId: recipient.packetId,
+        action: 'completed',
+        details: 'All signatures collected, document completed',
       });
 
       // Send completion emails
@@ -311,48 +662,25 @@ export const signingRoutes: FastifyPluginAsync = async (fastify) => {
         message: 'Document has been fully signed',
       };
     } else {
-      // Find next signer
-      const nextRecipient = allRecipients.find(r => r.status === 'pending');
-
-      if (nextRecipient) {
-        // Generate new token for next signer
-        const newToken = generateSecureToken();
-        const tokenExpiresAt = getTokenExpiryDate();
-
-        await prisma.recipient.update({
-          where: { id: nextRecipient.id },
-          data: {
-            token: newToken,
-            tokenExpiresAt,
-            status: 'notified',
-          },
-        });
-
-        // Update packet status
-        await prisma.signingPacket.update({
-          where: { id: recipient.packetId },
-          data: { status: 'in_progress' },
-        });
+      // Update packet status
+      await prisma.signingPacket.updateMany({
+        where: { id: recipient.packetId, status: 'sent' },
+        data: { status: 'in_progress' },
+      });
 
-        // Send signing request to next signer
-        const signingUrl = generateSigningUrl(newToken);
-        await sendSigningRequest(
-          nextRecipient.email,
-          nextRecipient.name,
-          recipient.packet.name,
-          signingUrl,
-          tokenExpiresAt
-        );
+      // Move on only once the whole stage has signed
+      const currentStage = getCurrentStage(allRecipients);
+      const nextStage = currentStage?.filter(r => r.status === 'pending') || [];
 
-        // Audit log
-        await prisma.auditLog.create({
-          data: {
-            packetId: recipient.packetId,
-            recipientId: nextRecipient.id,
-            action: 'sent',
-            details: `Signing request sent to ${nextRecipient.email}`,
-          },
+      if (currentStage && currentStage[0].order > recipient.order && nextStage.length > 0) {
+        // Signers finishing a stage together must not both notify the next one
+        const claimed = await prisma.recipient.updateMany({
+          where: { id: { in: nextStage.map(r => r.id) }, status: 'pending' },
+          data: { status: 'notified' },
         });
+        if (claimed.count) {
+          await notifyStage(recipient.packet, nextStage);
+        }
       }
 
       return {
@@ -363,35 +691,185 @@ export const signingRoutes: FastifyPluginAsync = async (fastify) => {
     }
   });
 
-  // Download document PDF for preview
-  fastify.get<{ Params: { token: string } }>('/:token/pdf', async (request, reply) => {
+  // Decline to sign
+  fastify.post<{
+    Params: { token: string };
+    Body: z.infer<typeof declineSchema>;
+  }>('/:token/decline', async (request, reply) => {
     const { token } = request.params;
+    const validation = declineSchema.safeParse(request.body);
+
+    if (!validation.success) {
+      return reply.status(400).send({
+        error: 'Please provide a reason for declining',
+        details: validation.error.errors,
+      });
+    }
+
+    const { reason } = validation.data;
 
     const recipient = await prisma.recipient.findUnique({
       where: { token },
       include: {
-        packet: true,
+        packet: {
+          include: {
+            recipients: {
+              orderBy: { order: 'asc' },
+            },
+          },
+        },
       },
     });
 
     if (!recipient) {
-      return reply.status(404).send({ error: 'Invalid token' });
+      return reply.status(404).send({ error: 'Invalid or expired signing link' });
     }
 
-    const filePath = path.join(
-      process.cwd(),
-      'uploads',
-      recipient.packet.filePath
-    );
+    if (isTokenExpired(recipient.tokenExpiresAt)) {
+      return reply.status(410).send({ error: 'This signing link has expired' });
+    }
 
-    try {
-      const pdfBuffer = await fs.readFile(filePath);
-      return reply
-        .header('Content-Type', 'application/pdf')
-        .header('Content-Disposition', `inline; filename="${recipient.packet.fileName}"`)
-        .send(pdfBuffer);
-    } catch (err) {
-      return reply.status(404).send({ error: 'PDF not found' });
+    if (recipient.status === 'signed') {
+      return reply.status(400).send({ error: 'You have already signed this document' });
+    }
+
+    if (recipient.status === 'declined' || recipient.packet.status === 'declined') {
+      return reply.status(400).send({ error: 'This signing request has already been declined' });
+    }
+
+    if (recipient.status === 'expired' || recipient.packet.status === 'expired') {
+      return reply.status(410).send({ error: 'This signing request has expired' });
     }
+
+    if (recipient.packet.status === 'cancelled' || recipient.packet.status === 'completed') {
+      return reply.status(400).send({ error: 'This signing request is no longer active' });
+    }
+
+    if (!isRecipientTurn(recipient, recipient.packet.recipients)) {
+      return reply.status(400).send({ error: 'Waiting for previous signers' });
+    }
+
+    if (!hasSigningSession(request, recipient)) {
+      return reply.status(401).send({ error: 'Verification required' });
+    }
+
+    // Claim the packet so a decline can't overwrite a completion that finished in the meantime
+    const claimed = await prisma.signingPacket.updateMany({
+      where: { id: recipient.packetId, status: { in: ['sent', 'in_progress'] } },
+      data: { status: 'declined' },
+    });
+
+    if (!claimed.count) {
+      return reply.status(400).send({ error: 'This signing request is no longer active' });
+    }
+
+    await prisma.recipient.update({
+      where: { id: recipient.id },
+      data: {
+        status: 'declined',
+        declinedAt: new Date(),
+        declineReason: reason,
+      },
+    });
+
+    await createAuditLog({
+      packetId: recipient.packetId,
+      recipientId: recipient.id,
+      action: 'declined',
+      details: `Signing declined by ${recipient.name} (${recipient.email}): ${reason}`,
+      ipAddress: request.ip,
+      userAgent: request.headers['user-agent'],
+    });
+
+    // Let the admin and everyone who already signed know
+    const notify = [
+      { email: config.ADMIN_EMAIL, name: 'Admin' },
+      ...recipient.packet.recipients
+        .filter(r => r.status === 'signed')
+        .map(r => ({ email: r.email, name: r.name })),
+    ];
+
+    for (const n of notify) {
+      try {
+        await sendDeclineNotification(n.email, n.name, recipient.packet.name, recipient.name, reason);
+      } catch (err) {
+        console.error(`Failed to send decline notification to ${n.email}:`, err);
+      }
+    }
+
+    return { success: true, message: 'You have declined to sign this document' };
+  });
+
+  // Delegate signing slot to another person
+  fastify.post<{
+    Params: { token: string };
+    Body: z.infer<typeof delegateSchema>;
+  }>('/:token/delegate', async (request, reply) => {
+    const { token } = request.params;
+    const validation = delegateSchema.safeParse(request.body);
+
+    if (!validation.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+    }
+
+    const { name, email, reason } = validation.data;
+
+    const recipient = await prisma.recipient.findUnique({
+      where: { token },
+      include: {
+        packet: {
+          include: {
+            recipients: {
+              orderBy: { order: 'asc' },
+            },
+          },
+        },
+      },
+    });
+
+    if (!recipient) {
+      return reply.status(404).send({ error: 'Invalid or expired signing link' });
+    }
+
+    if (isTokenExpired(recipient.tokenExpiresAt)) {
+      return reply.status(410).send({ error: 'This signing link has expired' });
+    }
+
+    if (recipient.status === 'signed' || recipient.status === 'declined') {
+      return reply.status(400).send({ error: 'This signing slot can no longer be delegated' });
+    }
+
+    if (recipient.packet.status !== 'sent' && recipient.packet.status !== 'in_progress') {
+      return reply.status(400).send({ error: 'This signing request is no longer active' });
+    }
+
+    if (!isRecipientTurn(recipient, recipient.packet.recipients)) {
+      return reply.status(400).send({ error: 'Waiting for previous signers' });
+    }
+
+    if (!hasSigningSession(request, recipient)) {
+      return reply.status(401).send({ error: 'Verification required' });
+    }
+
+    if (email.toLowerCase() === recipient.email.toLowerCase()) {
+      return reply.status(400).send({ error: 'Cannot delegate to yourself' });
+    }
+
+    await reassignRecipient(
+      recipient.packet,
+      recipient,
+      { name, email },
+      {
+        action: 'delegated',
+        details: `Signing delegated by ${recipient.name} (${recipient.email}) to ${name} (${email})${reason ? `: ${reason}` : ''}`,
+        ipAddress: request.ip,
+        userAgent: request.headers['user-agent'],
+      }
+    );
+
+    return { success: true, message: `Signing request delegated to ${name}` };
   });
 };
@@ -0,0 +1,342 @@
+import { FastifyPluginAsync } from 'fastify';
+import { prisma } from '../utils/prisma.js';
+import { storage, storageKeys } from '../services/storage.service.js';
+import {
+  parseTemplatePlaceholders,
+  getUniqueRoles,
+  placedFieldSchema,
+  mergePlacedFields,
+  checkPlacedFields,
+  formFieldMappingSchema,
+  findFormFields,
+  checkFormFieldMapping,
+  mergeFormFields,
+  Placeholder,
+} from '../services/pdf.service.js';
+import { requireAdmin } from '../middleware/auth.middleware.js';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+
+const updateTemplateSchema = z.object({
+  name: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+  defaultRoles: z.array(z.string().min(1)).optional(),
+});
+
+const placedFieldsSchema = z.object({
+  fields: z.array(placedFieldSchema).max(500),
+});
+
+const formFieldsSchema = z.object({
+  mapping: formFieldMappingSchema,
+});
+
+// Keep the default role order, dropping roles that are gone and adding new ones
+function mergeDefaultRoles(previousRoles: string[], roles: string[]): string[] {
+  return [
+    ...previousRoles.filter(r => roles.includes(r)),
+    ...roles.filter(r => !previousRoles.includes(r)),
+  ];
+}
+
+export const templateRoutes: FastifyPluginAsync = async (fastify) => {
+  // Protect all template routes - admin only
+  fastify.addHook('preHandler', requireAdmin);
+
+  // List all templates
+  fastify.get('/', async () => {
+    const templates = await prisma.template.findMany({
+      orderBy: { createdAt: 'desc' },
+      include: {
+        _count: {
+          select: { packets: true },
+        },
+      },
+    });
+
+    return templates.map(t => ({
+      ...t,
+      placeholders: JSON.parse(t.placeholders as string),
+      defaultRoles: JSON.parse(t.defaultRoles as string),
+    }));
+  });
+
+  // Get single template
+  fastify.get<{ Params: { id: string } }>('/:id', async (request, reply) => {
+    const { id } = request.params;
+
+    const template = await prisma.template.findUnique({ where: { id } });
+
+    if (!template) {
+      return reply.status(404).send({ error: 'Template not found' });
+    }
+
+    const placeholders = JSON.parse(template.placeholders as string);
+
+    return {
+      ...template,
+      placeholders,
+      defaultRoles: JSON.parse(template.defaultRoles as string),
+      roles: getUniqueRoles(placeholders),
+    };
+  });
+
+  // Upload new template
+  fastify.post('/', async (request, reply) => {
+    const body = request.body as Record<string, any>;
+
+    const fileField = body?.file;
+    if (!fileField || !fileField.toBuffer) {
+      return reply.status(400).send({ error: 'No file uploaded' });
+    }
+
+    if (fileField.mimetype !== 'application/pdf') {
+      return reply.status(400).send({ error: 'Only PDF files are allowed' });
+    }
+
+    const name = body?.name?.value || fileField.filename.replace('.pdf', '');
+    const description = body?.description?.value || null;
+
+    let defaultRoles: string[] | undefined;
+    if (body?.defaultRoles?.value) {
+      try {
+        const validation = z.array(z.string().min(1)).safeParse(JSON.parse(body.defaultRoles.value));
+        if (!validation.success) {
+          return reply.status(400).send({
+            error: 'Invalid default roles',
+            details: validation.error.errors,
+          });
+        }
+        defaultRoles = validation.data;
+      } catch (err) {
+        return reply.status(400).send({ error: 'Invalid default roles JSON' });
+      }
+    }
+
+    const templateId = uuidv4();
+    const fileId = uuidv4();
+    const fileName = `${fileId}_${fileField.filename}`;
+    const filePath = storageKeys.templateFile(templateId, fileName);
+
+    const buffer = await fileField.toBuffer();
+    await storage.put(filePath, buffer);
+
+    // Placeholders are detected once here and copied onto every packet
+    let placeholders: Placeholder[] = [];
+    try {
+      placeholders = await parseTemplatePlaceholders(buffer);
+    } catch (err) {
+      console.error('Failed to parse placeholders:', err);
+    }
+
+    const template = await prisma.template.create({
+      data: {
+        id: templateId,
+        name,
+        description,
+        fileName: fileField.filename,
+        filePath,
+        placeholders: JSON.stringify(placeholders),
+        defaultRoles: JSON.stringify(defaultRoles ?? getUniqueRoles(placeholders)),
+      },
+    });
+
+    return {
+      ...template,
+      placeholders,
+      defaultRoles: JSON.parse(template.defaultRoles as string),
+      roles: getUniqueRoles(placeholders),
+    };
+  });
+
+  // Update template metadata. Packets already created keep their own copies.
+  fastify.patch<{
+    Params: { id: string };
+    Body: z.infer<typeof updateTemplateSchema>;
+  }>('/:id', async (request, reply) => {
+    const { id } = request.params;
+    const validation = updateTemplateSchema.safeParse(request.body);
+
+    if (!validation.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+    }
+
+    const template = await prisma.template.findUnique({ where: { id } });
+
+    if (!template) {
+      return reply.status(404).send({ error: 'Template not found' });
+    }
+
+    const { name, description, defaultRoles } = validation.data;
+
+    const updated = await prisma.template.update({
+      where: { id },
+      data: {
+        ...(name && { name }),
+        ...(description !== undefined && { description }),
+        ...(defaultRoles && { defaultRoles: JSON.stringify(defaultRoles) }),
+      },
+    });
+
+    return {
+      ...updated,
+      placeholders: JSON.parse(updated.placeholders as string),
+      defaultRoles: JSON.parse(updated.defaultRoles as string),
+    };
+  });
+
+  // Replace the fields placed in the editor. Packets already created keep their own copies.
+  fastify.put<{
+    Params: { id: string };
+    Body: z.infer<typeof placedFieldsSchema>;
+  }>('/:id/fields', async (request, reply) => {
+    const { id } = request.params;
+    const validation = placedFieldsSchema.safeParse(request.body);
+
+    if (!validation.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+    }
+
+    const template = await prisma.template.findUnique({ where: { id } });
+
+    if (!template) {
+      return reply.status(404).send({ error: 'Template not found' });
+    }
+
+    const { fields } = validation.data;
+
+    const fieldIssues = await checkPlacedFields(await storage.get(template.filePath), fields);
+    if (fieldIssues.length) {
+      return reply.status(400).send({ error: 'Invalid fields', details: fieldIssues });
+    }
+
+    const placeholders = mergePlacedFields(JSON.parse(template.placeholders as string), fields);
+    const roles = getUniqueRoles(placeholders);
+    const defaultRoles = mergeDefaultRoles(JSON.parse(template.defaultRoles as string), roles);
+
+    const updated = await prisma.template.update({
+      where: { id },
+      data: {
+        placeholders: JSON.stringify(placeholders),
+        defaultRoles: JSON.stringify(defaultRoles),
+      },
+    });
+
+    return {
+      ...updated,
+      placeholders,
+      defaultRoles,
+      roles,
+    };
+  });
+
+  // AcroForm fields in the template PDF. Their roles are on the placeholders.
+  fastify.get<{ Params: { id: string } }>('/:id/form-fields', async (request, reply) => {
+    const { id } = request.params;
+
+    const template = await prisma.template.findUnique({ where: { id } });
+
+    if (!template) {
+      return reply.status(404).send({ error: 'Template not found' });
+    }
+
+    return { formFields: await findFormFields(await storage.get(template.filePath)) };
+  });
+
+  // Assign roles to form fields. Fields left out fall back to their names.
+  fastify.put<{
+    Params: { id: string };
+    Body: z.infer<typeof formFieldsSchema>;
+  }>('/:id/form-fields', async (request, reply) => {
+    const { id } = request.params;
+    const validation = formFieldsSchema.safeParse(request.body);
+
+    if (!validation.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+    }
+
+    const template = await prisma.template.findUnique({ where: { id } });
+
+    if (!template) {
+      return reply.status(404).send({ error: 'Template not found' });
+    }
+
+    const { mapping } = validation.data;
+    const formFields = await findFormFields(await storage.get(template.filePath));
+
+    const mappingIssues = checkFormFieldMapping(formFields, mapping);
+    if (mappingIssues.length) {
+      return reply.status(400).send({ error: 'Invalid form field mapping', details: mappingIssues });
+    }
+
+    const placeholders = mergeFormFields(JSON.parse(template.placeholders as string), formFields, mapping);
+    const roles = getUniqueRoles(placeholders);
+    const defaultRoles = mergeDefaultRoles(JSON.parse(template.defaultRoles as string), roles);
+
+    const updated = await prisma.template.update({
+      where: { id },
+      data: {
+        placeholders: JSON.stringify(placeholders),
+        defaultRoles: JSON.stringify(defaultRoles),
+      },
+    });
+
+    return {
+      ...updated,
+      placeholders,
+      defaultRoles,
+      roles,
+    };
+  });
+
+  // Delete template. Packets created from it are unaffected.
+  fastify.delete<{ Params: { id: string } }>('/:id', async (request, reply) => {
+    const { id } = request.params;
+
+    const template = await prisma.template.findUnique({ where: { id } });
+
+    if (!template) {
+      return reply.status(404).send({ error: 'Template not found' });
+    }
+
+    try {
+      await storage.delete(template.filePath);
+    } catch (err) {
+      console.error('Failed to delete template file:', err);
+    }
+
+    await prisma.template.delete({ where: { id } });
+
+    return { success: true };
+  });
+
+  // Preview template PDF
+  fastify.get<{ Params: { id: string } }>('/:id/pdf', async (request, reply) => {
+    const { id } = request.params;
+
+    const template = await prisma.template.findUnique({ where: { id } });
+
+    if (!template) {
+      return reply.status(404).send({ error: 'Template not found' });
+    }
+
+    try {
+      const pdfBuffer = await storage.get(template.filePath);
+      return reply
+        .header('Content-Type', 'application/pdf')
+        .header('Content-Disposition', `inline; filename="${template.fileName}"`)
+        .send(pdfBuffer);
+    } catch (err) {
+      return reply.status(404).send({ error: 'PDF not found' });
+    }
+  });
+};
@@ -0,0 +1,91 @@
+import { FastifyPluginAsync, FastifyRequest } from 'fastify';
+import { prisma } from '../utils/prisma.js';
+import { sha256Hex } from '../utils/hash.js';
+import { createAuditLog } from '../services/audit.service.js';
+import { z } from 'zod';
+
+// Repeat lookups from one address are logged at most once per window
+const VERIFY_AUDIT_WINDOW_MS = 60 * 60 * 1000;
+
+const hashSchema = z.string().trim().toLowerCase().regex(/^[a-f0-9]{64}$/, 'Expected a SHA-256 hex digest');
+
+/**
+ * Match a document hash against completed packets. Originals are only
+ * flagged, since packets made from one template share the same original.
+ */
+async function lookupDocument(sha256: string, request: FastifyRequest) {
+  const packet = await prisma.signingPacket.findFirst({
+    where: { status: 'completed', signedSha256: sha256 },
+    include: {
+      recipients: {
+        orderBy: { order: 'asc' },
+        select: { name: true, roleName: true, signedAt: true },
+      },
+    },
+  });
+
+  if (!packet) {
+    const original = await prisma.signingPacket.count({
+      where: { status: 'completed', originalSha256: sha256 },
+    });
+    return { match: false, sha256, isUnsignedOriginal: original > 0 };
+  }
+
+  const recentlyLogged = await prisma.auditLog.count({
+    where: {
+      packetId: packet.id,
+      action: 'verified',
+      ipAddress: request.ip,
+      createdAt: { gte: new Date(Date.now() - VERIFY_AUDIT_WINDOW_MS) },
+    },
+  });
+
+  if (!recentlyLogged) {
+    await createAuditLog({
+      packetId: packet.id,
+      action: 'verified',
+      details: 'Signed document checked against the public verification page',
+      ipAddress: request.ip,
+      userAgent: request.headers['user-agent'],
+    });
+  }
+
+  return {
+    match: true,
+    sha256,
+    packet: {
+      name: packet.name,
+      completedAt: packet.completedAt,
+      signers: packet.recipients,
+    },
+  };
+}
+
+export const verifyRoutes: FastifyPluginAsync = async (fastify) => {
+  // Verify by pasted hash (public)
+  fastify.get<{ Params: { hash: string } }>('/:hash', async (request, reply) => {
+    const validation = hashSchema.safeParse(request.params.hash);
+
+    if (!validation.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+    }
+
+    return lookupDocument(validation.data, request);
+  });
+
+  // Verify by uploading the PDF (public)
+  fastify.post('/', async (request, reply) => {
+    const body = request.body as Record<string, any>;
+    const fileField = body?.file;
+
+    if (!fileField || !fileField.toBuffer) {
+      return reply.status(400).send({ error: 'No file uploaded' });
+    }
+
+    const buffer = await fileField.toBuffer();
+    return lookupDocument(sha256Hex(buffer), request);
+  });
+};
@@ -0,0 +1,209 @@
+import { FastifyPluginAsync } from 'fastify';
+import { prisma } from '../utils/prisma.js';
+import { requireAdmin } from '../middleware/auth.middleware.js';
+import {
+  WEBHOOK_EVENTS,
+  generateWebhookSecret,
+  redeliverWebhook,
+  sendTestWebhook,
+} from '../services/webhook.service.js';
+import { z } from 'zod';
+
+const webhookUrlSchema = z.string().url().refine(
+  url => /^https?:\/\//i.test(url),
+  'URL must use http or https'
+);
+
+const createWebhookSchema = z.object({
+  url: webhookUrlSchema,
+  description: z.string().max(200).optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1),
+});
+
+const updateWebhookSchema = z.object({
+  url: webhookUrlSchema.optional(),
+  description: z.string().max(200).nullable().optional(),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1).optional(),
+  isActive: z.boolean().optional(),
+  rotateSecret: z.boolean().optional(),
+});
+
+/**
+ * The full secret is only returned when it is issued, on create or rotate
+ */
+function formatSubscription<T extends { events: string; secret: string }>(subscription: T, revealSecret = false) {
+  return {
+    ...subscription,
+    secret: revealSecret
+      ? subscription.secret
+      : `${subscription.secret.slice(0, 6)}…${subscription.secret.slice(-4)}`,
+    events: JSON.parse(subscription.events) as string[],
+  };
+}
+
+function formatDelivery<T extends { payload: string }>(delivery: T) {
+  return {
+    ...delivery,
+    payload: JSON.parse(delivery.payload),
+  };
+}
+
+export const webhookRoutes: FastifyPluginAsync = async (fastify) => {
+  // Protect all webhook routes - admin only
+  fastify.addHook('preHandler', requireAdmin);
+
+  // Events a subscription can listen for
+  fastify.get('/events', async () => {
+    return { events: WEBHOOK_EVENTS };
+  });
+
+  // List subscriptions
+  fastify.get('/', async () => {
+    const subscriptions = await prisma.webhookSubscription.findMany({
+      orderBy: { createdAt: 'desc' },
+      include: {
+        _count: {
+          select: { deliveries: true },
+        },
+      },
+    });
+
+    return subscriptions.map(subscription => formatSubscription(subscription));
+  });
+
+  // Create subscription. The signing secret is generated here.
+  fastify.post<{ Body: z.infer<typeof createWebhookSchema> }>('/', async (request, reply) => {
+    const validation = createWebhookSchema.safeParse(request.body);
+
+    if (!validation.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+    }
+
+    const { url, description, events } = validation.data;
+
+    const subscription = await prisma.webhookSubscription.create({
+      data: {
+        url,
+        description: description || null,
+        events: JSON.stringify(events),
+        secret: generateWebhookSecret(),
+      },
+    });
+
+    return formatSubscription(subscription, true);
+  });
+
+  // Update subscription, optionally issuing a new secret
+  fastify.patch<{
+    Params: { id: string };
+    Body: z.infer<typeof updateWebhookSchema>;
+  }>('/:id', async (request, reply) => {
+    const { id } = request.params;
+    const validation = updateWebhookSchema.safeParse(request.body);
+
+    if (!validation.success) {
+      return reply.status(400).send({
+        error: 'Validation failed',
+        details: validation.error.errors,
+      });
+    }
+
+    const subscription = await prisma.webhookSubscription.findUnique({ where: { id } });
+
+    if (!subscription) {
+      return reply.status(404).send({ error: 'Webhook not found' });
+    }
+
+    const { url, description, events, isActive, rotateSecret } = validation.data;
+
+    const updated = await prisma.webhookSubscription.update({
+      where: { id },
+      data: {
+        ...(url && { url }),
+        ...(description !== undefined && { description: description || null }),
+        ...(events && { events: JSON.stringify(events) }),
+        ...(isActive !== undefined && { isActive }),
+        ...(rotateSecret && { secret: generateWebhookSecret() }),
+      },
+    });
+
+    return formatSubscription(updated, rotateSecret);
+  });
+
+  // Delete subscription and its delivery log
+  fastify.delete<{ Params: { id: string } }>('/:id', async (request, reply) => {
+    const { id } = request.params;
+
+    const subscription = await prisma.webhookSubscription.findUnique({ where: { id } });
+
+    if (!subscription) {
+      return reply.status(404).send({ error: 'Webhook not found' });
+    }
+
+    await prisma.webhookSubscription.delete({ where: { id } });
+
+    return { success: true };
+  });
+
+  // Send a ping to check the receiver
+  fastify.post<{ Params: { id: string } }>('/:id/test', async (request, reply) => {
+    const { id } = request.params;
+
+    const subscription = await prisma.webhookSubscription.findUnique({ where: { id } });
+
+    if (!subscription) {
+      return reply.status(404).send({ error: 'Webhook not found' });
+    }
+
+    const delivery = await sendTestWebhook(id);
+    return delivery && formatDelivery(delivery);
+  });
+
+  // Delivery log for a subscription, newest first
+  fastify.get<{
+    Params: { id: string };
+    Querystring: { limit?: string };
+  }>('/:id/deliveries', async (request, reply) => {
+    const { id } = request.params;
+    const limit = Math.min(parseInt(request.query.limit || '50', 10) || 50, 200);
+
+    const subscription = await prisma.webhookSubscription.findUnique({ where: { id } });
+
+    if (!subscription) {
+      return reply.status(404).send({ error: 'Webhook not found' });
+    }
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: { subscriptionId: id },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return deliveries.map(formatDelivery);
+  });
+
+  // Manually redeliver a delivery that succeeded or gave up
+  fastify.post<{ Params: { deliveryId: string } }>(
+    '/deliveries/:deliveryId/redeliver',
+    async (request, reply) => {
+      const { deliveryId } = request.params;
+
+      const delivery = await prisma.webhookDelivery.findUnique({ where: { id: deliveryId } });
+
+      if (!delivery) {
+        return reply.status(404).send({ error: 'Delivery not found' });
+      }
+
+      const result = await redeliverWebhook(deliveryId);
+
+      if (!result) {
+        return reply.status(400).send({ error: 'Delivery is still being attempted' });
+      }
+
+      return formatDelivery(result);
+    }
+  );
+};
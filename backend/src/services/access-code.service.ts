@@ -0,0 +1,121 @@
+import { FastifyRequest } from 'fastify';
+import { prisma } from '../utils/prisma.js';
+import { config } from '../utils/config.js';
+import { authService } from './auth.service.js';
+import { createAuditLog } from './audit.service.js';
+import { startSigningSession } from './signing-session.service.js';
+
+interface AccessCodeRecipient {
+  id: string;
+  packetId: string;
+  name: string;
+  accessCodeHash: string | null;
+  accessCodeAttempts: number;
+  accessCodeLockedUntil: Date | null;
+}
+
+export type AccessCodeResult =
+  | { status: 'verified'; sessionToken: string; expiresAt: Date }
+  | { status: 'invalid'; attemptsRemaining: number }
+  | { status: 'locked'; lockedUntil: Date };
+
+/**
+ * Access codes are hashed the same way as user passwords
+ */
+export function hashAccessCode(code: string): Promise<string> {
+  return authService.hashPassword(code);
+}
+
+export function isAccessCodeLocked(recipient: Pick<AccessCodeRecipient, 'accessCodeLockedUntil'>): boolean {
+  return !!recipient.accessCodeLockedUntil && recipient.accessCodeLockedUntil > new Date();
+}
+
+/**
+ * Check an access code. Repeated failures lock the recipient out for a while.
+ */
+export async function verifyAccessCode(
+  recipient: AccessCodeRecipient,
+  code: string,
+  request: FastifyRequest
+): Promise<AccessCodeResult> {
+  if (isAccessCodeLocked(recipient)) {
+    return { status: 'locked', lockedUntil: recipient.accessCodeLockedUntil! };
+  }
+
+  // The counter stays at the limit while locked and only starts over once the lock has run out
+  await prisma.recipient.updateMany({
+    where: { id: recipient.id, accessCodeLockedUntil: { lte: new Date() } },
+    data: { accessCodeAttempts: 0, accessCodeLockedUntil: null },
+  });
+
+  // Claim an attempt before checking so parallel guesses can't exceed the limit
+  const claimed = await prisma.recipient.updateMany({
+    where: {
+      id: recipient.id,
+      accessCodeAttempts: { lt: config.ACCESS_CODE_MAX_ATTEMPTS },
+      OR: [{ accessCodeLockedUntil: null }, { accessCodeLockedUntil: { lte: new Date() } }],
+    },
+    data: { accessCodeAttempts: { increment: 1 } },
+  });
+  if (!claimed.count) {
+    const current = await prisma.recipient.findUniqueOrThrow({
+      where: { id: recipient.id },
+      select: { accessCodeLockedUntil: true },
+    });
+    return isAccessCodeLocked(current)
+      ? { status: 'locked', lockedUntil: current.accessCodeLockedUntil! }
+      : { status: 'invalid', attemptsRemaining: 0 };
+  }
+
+  const meta = { ipAddress: request.ip, userAgent: request.headers['user-agent'] };
+  const valid = !!recipient.accessCodeHash &&
+    await authService.verifyPassword(code, recipient.accessCodeHash);
+
+  if (!valid) {
+    const { accessCodeAttempts: attempts } = await prisma.recipient.findUniqueOrThrow({
+      where: { id: recipient.id },
+      select: { accessCodeAttempts: true },
+    });
+
+    if (attempts >= config.ACCESS_CODE_MAX_ATTEMPTS) {
+      const lockedUntil = new Date(Date.now() + config.ACCESS_CODE_LOCKOUT_MINUTES * 60 * 1000);
+      await prisma.recipient.update({
+        where: { id: recipient.id },
+        data: { accessCodeLockedUntil: lockedUntil },
+      });
+      await createAuditLog({
+        packetId: recipient.packetId,
+        recipientId: recipient.id,
+        action: 'access_code_locked',
+        details: `Access code locked for ${config.ACCESS_CODE_LOCKOUT_MINUTES} minutes after ${attempts} failed attempts`,
+        ...meta,
+      });
+      return { status: 'locked', lockedUntil };
+    }
+
+    await createAuditLog({
+      packetId: recipient.packetId,
+      recipientId: recipient.id,
+      action: 'access_code_failed',
+      details: `Incorrect access code (attempt ${attempts} of ${config.ACCESS_CODE_MAX_ATTEMPTS})`,
+      ...meta,
+    });
+    return { status: 'invalid', attemptsRemaining: config.ACCESS_CODE_MAX_ATTEMPTS - attempts };
+  }
+
+  await prisma.recipient.update({
+    where: { id: recipient.id },
+    data: { accessCodeAttempts: 0, accessCodeLockedUntil: null },
+  });
+
+  await createAuditLog({
+    packetId: recipient.packetId,
+    recipientId: recipient.id,
+    action: 'access_code_verified',
+    details: `Access code entered by ${recipient.name}`,
+    ...meta,
+  });
+
+  // An emailed passcode, if required, still has to be verified on top of this
+  return { status: 'verified', ...await startSigningSession(recipient.id, false) };
+}
@@ -0,0 +1,81 @@
+import { FastifyRequest } from 'fastify';
+import { prisma } from '../utils/prisma.js';
+import { sha256Hex } from '../utils/hash.js';
+import { generateSecureToken } from '../utils/token.js';
+
+export const API_KEY_PREFIX = 'ahs_';
+
+export const API_KEY_SCOPES = [
+  'packets:read',     // list and view packets
+  'packets:write',    // create, update and send packets
+  'packets:manage',   // reassign recipients, cancel, delete and map form fields
+  'documents:signed', // download signed PDFs
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export interface ApiKeyAuditEntry {
+  apiKeyId: string;
+  action: string;
+  details?: string | null;
+  request?: FastifyRequest;
+}
+
+export function isApiKey(value: string): boolean {
+  return value.startsWith(API_KEY_PREFIX);
+}
+
+export function hashApiKey(key: string): string {
+  return sha256Hex(Buffer.from(key));
+}
+
+/**
+ * A new key and what to store for it. Only the hash is kept, so the key
+ * can never be shown again.
+ */
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${generateSecureToken()}`;
+  return {
+    key,
+    prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+    keyHash: hashApiKey(key),
+  };
+}
+
+/**
+ * The stored key matching a presented one, or null if it is unknown,
+ * revoked or expired
+ */
+export async function findActiveApiKey(key: string) {
+  const apiKey = await prisma.apiKey.findUnique({ where: { keyHash: hashApiKey(key) } });
+
+  if (!apiKey || apiKey.revokedAt) return null;
+  if (apiKey.expiresAt && apiKey.expiresAt <= new Date()) return null;
+
+  return { ...apiKey, scopes: JSON.parse(apiKey.scopes) as string[] };
+}
+
+export async function createApiKeyAuditLog(entry: ApiKeyAuditEntry) {
+  return prisma.apiKeyAuditLog.create({
+    data: {
+      apiKeyId: entry.apiKeyId,
+      action: entry.action,
+      details: entry.details ?? null,
+      method: entry.request?.method ?? null,
+      path: entry.request?.url.split('?')[0] ?? null,
+      ipAddress: entry.request?.ip ?? null,
+      userAgent: entry.request?.headers['user-agent'] ?? null,
+    },
+  });
+}
+
+/**
+ * Stamp last use and add the request to the key's audit trail
+ */
+export async function recordApiKeyUse(apiKeyId: string, request: FastifyRequest) {
+  await prisma.apiKey.update({
+    where: { id: apiKeyId },
+    data: { lastUsedAt: new Date(), lastUsedIp: request.ip },
+  });
+  await createApiKeyAuditLog({ apiKeyId, action: 'used', request });
+}
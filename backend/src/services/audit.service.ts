@@ -0,0 +1,214 @@
+import crypto from 'crypto';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../utils/prisma.js';
+import { enqueueWebhookEvent } from './webhook.service.js';
+
+export interface AuditEntry {
+  packetId: string;
+  recipientId?: string | null;
+  action: string;
+  details?: string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  checked: number;
+  unchained: number; // entries written before chaining was introduced
+  brokenAt?: {
+    id: string;
+    sequence: number | null;
+    action: string;
+    createdAt: Date;
+    reason: string;
+  };
+}
+
+/**
+ * Hash an entry's content together with the previous entry's hash.
+ * recipientId is left out because deleting a draft recipient nulls it.
+ */
+function computeEntryHash(entry: {
+  packetId: string;
+  sequence: number;
+  action: string;
+  details: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  prevHash: string | null;
+}): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([
+      entry.packetId,
+      entry.sequence,
+      entry.action,
+      entry.details,
+      entry.ipAddress,
+      entry.userAgent,
+      entry.createdAt.toISOString(),
+      entry.prevHash,
+    ]))
+    .digest('hex');
+}
+
+/**
+ * Append an entry to a packet's hash-chained audit log, then notify any
+ * webhook subscribers. Webhook failures never fail the caller.
+ */
+export async function createAuditLog(entry: AuditEntry) {
+  const log = await prisma.$transaction(async (tx) => {
+    // Serialize writers per packet so two entries never share a predecessor
+    await tx.$executeRaw(Prisma.sql`SELECT pg_advisory_xact_lock(hashtext(${entry.packetId}))`);
+
+    const previous = await tx.auditLog.findFirst({
+      where: { packetId: entry.packetId, sequence: { not: null } },
+      orderBy: { sequence: 'desc' },
+      select: { sequence: true, hash: true },
+    });
+
+    const data = {
+      packetId: entry.packetId,
+      sequence: (previous?.sequence ?? 0) + 1,
+      action: entry.action,
+      details: entry.details ?? null,
+      ipAddress: entry.ipAddress ?? null,
+      userAgent: entry.userAgent ?? null,
+      createdAt: new Date(),
+      prevHash: previous?.hash ?? null,
+    };
+
+    const created = await tx.auditLog.create({
+      data: {
+        ...data,
+        recipientId: entry.recipientId ?? null,
+        hash: computeEntryHash(data),
+      },
+    });
+
+    // The packet keeps the head of its chain, so dropping the newest entries shows up
+    await tx.signingPacket.update({
+      where: { id: entry.packetId },
+      data: { auditHeadSequence: created.sequence, auditHeadHash: created.hash },
+    });
+
+    return created;
+  });
+
+  try {
+    await enqueueWebhookEvent(log);
+  } catch (err) {
+    console.error(`[Webhooks] Failed to queue ${log.action} event for packet ${log.packetId}:`, err);
+  }
+
+  return log;
+}
+
+/**
+ * Walk a packet's audit chain and report the first entry that does not match,
+ * then check that the chain still ends at the head recorded on the packet
+ */
+export async function verifyAuditChain(packetId: string): Promise<ChainVerification> {
+  const [logs, packet] = await Promise.all([
+    prisma.auditLog.findMany({
+      where: { packetId },
+      orderBy: [{ sequence: 'asc' }, { createdAt: 'asc' }],
+    }),
+    prisma.signingPacket.findUnique({
+      where: { id: packetId },
+      select: { auditHeadSequence: true, auditHeadHash: true },
+    }),
+  ]);
+
+  // Entries written before chaining was introduced have no sequence
+  const unchained = logs.filter(l => l.sequence === null);
+  const chained = logs.filter(l => l.sequence !== null);
+
+  // Unchained entries are only legitimate if they predate the chain
+  const intruder = chained.length
+    ? unchained.find(l => l.createdAt > chained[0].createdAt)
+    : undefined;
+  if (intruder) {
+    return {
+      valid: false,
+      checked: chained.length,
+      unchained: unchained.length,
+      brokenAt: {
+        id: intruder.id,
+        sequence: null,
+        action: intruder.action,
+        createdAt: intruder.createdAt,
+        reason: 'Entry was added outside the hash chain',
+      },
+    };
+  }
+
+  let prevHash: string | null = null;
+  let expectedSequence = 1;
+
+  for (const log of chained) {
+    const broken = (reason: string): ChainVerification => ({
+      valid: false,
+      checked: chained.length,
+      unchained: unchained.length,
+      brokenAt: {
+        id: log.id,
+        sequence: log.sequence,
+        action: log.action,
+        createdAt: log.createdAt,
+        reason,
+      },
+    });
+
+    if (log.sequence !== expectedSequence) {
+      return broken(`Expected entry #${expectedSequence} but found #${log.sequence}; an entry was removed or inserted`);
+    }
+
+    if (log.prevHash !== prevHash) {
+      return broken('Previous hash does not match the preceding entry');
+    }
+
+    const hash = computeEntryHash({
+      packetId: log.packetId,
+      sequence: log.sequence,
+      action: log.action,
+      details: log.details,
+      ipAddress: log.ipAddress,
+      userAgent: log.userAgent,
+      createdAt: log.createdAt,
+      prevHash: log.prevHash,
+    });
+
+    if (log.hash !== hash) {
+      return broken('Entry content does not match its hash');
+    }
+
+    prevHash = log.hash;
+    expectedSequence++;
+  }
+
+  const last = chained[chained.length - 1];
+  if (
+    packet?.auditHeadSequence != null &&
+    (last?.sequence !== packet.auditHeadSequence || last.hash !== packet.auditHeadHash)
+  ) {
+    return {
+      valid: false,
+      checked: chained.length,
+      unchained: unchained.length,
+      ...(last && {
+        brokenAt: {
+          id: last.id,
+          sequence: last.sequence,
+          action: last.action,
+          createdAt: last.createdAt,
+          reason: `Chain ends at entry #${last.sequence} but the packet records #${packet.auditHeadSequence} as the newest; later entries were removed or replaced`,
+        },
+      }),
+    };
+  }
+
+  return { valid: true, checked: chained.length, unchained: unchained.length };
+}
@@ -33,6 +33,17 @@ interface EmailOptions {
   }>;
 }
 
+/**
+ * Escape signer-supplied text before placing it in an HTML email body
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
 /**
  * Send an email using configured provider
  */
@@ -294,3 +305,163 @@ ${config.EMAIL_FROM_NAME}
     `.trim(),
   });
 }
+
+/**
+ * Notify that a signer declined to sign
+ */
+export async function sendDeclineNotification(
+  email: string,
+  name: string,
+  packetName: string,
+  declinedBy: string,
+  reason: string
+): Promise<void> {
+  await sendEmail({
+    to: email,
+    subject: `Signing Declined: ${packetName}`,
+    text: `
+Hello ${name},
+
+${declinedBy} has declined to sign the document: ${packetName}
+
+Reason given:
+${reason}
+
+No further signatures will be collected for this document.
+
+Best regards,
+${config.EMAIL_FROM_NAME}
+    `.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .declined { color: #dc2626; }
+    .reason { background-color: #fef2f2; padding: 15px; border-radius: 6px; margin: 15px 0; }
+    .footer { margin-top: 30px; font-size: 12px; color: #666; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h2 class="declined">Signing Declined</h2>
+    <p>Hello ${name},</p>
+    <p><strong>${declinedBy}</strong> has declined to sign the document: <strong>${packetName}</strong></p>
+    <div class="reason">
+      <p><strong>Reason given:</strong></p>
+      <p>${escapeHtml(reason)}</p>
+    </div>
+    <p>No further signatures will be collected for this document.</p>
+    <div class="footer">
+      <p>Best regards,<br>${config.EMAIL_FROM_NAME}</p>
+    </div>
+  </div>
+</body>
+</html>
+    `.trim(),
+  });
+}
+
+/**
+ * Notify the admin that a packet's signing links expired unsigned
+ */
+export async function sendExpiryNotification(
+  email: string,
+  packetName: string,
+  expiredRecipients: string[]
+): Promise<void> {
+  const list = expiredRecipients.join(', ');
+
+  await sendEmail({
+    to: email,
+    subject: `Signing Link Expired: ${packetName}`,
+    text: `
+Hello,
+
+The signing link for ${packetName} expired before it was signed by: ${list}
+
+Use "Resend" on the packet to issue new signing links.
+
+Best regards,
+${config.EMAIL_FROM_NAME}
+    `.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .expired { background-color: #fef3c7; padding: 15px; border-radius: 6px; margin: 15px 0; }
+    .footer { margin-top: 30px; font-size: 12px; color: #666; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h2>Signing Link Expired</h2>
+    <div class="expired">
+      <p>The signing link for <strong>${packetName}</strong> expired before it was signed by: <strong>${escapeHtml(list)}</strong></p>
+    </div>
+    <p>Use "Resend" on the packet to issue new signing links.</p>
+    <div class="footer">
+      <p>Best regards,<br>${config.EMAIL_FROM_NAME}</p>
+    </div>
+  </div>
+</body>
+</html>
+    `.trim(),
+  });
+}
+
+/**
+ * Send a one-time passcode that unlocks a signing link
+ */
+export async function sendOtpEmail(
+  recipientEmail: string,
+  recipientName: string,
+  packetName: string,
+  code: string,
+  expiresInMinutes: number
+): Promise<void> {
+  await sendEmail({
+    to: recipientEmail,
+    subject: `Your verification code for ${packetName}`,
+    text: `
+Hello ${recipientName},
+
+Your verification code to open ${packetName} is: ${code}
+
+The code expires in ${expiresInMinutes} minutes. If you did not request it, you can ignore this email.
+
+Best regards,
+${config.EMAIL_FROM_NAME}
+    `.trim(),
+    html: `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .code { font-size: 32px; font-weight: bold; letter-spacing: 8px; background-color: #f3f4f6; padding: 15px; border-radius: 6px; text-align: center; margin: 20px 0; }
+    .footer { margin-top: 30px; font-size: 12px; color: #666; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <h2>Verification Code</h2>
+    <p>Hello ${recipientName},</p>
+    <p>Use this code to open <strong>${packetName}</strong>:</p>
+    <div class="code">${code}</div>
+    <p><em>The code expires in ${expiresInMinutes} minutes. If you did not request it, you can ignore this email.</em></p>
+    <div class="footer">
+      <p>Best regards,<br>${config.EMAIL_FROM_NAME}</p>
+    </div>
+  </div>
+</body>
+</html>
+    `.trim(),
+  });
+}
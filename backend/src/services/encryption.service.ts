@@ -0,0 +1,165 @@
+import crypto from 'crypto';
+import { config } from '../utils/config.js';
+
+// Envelope format: every value gets its own random data key (DEK), which is
+// itself encrypted ("wrapped") with a master key from config. Rotating the
+// master key only needs the DEKs re-wrapped, and old keys stay available for reads.
+//
+//   magic | keyId length | keyId | wrapped DEK (iv, tag, key) | iv | tag | ciphertext
+const MAGIC = Buffer.from('AHSE\x01', 'latin1');
+const STRING_PREFIX = 'enc:v1:';
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_LENGTH = 32;
+const WRAPPED_KEY_LENGTH = IV_LENGTH + TAG_LENGTH + KEY_LENGTH;
+
+let masterKeys: Map<string, Buffer> | null = null;
+
+/**
+ * Parse ENCRYPTION_KEYS ("id:base64key,id:base64key")
+ */
+function getMasterKeys(): Map<string, Buffer> {
+  if (masterKeys) return masterKeys;
+
+  masterKeys = new Map();
+  for (const entry of config.ENCRYPTION_KEYS.split(',').map(e => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, separator);
+    const key = Buffer.from(entry.slice(separator + 1), 'base64');
+
+    if (separator < 1 || id.length > 255 || key.length !== KEY_LENGTH) {
+      throw new Error(`Invalid ENCRYPTION_KEYS entry "${id || entry}": expected id:<32-byte base64 key>`);
+    }
+    masterKeys.set(id, key);
+  }
+
+  const activeId = getActiveKeyId();
+  if (activeId && !masterKeys.has(activeId)) {
+    throw new Error(`ENCRYPTION_ACTIVE_KEY_ID "${activeId}" is not in ENCRYPTION_KEYS`);
+  }
+
+  return masterKeys;
+}
+
+function getActiveKeyId(): string | null {
+  if (config.ENCRYPTION_ACTIVE_KEY_ID) return config.ENCRYPTION_ACTIVE_KEY_ID;
+  const first = config.ENCRYPTION_KEYS.split(',')[0]?.trim();
+  return first ? first.slice(0, first.indexOf(':')) : null;
+}
+
+function seal(key: Buffer, plaintext: Uint8Array): Buffer {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]);
+}
+
+function unseal(key: Buffer, sealed: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, sealed.subarray(0, IV_LENGTH));
+  decipher.setAuthTag(sealed.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+  return Buffer.concat([decipher.update(sealed.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]);
+}
+
+function isEncryptedBuffer(data: Uint8Array): boolean {
+  return data.length > MAGIC.length && Buffer.from(data.buffer, data.byteOffset, MAGIC.length).equals(MAGIC);
+}
+
+/**
+ * Split an encrypted buffer into its key id and sealed parts
+ */
+function parseEnvelope(data: Buffer): { keyId: string; wrappedKey: Buffer; body: Buffer } {
+  const idLength = data[MAGIC.length];
+  const idStart = MAGIC.length + 1;
+  const keyStart = idStart + idLength;
+  return {
+    keyId: data.subarray(idStart, keyStart).toString('utf8'),
+    wrappedKey: data.subarray(keyStart, keyStart + WRAPPED_KEY_LENGTH),
+    body: data.subarray(keyStart + WRAPPED_KEY_LENGTH),
+  };
+}
+
+function unwrapDataKey(keyId: string, wrappedKey: Buffer): Buffer {
+  const masterKey = getMasterKeys().get(keyId);
+  if (!masterKey) {
+    throw new Error(`Encryption key "${keyId}" is not configured`);
+  }
+  return unseal(masterKey, wrappedKey);
+}
+
+function buildEnvelope(keyId: string, dataKey: Buffer, body: Buffer): Buffer {
+  const idBytes = Buffer.from(keyId, 'utf8');
+  return Buffer.concat([
+    MAGIC,
+    Buffer.from([idBytes.length]),
+    idBytes,
+    seal(getMasterKeys().get(keyId)!, dataKey),
+    body,
+  ]);
+}
+
+export function isEncryptionEnabled(): boolean {
+  return getMasterKeys().size > 0;
+}
+
+/**
+ * Encrypt bytes under the active master key. Returns them unchanged when no keys are configured.
+ */
+export function encryptBuffer(plaintext: Uint8Array): Buffer {
+  if (!isEncryptionEnabled()) return Buffer.from(plaintext);
+
+  const dataKey = crypto.randomBytes(KEY_LENGTH);
+  return buildEnvelope(getActiveKeyId()!, dataKey, seal(dataKey, plaintext));
+}
+
+/**
+ * Decrypt bytes written by encryptBuffer. Plaintext (not yet migrated) is passed through.
+ */
+export function decryptBuffer(data: Uint8Array): Buffer {
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  if (!isEncryptedBuffer(buffer)) return buffer;
+
+  const { keyId, wrappedKey, body } = parseEnvelope(buffer);
+  return unseal(unwrapDataKey(keyId, wrappedKey), body);
+}
+
+export function encryptString(value: string): string {
+  if (!isEncryptionEnabled()) return value;
+  return STRING_PREFIX + encryptBuffer(Buffer.from(value, 'utf8')).toString('base64');
+}
+
+export function decryptString(value: string): string {
+  if (!value.startsWith(STRING_PREFIX)) return value;
+  return decryptBuffer(Buffer.from(value.slice(STRING_PREFIX.length), 'base64')).toString('utf8');
+}
+
+/**
+ * Whether a stored value is plaintext or sealed under a key other than the active one
+ */
+export function needsReencryption(value: Uint8Array | string): boolean {
+  if (!isEncryptionEnabled()) return false;
+
+  const data = typeof value === 'string'
+    ? value.startsWith(STRING_PREFIX) ? Buffer.from(value.slice(STRING_PREFIX.length), 'base64') : null
+    : Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+
+  if (!data || !isEncryptedBuffer(data)) return true;
+  return parseEnvelope(data).keyId !== getActiveKeyId();
+}
+
+/**
+ * Bring a stored value up to date: plaintext is encrypted, and values under an
+ * older master key just get their data key re-wrapped with the active one.
+ */
+export function reencryptBuffer(data: Uint8Array): Buffer {
+  const buffer = Buffer.from(data.buffer, data.byteOffset, data.byteLength);
+  if (!isEncryptedBuffer(buffer)) return encryptBuffer(buffer);
+
+  const { keyId, wrappedKey, body } = parseEnvelope(buffer);
+  return buildEnvelope(getActiveKeyId()!, unwrapDataKey(keyId, wrappedKey), body);
+}
+
+export function reencryptString(value: string): string {
+  if (!value.startsWith(STRING_PREFIX)) return encryptString(value);
+  const data = Buffer.from(value.slice(STRING_PREFIX.length), 'base64');
+  return STRING_PREFIX + reencryptBuffer(data).toString('base64');
+}
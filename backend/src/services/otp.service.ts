@@ -0,0 +1,176 @@
+import crypto from 'crypto';
+import { FastifyRequest } from 'fastify';
+import { prisma } from '../utils/prisma.js';
+import { config } from '../utils/config.js';
+import { sha256Hex } from '../utils/hash.js';
+import { sendOtpEmail } from './email.service.js';
+import { createAuditLog } from './audit.service.js';
+import { startSigningSession } from './signing-session.service.js';
+
+const MINUTE_MS = 60 * 1000;
+const RESEND_COOLDOWN_MS = MINUTE_MS;
+
+interface OtpRecipient {
+  id: string;
+  packetId: string;
+  name: string;
+  email: string;
+  otpCodeHash: string | null;
+  otpExpiresAt: Date | null;
+  otpAttempts: number;
+  otpLockedUntil: Date | null;
+}
+
+export type OtpVerifyResult =
+  | { status: 'verified'; sessionToken: string; expiresAt: Date }
+  | { status: 'invalid'; attemptsRemaining: number }
+  | { status: 'expired' }
+  | { status: 'locked'; lockedUntil: Date };
+
+function hashCode(recipientId: string, code: string): string {
+  return sha256Hex(Buffer.from(`${recipientId}:${code}`));
+}
+
+function requestMeta(request: FastifyRequest) {
+  return { ipAddress: request.ip, userAgent: request.headers['user-agent'] };
+}
+
+/**
+ * j***@example.com - enough for the signer to recognise their inbox
+ */
+export function maskEmail(email: string): string {
+  const [local, domain] = email.split('@');
+  return `${local.charAt(0)}***@${domain}`;
+}
+
+export function isOtpLocked(recipient: Pick<OtpRecipient, 'otpLockedUntil'>): boolean {
+  return !!recipient.otpLockedUntil && recipient.otpLockedUntil > new Date();
+}
+
+/**
+ * Email a fresh 6-digit code. Returns null if a code was sent too recently.
+ */
+export async function issueOtp(
+  recipient: OtpRecipient,
+  packetName: string,
+  request: FastifyRequest
+): Promise<{ expiresAt: Date } | null> {
+  const now = Date.now();
+  if (
+    recipient.otpExpiresAt &&
+    recipient.otpExpiresAt.getTime() - config.OTP_EXPIRY_MINUTES * MINUTE_MS + RESEND_COOLDOWN_MS > now
+  ) {
+    return null;
+  }
+
+  const code = crypto.randomInt(0, 1_000_000).toString().padStart(6, '0');
+  const expiresAt = new Date(now + config.OTP_EXPIRY_MINUTES * MINUTE_MS);
+
+  await prisma.recipient.update({
+    where: { id: recipient.id },
+    data: { otpCodeHash: hashCode(recipient.id, code), otpExpiresAt: expiresAt },
+  });
+
+  await sendOtpEmail(recipient.email, recipient.name, packetName, code, config.OTP_EXPIRY_MINUTES);
+
+  await createAuditLog({
+    packetId: recipient.packetId,
+    recipientId: recipient.id,
+    action: 'otp_sent',
+    details: `Verification code sent to ${recipient.email}`,
+    ...requestMeta(request),
+  });
+
+  return { expiresAt };
+}
+
+/**
+ * Check a submitted code. Repeated failures lock the recipient out for a while.
+ */
+export async function verifyOtp(
+  recipient: OtpRecipient,
+  code: string,
+  request: FastifyRequest
+): Promise<OtpVerifyResult> {
+  if (isOtpLocked(recipient)) {
+    return { status: 'locked', lockedUntil: recipient.otpLockedUntil! };
+  }
+
+  if (!recipient.otpCodeHash || !recipient.otpExpiresAt || recipient.otpExpiresAt <= new Date()) {
+    return { status: 'expired' };
+  }
+
+  // Claim an attempt before comparing so parallel guesses can't exceed the limit
+  const claimed = await prisma.recipient.updateMany({
+    where: {
+      id: recipient.id,
+      otpCodeHash: recipient.otpCodeHash,
+      otpAttempts: { lt: config.OTP_MAX_ATTEMPTS },
+    },
+    data: { otpAttempts: { increment: 1 } },
+  });
+  if (!claimed.count) {
+    const current = await prisma.recipient.findUniqueOrThrow({
+      where: { id: recipient.id },
+      select: { otpLockedUntil: true },
+    });
+    return isOtpLocked(current)
+      ? { status: 'locked', lockedUntil: current.otpLockedUntil! }
+      : { status: 'expired' };
+  }
+
+  const expected = Buffer.from(recipient.otpCodeHash, 'hex');
+  const actual = Buffer.from(hashCode(recipient.id, code), 'hex');
+
+  if (!crypto.timingSafeEqual(expected, actual)) {
+    const { otpAttempts: attempts } = await prisma.recipient.findUniqueOrThrow({
+      where: { id: recipient.id },
+      select: { otpAttempts: true },
+    });
+
+    if (attempts >= config.OTP_MAX_ATTEMPTS) {
+      const lockedUntil = new Date(Date.now() + config.OTP_LOCKOUT_MINUTES * MINUTE_MS);
+      // Lock out and burn the code; a new one is needed after the lockout
+      await prisma.recipient.update({
+        where: { id: recipient.id },
+        data: { otpAttempts: 0, otpLockedUntil: lockedUntil, otpCodeHash: null, otpExpiresAt: null },
+      });
+      await createAuditLog({
+        packetId: recipient.packetId,
+        recipientId: recipient.id,
+        action: 'otp_locked',
+        details: `Verification locked for ${config.OTP_LOCKOUT_MINUTES} minutes after ${attempts} failed attempts`,
+        ...requestMeta(request),
+      });
+      return { status: 'locked', lockedUntil };
+    }
+
+    await createAuditLog({
+      packetId: recipient.packetId,
+      recipientId: recipient.id,
+      action: 'otp_failed',
+      details: `Incorrect verification code (attempt ${attempts} of ${config.OTP_MAX_ATTEMPTS})`,
+      ...requestMeta(request),
+    });
+    return { status: 'invalid', attemptsRemaining: config.OTP_MAX_ATTEMPTS - attempts };
+  }
+
+  // Burn the code; only one request can redeem it
+  const redeemed = await prisma.recipient.updateMany({
+    where: { id: recipient.id, otpCodeHash: recipient.otpCodeHash },
+    data: { otpCodeHash: null, otpExpiresAt: null, otpAttempts: 0, otpLockedUntil: null },
+  });
+  if (!redeemed.count) {
+    return { status: 'expired' };
+  }
+
+  await createAuditLog({
+    packetId: recipient.packetId,
+    recipientId: recipient.id,
+    action: 'otp_verified',
+    details: `Identity verified by code sent to ${recipient.email}`,
+    ...requestMeta(request),
+  });
+
+  return { status: 'verified', ...await startSigningSession(recipient.id, true) };
+}
@@ -0,0 +1,770 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRawStream,
+  PDFStream,
+  StandardFontEmbedder,
+  StandardFonts,
+  decodePDFRawStream,
+} from 'pdf-lib';
+
+/**
+ * Operand values in a content stream. Strings are kept as raw bytes because
+ * their meaning depends on the current font's encoding.
+ */
+export type ContentValue =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: Uint8Array }
+  | { kind: 'name'; value: string }
+  | { kind: 'keyword'; value: string }
+  | { kind: 'array'; value: ContentValue[] }
+  | { kind: 'dict'; value: Map<string, ContentValue> };
+
+export interface ContentOperation {
+  operator: string;
+  operands: ContentValue[];
+}
+
+export interface TextBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Text matched on a page. x,y is the origin of the first glyph and bounds
+ * the box around all matched glyphs, both in the page's user space (the
+ * space pdf-lib draws in, before the page's /Rotate is applied).
+ */
+export interface TextMatch {
+  text: string;
+  pageIndex: number;
+  x: number;
+  y: number;
+  bounds: TextBounds;
+}
+
+// [a b c d e f], as used by cm and Tm
+type Matrix = [number, number, number, number, number, number];
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// Form XObjects nested deeper than this are not followed
+const MAX_FORM_DEPTH = 12;
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20]);
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25]);
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)$/;
+
+function isRegular(byte: number): boolean {
+  return !WHITESPACE.has(byte) && !DELIMITERS.has(byte);
+}
+
+function isHexDigit(byte: number): boolean {
+  return (byte >= 0x30 && byte <= 0x39) || (byte >= 0x41 && byte <= 0x46) || (byte >= 0x61 && byte <= 0x66);
+}
+
+/**
+ * Tokenize a content stream into operators and their operands. Also reads
+ * CMaps, which share the syntax. Inline image data (BI ... ID ... EI) is
+ * skipped, and unbalanced brackets are tolerated rather than thrown on.
+ */
+export function parseContentStream(bytes: Uint8Array): ContentOperation[] {
+  const operations: ContentOperation[] = [];
+  // Operands collect at the bottom; open arrays and dicts stack on top
+  const containers: Array<{ kind: 'operands' | 'array' | 'dict'; items: ContentValue[] }> = [
+    { kind: 'operands', items: [] },
+  ];
+  let pos = 0;
+
+  const push = (value: ContentValue) => containers[containers.length - 1].items.push(value);
+
+  const readRegular = (): string => {
+    const start = pos;
+    while (pos < bytes.length && isRegular(bytes[pos])) pos++;
+    return String.fromCharCode(...bytes.subarray(start, pos));
+  };
+
+  const readLiteralString = (): Uint8Array => {
+    const out: number[] = [];
+    let depth = 1;
+    pos++;
+
+    while (pos < bytes.length) {
+      const byte = bytes[pos++];
+
+      if (byte === 0x5c) {
+        const next = bytes[pos++];
+        switch (next) {
+          case 0x6e: out.push(0x0a); break; // \n
+          case 0x72: out.push(0x0d); break; // \r
+          case 0x74: out.push(0x09); break; // \t
+          case 0x62: out.push(0x08); break; // \b
+          case 0x66: out.push(0x0c); break; // \f
+          case 0x0d: if (bytes[pos] === 0x0a) pos++; break; // line continuation
+          case 0x0a: break;
+          default:
+            if (next >= 0x30 && next <= 0x37) {
+              let octal = next - 0x30;
+              for (let i = 0; i < 2 && bytes[pos] >= 0x30 && bytes[pos] <= 0x37; i++) {
+                octal = octal * 8 + (bytes[pos++] - 0x30);
+              }
+              out.push(octal & 0xff);
+            } else if (next !== undefined) {
+              out.push(next);
+            }
+        }
+        continue;
+      }
+
+      if (byte === 0x28) depth++;
+      if (byte === 0x29 && --depth === 0) break;
+
+      if (byte === 0x0d) {
+        // An unescaped end of line is always read as a line feed
+        if (bytes[pos] === 0x0a) pos++;
+        out.push(0x0a);
+      } else {
+        out.push(byte);
+      }
+    }
+
+    return Uint8Array.from(out);
+  };
+
+  const readHexString = (): Uint8Array => {
+    const digits: number[] = [];
+    pos++;
+    while (pos < bytes.length && bytes[pos] !== 0x3e) {
+      if (isHexDigit(bytes[pos])) digits.push(parseInt(String.fromCharCode(bytes[pos]), 16));
+      pos++;
+    }
+    pos++;
+    if (digits.length % 2) digits.push(0);
+
+    const out = new Uint8Array(digits.length / 2);
+    for (let i = 0; i < out.length; i++) out[i] = digits[2 * i] * 16 + digits[2 * i + 1];
+    return out;
+  };
+
+  const readName = (): string => {
+    pos++;
+    return readRegular().replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  };
+
+  // Image data after ID runs to an EI surrounded by whitespace
+  const skipInlineImageData = () => {
+    pos++;
+    while (pos < bytes.length) {
+      if (
+        bytes[pos] === 0x45 && bytes[pos + 1] === 0x49 &&
+        WHITESPACE.has(bytes[pos - 1]) &&
+        (pos + 2 >= bytes.length || WHITESPACE.has(bytes[pos + 2]))
+      ) {
+        return;
+      }
+      pos++;
+    }
+  };
+
+  const closeContainer = (kind: 'array' | 'dict') => {
+    if (containers.length === 1 || containers[containers.length - 1].kind !== kind) return;
+    const { items } = containers.pop()!;
+
+    if (kind === 'array') {
+      push({ kind: 'array', value: items });
+      return;
+    }
+
+    const dict = new Map<string, ContentValue>();
+    for (let i = 0; i + 1 < items.length; i += 2) {
+      const key = items[i];
+      if (key.kind === 'name') dict.set(key.value, items[i + 1]);
+    }
+    push({ kind: 'dict', value: dict });
+  };
+
+  while (pos < bytes.length) {
+    const byte = bytes[pos];
+
+    if (WHITESPACE.has(byte)) {
+      pos++;
+    } else if (byte === 0x25) {
+      while (pos < bytes.length && bytes[pos] !== 0x0a && bytes[pos] !== 0x0d) pos++;
+    } else if (byte === 0x28) {
+      push({ kind: 'string', value: readLiteralString() });
+    } else if (byte === 0x3c && bytes[pos + 1] === 0x3c) {
+      pos += 2;
+      containers.push({ kind: 'dict', items: [] });
+    } else if (byte === 0x3c) {
+      push({ kind: 'string', value: readHexString() });
+    } else if (byte === 0x3e) {
+      pos += bytes[pos + 1] === 0x3e ? 2 : 1;
+      closeContainer('dict');
+    } else if (byte === 0x5b) {
+      pos++;
+      containers.push({ kind: 'array', items: [] });
+    } else if (byte === 0x5d) {
+      pos++;
+      closeContainer('array');
+    } else if (byte === 0x2f) {
+      push({ kind: 'name', value: readName() });
+    } else if (!isRegular(byte)) {
+      // Stray ) { or }
+      pos++;
+    } else {
+      const token = readRegular();
+
+      if (NUMBER_PATTERN.test(token)) {
+        push({ kind: 'number', value: parseFloat(token) });
+      } else if (token === 'true' || token === 'false' || token === 'null') {
+        push({ kind: 'keyword', value: token });
+      } else {
+        operations.push({ operator: token, operands: containers[0].items });
+        containers.length = 0;
+        containers.push({ kind: 'operands', items: [] });
+        if (token === 'ID') skipInlineImageData();
+      }
+    }
+  }
+
+  return operations;
+}
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+function transformPoint(x: number, y: number, m: Matrix): [number, number] {
+  return [x * m[0] + y * m[2] + m[4], x * m[1] + y * m[3] + m[5]];
+}
+
+function translate(tx: number, ty: number): Matrix {
+  return [1, 0, 0, 1, tx, ty];
+}
+
+function toNumber(value: ContentValue | undefined): number {
+  return value?.kind === 'number' ? value.value : 0;
+}
+
+function toMatrix(operands: ContentValue[]): Matrix {
+  return [0, 1, 2, 3, 4, 5].map(i => toNumber(operands[i])) as Matrix;
+}
+
+function bytesToCode(bytes: Uint8Array): number {
+  let code = 0;
+  for (const byte of bytes) code = code * 256 + byte;
+  return code;
+}
+
+function utf16beToString(bytes: Uint8Array): string {
+  let text = '';
+  for (let i = 0; i + 1 < bytes.length; i += 2) text += String.fromCharCode(bytes[i] * 256 + bytes[i + 1]);
+  return text;
+}
+
+function decodeStream(stream: PDFObject | undefined): Uint8Array | null {
+  if (!(stream instanceof PDFStream)) return null;
+  try {
+    return stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : stream.getContents();
+  } catch (err) {
+    console.error('[PDF] Could not decode stream:', err);
+    return null;
+  }
+}
+
+function lookup(dict: PDFDict | undefined, key: string): PDFObject | undefined {
+  return dict?.lookup(PDFName.of(key));
+}
+
+function lookupDict(dict: PDFDict | undefined, key: string): PDFDict | undefined {
+  const value = lookup(dict, key);
+  return value instanceof PDFDict ? value : undefined;
+}
+
+function lookupNumber(dict: PDFDict | undefined, key: string): number | undefined {
+  const value = lookup(dict, key);
+  return value instanceof PDFNumber ? value.asNumber() : undefined;
+}
+
+function resolveArray(array: PDFArray): Array<PDFObject | undefined> {
+  return Array.from({ length: array.size() }, (_, i) => array.lookup(i));
+}
+
+function lookupNumbers(dict: PDFDict | undefined, key: string): number[] | undefined {
+  const value = lookup(dict, key);
+  if (!(value instanceof PDFArray)) return undefined;
+  return resolveArray(value).map(item => (item instanceof PDFNumber ? item.asNumber() : 0));
+}
+
+/**
+ * What the text tracker needs from a font: how to split strings into
+ * character codes, what each code reads as, and how wide it is.
+ */
+interface FontInfo {
+  codeLength: number;
+  toUnicode: (code: number) => string;
+  // In text space units per unit of font size
+  widthOf: (code: number) => number;
+  ascent: number;
+  descent: number;
+}
+
+/**
+ * Read a ToUnicode CMap. bfrange destinations either count up from a
+ * starting string or list one string per code.
+ */
+function parseToUnicode(bytes: Uint8Array): { map: Map<number, string>; codeLength?: number } {
+  const map = new Map<number, string>();
+  let codeLength: number | undefined;
+
+  for (const { operator, operands } of parseContentStream(bytes)) {
+    if (operator === 'endcodespacerange' && operands[0]?.kind === 'string') {
+      codeLength = operands[0].value.length;
+    } else if (operator === 'endbfchar') {
+      for (let i = 0; i + 1 < operands.length; i += 2) {
+        const [src, dst] = [operands[i], operands[i + 1]];
+        if (src.kind === 'string' && dst.kind === 'string') map.set(bytesToCode(src.value), utf16beToString(dst.value));
+      }
+    } else if (operator === 'endbfrange') {
+      for (let i = 0; i + 2 < operands.length; i += 3) {
+        const [lo, hi, dst] = [operands[i], operands[i + 1], operands[i + 2]];
+        if (lo.kind !== 'string' || hi.kind !== 'string') continue;
+        const start = bytesToCode(lo.value);
+        const end = Math.min(bytesToCode(hi.value), start + 0xffff);
+
+        for (let code = start; code <= end; code++) {
+          if (dst.kind === 'array') {
+            const item = dst.value[code - start];
+            if (item?.kind === 'string') map.set(code, utf16beToString(item.value));
+          } else if (dst.kind === 'string' && dst.value.length >= 2) {
+            const base = utf16beToString(dst.value);
+            const last = base.charCodeAt(base.length - 1) + (code - start);
+            map.set(code, base.slice(0, -1) + String.fromCharCode(last));
+          }
+        }
+      }
+    }
+  }
+
+  return { map, codeLength };
+}
+
+type StandardFontName = Parameters<typeof StandardFontEmbedder.for>[0];
+
+/**
+ * The standard 14 font whose metrics stand in for a simple font that has
+ * no /Widths, going by its base font name
+ */
+function getStandardFontName(baseFont: string): StandardFontName {
+  const name = baseFont.replace(/^[A-Z]{6}\+/, '');
+  if ((Object.values(StandardFonts) as string[]).includes(name)) return name as StandardFontName;
+
+  const bold = /bold|black|heavy/i.test(name);
+  const italic = /italic|oblique/i.test(name);
+  let family: 'Courier' | 'Times' | 'Helvetica' = 'Helvetica';
+  if (/courier|mono/i.test(name)) family = 'Courier';
+  else if (/times|serif/i.test(name) && !/sans/i.test(name)) family = 'Times';
+
+  if (family === 'Times') {
+    return (bold ? (italic ? 'Times-BoldItalic' : 'Times-Bold') : italic ? 'Times-Italic' : 'Times-Roman') as StandardFontName;
+  }
+  const suffix = bold ? (italic ? '-BoldOblique' : '-Bold') : italic ? '-Oblique' : '';
+  return `${family}${suffix}` as StandardFontName;
+}
+
+function loadFont(fontDict: PDFDict): FontInfo {
+  const subtype = lookup(fontDict, 'Subtype');
+  const isType0 = subtype === PDFName.of('Type0');
+  const descendants = lookup(fontDict, 'DescendantFonts');
+  const firstDescendant = isType0 && descendants instanceof PDFArray ? descendants.lookup(0) : undefined;
+  const descendant = firstDescendant instanceof PDFDict ? firstDescendant : undefined;
+  const descriptor = lookupDict(descendant ?? fontDict, 'FontDescriptor');
+
+  const toUnicodeBytes = decodeStream(lookup(fontDict, 'ToUnicode'));
+  const toUnicode = toUnicodeBytes ? parseToUnicode(toUnicodeBytes) : null;
+
+  const ascent = lookupNumber(descriptor, 'Ascent') || 800;
+  const descent = lookupNumber(descriptor, 'Descent') || -200;
+
+  if (isType0) {
+    // Predefined CMaps other than Identity are read as two-byte codes too
+    const encoding = lookup(fontDict, 'Encoding');
+    const encodingBytes = encoding instanceof PDFStream ? decodeStream(encoding) : null;
+    const codeLength = (encodingBytes && parseToUnicode(encodingBytes).codeLength) || toUnicode?.codeLength || 2;
+
+    const defaultWidth = lookupNumber(descendant, 'DW') ?? 1000;
+    const widths = new Map<number, number>();
+    const w = lookup(descendant, 'W');
+
+    if (w instanceof PDFArray) {
+      const items = resolveArray(w);
+      for (let i = 0; i < items.length; ) {
+        const first = items[i];
+        const next = items[i + 1];
+        if (!(first instanceof PDFNumber)) break;
+
+        if (next instanceof PDFArray) {
+          resolveArray(next).forEach((width, offset) => {
+            if (width instanceof PDFNumber) widths.set(first.asNumber() + offset, width.asNumber());
+          });
+          i += 2;
+        } else {
+          const last = items[i + 1];
+          const width = items[i + 2];
+          if (!(last instanceof PDFNumber) || !(width instanceof PDFNumber)) break;
+          for (let cid = first.asNumber(); cid <= last.asNumber(); cid++) widths.set(cid, width.asNumber());
+          i += 3;
+        }
+      }
+    }
+
+    return {
+      codeLength,
+      toUnicode: code => toUnicode?.map.get(code) ?? '\uFFFD',
+      widthOf: code => (widths.get(code) ?? defaultWidth) / 1000,
+      ascent: ascent / 1000,
+      descent: descent / 1000,
+    };
+  }
+
+  // Type 3 glyphs are measured in their own glyph space
+  const fontMatrix = subtype === PDFName.of('Type3') ? lookupNumbers(fontDict, 'FontMatrix') : undefined;
+  const glyphScale = fontMatrix ? fontMatrix[0] : 0.001;
+  const firstChar = lookupNumber(fontDict, 'FirstChar') ?? 0;
+  const widths = lookupNumbers(fontDict, 'Widths');
+  const missingWidth = lookupNumber(descriptor, 'MissingWidth');
+
+  let standardFont: StandardFontEmbedder | null = null;
+  if (!widths) {
+    const baseFont = lookup(fontDict, 'BaseFont');
+    standardFont = StandardFontEmbedder.for(
+      getStandardFontName(baseFont instanceof PDFName ? baseFont.decodeText() : 'Helvetica')
+    );
+  }
+
+  // Without a ToUnicode map single bytes are read as Latin-1, which covers tag text
+  const decode = (code: number) => toUnicode?.map.get(code) ?? String.fromCharCode(code);
+
+  return {
+    codeLength: 1,
+    toUnicode: decode,
+    widthOf: code => {
+      const width = widths?.[code - firstChar];
+      if (width !== undefined) return width * glyphScale;
+      if (missingWidth !== undefined) return missingWidth * glyphScale;
+      try {
+        return (standardFont?.widthOfTextAtSize(decode(code), 1000) ?? 500) / 1000;
+      } catch {
+        return 0.5;
+      }
+    },
+    ascent: ascent / 1000,
+    descent: descent / 1000,
+  };
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScale: number;
+  leading: number;
+  font: FontInfo | null;
+  fontSize: number;
+  rise: number;
+}
+
+interface Glyph {
+  text: string;
+  x: number;
+  y: number;
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * Walk a page's content, tracking the graphics and text state, and hand
+ * each text object's glyphs, in page space, to onRun. Form XObjects are
+ * followed with their own matrix and resources.
+ */
+function walkPageText(
+  contents: Uint8Array,
+  resources: PDFDict | undefined,
+  fontCache: Map<PDFDict, FontInfo>,
+  onRun: (glyphs: Glyph[]) => void
+): void {
+  const activeForms = new Set<PDFStream>();
+
+  const run = (bytes: Uint8Array, resources: PDFDict | undefined, initial: GraphicsState, depth: number) => {
+    let state: GraphicsState = { ...initial };
+    const saved: GraphicsState[] = [];
+    let textMatrix: Matrix = IDENTITY;
+    let lineMatrix: Matrix = IDENTITY;
+    let glyphs: Glyph[] = [];
+
+    const flush = () => {
+      if (glyphs.length) onRun(glyphs);
+      glyphs = [];
+    };
+
+    const moveLine = (tx: number, ty: number) => {
+      lineMatrix = multiply(translate(tx, ty), lineMatrix);
+      textMatrix = lineMatrix;
+    };
+
+    const setFont = (name: string, size: number) => {
+      state.fontSize = size;
+      const fontDict = lookupDict(lookupDict(resources, 'Font'), name);
+      if (!fontDict) {
+        state.font = null;
+        return;
+      }
+      let font = fontCache.get(fontDict);
+      if (!font) {
+        font = loadFont(fontDict);
+        fontCache.set(fontDict, font);
+      }
+      state.font = font;
+    };
+
+    const showText = (bytes: Uint8Array) => {
+      const { font, fontSize, horizontalScale, charSpacing, wordSpacing, rise } = state;
+      if (!font) return;
+
+      for (let i = 0; i + font.codeLength <= bytes.length; i += font.codeLength) {
+        const code = bytesToCode(bytes.subarray(i, i + font.codeLength));
+        const width = font.widthOf(code);
+        const renderMatrix = multiply(
+          multiply([fontSize * horizontalScale, 0, 0, fontSize, 0, rise], textMatrix),
+          state.ctm
+        );
+
+        const [x, y] = transformPoint(0, 0, renderMatrix);
+        const corners = [
+          transformPoint(0, font.descent, renderMatrix),
+          transformPoint(width, font.descent, renderMatrix),
+          transformPoint(0, font.ascent, renderMatrix),
+          transformPoint(width, font.ascent, renderMatrix),
+        ];
+        glyphs.push({
+          text: font.toUnicode(code),
+          x,
+          y,
+          minX: Math.min(...corners.map(c => c[0])),
+          minY: Math.min(...corners.map(c => c[1])),
+          maxX: Math.max(...corners.map(c => c[0])),
+          maxY: Math.max(...corners.map(c => c[1])),
+        });
+
+        // Word spacing applies to the single-byte space only
+        const spacing = charSpacing + (font.codeLength === 1 && code === 0x20 ? wordSpacing : 0);
+        textMatrix = multiply(translate((width * fontSize + spacing) * horizontalScale, 0), textMatrix);
+      }
+    };
+
+    const drawForm = (name: string) => {
+      const form = lookup(lookupDict(resources, 'XObject'), name);
+      if (!(form instanceof PDFStream) || lookup(form.dict, 'Subtype') !== PDFName.of('Form')) return;
+      if (activeForms.has(form) || depth >= MAX_FORM_DEPTH) return;
+
+      const bytes = decodeStream(form);
+      if (!bytes) return;
+
+      const matrix = lookupNumbers(form.dict, 'Matrix');
+      const formState = {
+        ...state,
+        ctm: matrix?.length === 6 ? multiply(matrix as Matrix, state.ctm) : state.ctm,
+      };
+
+      activeForms.add(form);
+      run(bytes, lookupDict(form.dict, 'Resources') ?? resources, formState, depth + 1);
+      activeForms.delete(form);
+    };
+
+    for (const { operator, operands } of parseContentStream(bytes)) {
+      switch (operator) {
+        case 'q':
+          saved.push({ ...state });
+          break;
+        case 'Q':
+          if (saved.length) state = saved.pop()!;
+          break;
+        case 'cm':
+          state.ctm = multiply(toMatrix(operands), state.ctm);
+          break;
+        case 'BT':
+          textMatrix = lineMatrix = IDENTITY;
+          break;
+        case 'ET':
+          flush();
+          break;
+        case 'Tc':
+          state.charSpacing = toNumber(operands[0]);
+          break;
+        case 'Tw':
+          state.wordSpacing = toNumber(operands[0]);
+          break;
+        case 'Tz':
+          state.horizontalScale = toNumber(operands[0]) / 100;
+          break;
+        case 'TL':
+          state.leading = toNumber(operands[0]);
+          break;
+        case 'Ts':
+          state.rise = toNumber(operands[0]);
+          break;
+        case 'Tf':
+          setFont(operands[0]?.kind === 'name' ? operands[0].value : '', toNumber(operands[1]));
+          break;
+        case 'Td':
+          moveLine(toNumber(operands[0]), toNumber(operands[1]));
+          break;
+        case 'TD':
+          state.leading = -toNumber(operands[1]);
+          moveLine(toNumber(operands[0]), toNumber(operands[1]));
+          break;
+        case 'Tm':
+          textMatrix = lineMatrix = toMatrix(operands);
+          break;
+        case 'T*':
+          moveLine(0, -state.leading);
+          break;
+        case 'Tj':
+          if (operands[0]?.kind === 'string') showText(operands[0].value);
+          break;
+        case "'":
+          moveLine(0, -state.leading);
+          if (operands[0]?.kind === 'string') showText(operands[0].value);
+          break;
+        case '"':
+          state.wordSpacing = toNumber(operands[0]);
+          state.charSpacing = toNumber(operands[1]);
+          moveLine(0, -state.leading);
+          if (operands[2]?.kind === 'string') showText(operands[2].value);
+          break;
+        case 'TJ':
+          if (operands[0]?.kind !== 'array') break;
+          for (const item of operands[0].value) {
+            if (item.kind === 'string') {
+              showText(item.value);
+            } else if (item.kind === 'number') {
+              const tx = (-item.value / 1000) * state.fontSize * state.horizontalScale;
+              textMatrix = multiply(translate(tx, 0), textMatrix);
+            }
+          }
+          break;
+        case 'Do':
+          if (operands[0]?.kind === 'name') drawForm(operands[0].value);
+          break;
+      }
+    }
+
+    flush();
+  };
+
+  run(contents, resources, {
+    ctm: IDENTITY,
+    charSpacing: 0,
+    wordSpacing: 0,
+    horizontalScale: 1,
+    leading: 0,
+    font: null,
+    fontSize: 0,
+    rise: 0,
+  }, 0);
+}
+
+function getPageContents(contents: PDFObject | undefined): Uint8Array | null {
+  const streams = contents instanceof PDFArray
+    ? resolveArray(contents)
+    : [contents];
+
+  const parts = streams.map(decodeStream).filter((part): part is Uint8Array => part !== null);
+  if (!parts.length) return null;
+
+  // Content may be split across streams, but only between tokens
+  const joined = new Uint8Array(parts.reduce((sum, part) => sum + part.length + 1, 0));
+  let offset = 0;
+  for (const part of parts) {
+    joined.set(part, offset);
+    joined[offset + part.length] = 0x0a;
+    offset += part.length + 1;
+  }
+  return joined;
+}
+
+/**
+ * Find every match of the patterns in the text of each page, with its
+ * position. Text is matched within one text object (BT ... ET) at a time,
+ * so matches may span several Tj/TJ operations but not text objects.
+ */
+export function findTextMatches(pdfDoc: PDFDocument, patterns: RegExp[]): TextMatch[] {
+  const matches: TextMatch[] = [];
+  const fontCache = new Map<PDFDict, FontInfo>();
+
+  pdfDoc.getPages().forEach((page, pageIndex) => {
+    const contents = getPageContents(page.node.Contents());
+    if (!contents) return;
+
+    walkPageText(contents, page.node.Resources(), fontCache, glyphs => {
+      let text = '';
+      const glyphAt: number[] = [];
+      glyphs.forEach((glyph, index) => {
+        text += glyph.text;
+        for (let i = 0; i < glyph.text.length; i++) glyphAt.push(index);
+      });
+
+      const found: Array<{ index: number; match: TextMatch }> = [];
+      for (const pattern of patterns) {
+        const global = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : pattern.flags + 'g');
+        let result: RegExpExecArray | null;
+
+        while ((result = global.exec(text)) !== null) {
+          if (!result[0]) {
+            global.lastIndex++;
+            continue;
+          }
+          const matched = glyphs.slice(glyphAt[result.index], glyphAt[result.index + result[0].length - 1] + 1);
+          const minX = Math.min(...matched.map(g => g.minX));
+          const minY = Math.min(...matched.map(g => g.minY));
+
+          found.push({
+            index: result.index,
+            match: {
+              text: result[0],
+              pageIndex,
+              x: matched[0].x,
+              y: matched[0].y,
+              bounds: {
+                x: minX,
+                y: minY,
+                width: Math.max(...matched.map(g => g.maxX)) - minX,
+                height: Math.max(...matched.map(g => g.maxY)) - minY,
+              },
+            },
+          });
+        }
+      }
+
+      found.sort((a, b) => a.index - b.index);
+      matches.push(...found.map(f => f.match));
+    });
+  });
+
+  return matches;
+}
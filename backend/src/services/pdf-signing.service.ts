@@ -0,0 +1,227 @@
+import {
+  PDFDocument,
+  PDFArray,
+  PDFDict,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFString,
+} from 'pdf-lib';
+import forge from 'node-forge';
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../utils/config.js';
+
+// Bytes reserved for the DER-encoded CMS signature (hex doubles this in the file)
+const SIGNATURE_MAX_LENGTH = 8192;
+const BYTE_RANGE_PLACEHOLDER = '**********';
+
+interface SigningCredentials {
+  certificate: forge.pki.Certificate;
+  privateKey: forge.pki.rsa.PrivateKey;
+}
+
+let credentials: SigningCredentials | null = null;
+
+function resolvePath(filePath: string): string {
+  return path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+}
+
+/**
+ * Make sure a signing certificate and key exist. In development a self-signed
+ * pair is generated once and reused; production and S3 deployments must configure one.
+ */
+export async function ensureSigningCertificate(): Promise<void> {
+  const certPath = resolvePath(config.PDF_SIGNING_CERT_PATH);
+  const keyPath = resolvePath(config.PDF_SIGNING_KEY_PATH);
+
+  try {
+    await fs.access(certPath);
+    await fs.access(keyPath);
+    return;
+  } catch {
+    // Fall through and generate a development certificate
+  }
+
+  // A generated key on local disk would be lost on redeploy or differ between instances
+  if (process.env.NODE_ENV === 'production' || config.STORAGE_DRIVER === 's3') {
+    throw new Error(
+      `PDF signing certificate not found at ${config.PDF_SIGNING_CERT_PATH} and ${config.PDF_SIGNING_KEY_PATH}; ` +
+      'configure one or set PDF_SIGNING_ENABLED=false'
+    );
+  }
+
+  console.warn('[PDF Signing] No signing certificate found, generating a self-signed one');
+
+  const keys = forge.pki.rsa.generateKeyPair(2048);
+  const cert = forge.pki.createCertificate();
+  cert.publicKey = keys.publicKey;
+  cert.serialNumber = '01' + forge.util.bytesToHex(forge.random.getBytesSync(8));
+  cert.validity.notBefore = new Date();
+  cert.validity.notAfter = new Date();
+  cert.validity.notAfter.setFullYear(cert.validity.notBefore.getFullYear() + 5);
+
+  const attrs = [
+    { name: 'commonName', value: config.PDF_SIGNING_NAME },
+    { name: 'organizationName', value: config.EMAIL_FROM_NAME },
+  ];
+  cert.setSubject(attrs);
+  cert.setIssuer(attrs);
+  cert.setExtensions([
+    { name: 'basicConstraints', cA: false },
+    { name: 'keyUsage', digitalSignature: true, nonRepudiation: true },
+  ]);
+  cert.sign(keys.privateKey, forge.md.sha256.create());
+
+  await fs.mkdir(path.dirname(certPath), { recursive: true });
+  await fs.mkdir(path.dirname(keyPath), { recursive: true });
+  await fs.writeFile(certPath, forge.pki.certificateToPem(cert));
+  await fs.writeFile(keyPath, forge.pki.privateKeyToPem(keys.privateKey), { mode: 0o600 });
+}
+
+async function loadCredentials(): Promise<SigningCredentials> {
+  if (credentials) return credentials;
+
+  const certPem = await fs.readFile(resolvePath(config.PDF_SIGNING_CERT_PATH), 'utf8');
+  const keyPem = await fs.readFile(resolvePath(config.PDF_SIGNING_KEY_PATH), 'utf8');
+
+  credentials = {
+    certificate: forge.pki.certificateFromPem(certPem),
+    privateKey: config.PDF_SIGNING_KEY_PASSPHRASE
+      ? forge.pki.decryptRsaPrivateKey(keyPem, config.PDF_SIGNING_KEY_PASSPHRASE)
+      : forge.pki.privateKeyFromPem(keyPem) as forge.pki.rsa.PrivateKey,
+  };
+
+  if (!credentials.privateKey) {
+    credentials = null;
+    throw new Error('Unable to decrypt PDF signing key');
+  }
+
+  return credentials;
+}
+
+/**
+ * Add an empty signature field whose /Contents and /ByteRange are filled in afterwards
+ */
+async function addSignaturePlaceholder(pdfBytes: Uint8Array, reason: string): Promise<Buffer> {
+  const pdfDoc = await PDFDocument.load(pdfBytes);
+  const context = pdfDoc.context;
+  const page = pdfDoc.getPage(0);
+
+  const byteRange = PDFArray.withContext(context);
+  byteRange.push(PDFNumber.of(0));
+  byteRange.push(PDFName.of(BYTE_RANGE_PLACEHOLDER));
+  byteRange.push(PDFName.of(BYTE_RANGE_PLACEHOLDER));
+  byteRange.push(PDFName.of(BYTE_RANGE_PLACEHOLDER));
+
+  const signatureRef = context.register(
+    context.obj({
+      Type: 'Sig',
+      Filter: 'Adobe.PPKLite',
+      SubFilter: 'adbe.pkcs7.detached',
+      ByteRange: byteRange,
+      Contents: PDFHexString.of('0'.repeat(SIGNATURE_MAX_LENGTH * 2)),
+      Reason: PDFString.of(reason),
+      Name: PDFString.of(config.PDF_SIGNING_NAME),
+      M: PDFString.fromDate(new Date()),
+    })
+  );
+
+  // Invisible widget so readers list the signature in their signature panel
+  const widgetRef = context.register(
+    context.obj({
+      Type: 'Annot',
+      Subtype: 'Widget',
+      FT: 'Sig',
+      Rect: [0, 0, 0, 0],
+      V: signatureRef,
+      T: PDFString.of('Signature1'),
+      F: 132,
+      P: page.ref,
+    })
+  );
+
+  const annots = page.node.lookupMaybe(PDFName.of('Annots'), PDFArray);
+  if (annots) {
+    annots.push(widgetRef);
+  } else {
+    page.node.set(PDFName.of('Annots'), context.obj([widgetRef]));
+  }
+
+  const acroForm = pdfDoc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+  if (acroForm) {
+    const fields = acroForm.lookupMaybe(PDFName.of('Fields'), PDFArray);
+    if (fields) {
+      fields.push(widgetRef);
+    } else {
+      acroForm.set(PDFName.of('Fields'), context.obj([widgetRef]));
+    }
+    acroForm.set(PDFName.of('SigFlags'), PDFNumber.of(3));
+  } else {
+    pdfDoc.catalog.set(
+      PDFName.of('AcroForm'),
+      context.obj({ Fields: [widgetRef], SigFlags: 3 })
+    );
+  }
+
+  // Object streams would compress the placeholder out of reach
+  return Buffer.from(await pdfDoc.save({ useObjectStreams: false }));
+}
+
+/**
+ * Sign a PDF with a PKCS#7/CMS detached signature. The signature covers the
+ * whole file except the /Contents value, so any later edit invalidates it.
+ */
+export async function signPdf(pdfBytes: Uint8Array, reason = 'Document completed'): Promise<Uint8Array> {
+  const { certificate, privateKey } = await loadCredentials();
+  const pdf = await addSignaturePlaceholder(pdfBytes, reason);
+
+  // Locate the placeholders written above
+  const byteRangeMatch = /\/ByteRange\s*\[\s*0\s+\/\*{10}\s+\/\*{10}\s+\/\*{10}\s*\]/.exec(
+    pdf.toString('latin1')
+  );
+  if (!byteRangeMatch) {
+    throw new Error('Signature ByteRange placeholder not found');
+  }
+
+  const contentsMarker = `/Contents <${'0'.repeat(SIGNATURE_MAX_LENGTH * 2)}>`;
+  const contentsStart = pdf.indexOf(contentsMarker, 0, 'latin1') + '/Contents '.length;
+  if (contentsStart < '/Contents '.length) {
+    throw new Error('Signature Contents placeholder not found');
+  }
+  const contentsEnd = contentsStart + SIGNATURE_MAX_LENGTH * 2 + 2;
+
+  // Write the real byte range, padded to the placeholder's width
+  const byteRange = [0, contentsStart, contentsEnd, pdf.length - contentsEnd];
+  const byteRangeText = `/ByteRange [${byteRange.join(' ')}]`.padEnd(byteRangeMatch[0].length, ' ');
+  pdf.write(byteRangeText, byteRangeMatch.index, 'latin1');
+
+  const signedContent = Buffer.concat([
+    pdf.subarray(0, contentsStart),
+    pdf.subarray(contentsEnd),
+  ]);
+
+  const p7 = forge.pkcs7.createSignedData();
+  p7.content = forge.util.createBuffer(signedContent.toString('binary'));
+  p7.addCertificate(certificate);
+  p7.addSigner({
+    key: privateKey,
+    certificate,
+    digestAlgorithm: forge.pki.oids.sha256,
+    authenticatedAttributes: [
+      { type: forge.pki.oids.contentType, value: forge.pki.oids.data },
+      { type: forge.pki.oids.messageDigest },
+      // Forge's typings omit Date, which it accepts for signingTime
+      { type: forge.pki.oids.signingTime, value: new Date() as unknown as string },
+    ],
+  });
+  p7.sign({ detached: true });
+
+  const signatureHex = forge.util.bytesToHex(forge.asn1.toDer(p7.toAsn1()).getBytes());
+  if (signatureHex.length > SIGNATURE_MAX_LENGTH * 2) {
+    throw new Error('PDF signature exceeds reserved space');
+  }
+
+  pdf.write(signatureHex.padEnd(SIGNATURE_MAX_LENGTH * 2, '0'), contentsStart + 1, 'latin1');
+  return new Uint8Array(pdf);
+}
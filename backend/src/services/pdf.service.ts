@@ -1,18 +1,55 @@
-import { PDFDocument, rgb, StandardFonts } from 'pdf-lib';
+import {
+  LineCapStyle,
+  PDFCheckBox,
+  PDFDocument,
+  PDFDropdown,
+  PDFField,
+  PDFFont,
+  PDFOptionList,
+  PDFPage,
+  PDFRadioGroup,
+  PDFSignature,
+  PDFTextField,
+  rgb,
+  StandardFonts,
+} from 'pdf-lib';
 import fs from 'fs/promises';
-import path from 'path';
 import zlib from 'zlib';
+import { storage, storageKeys } from './storage.service.js';
+import { findTextMatches, TextBounds } from './pdf-content.service.js';
+import { z } from 'zod';
+
+// Field types a placeholder can have. Every type but SIGNATURE, INITIALS and
+// DATE is filled through a named value the signer enters.
+export const PLACEHOLDER_TYPES = [
+  'SIGNATURE',
+  'INITIALS',
+  'DATE',
+  'TEXT',
+  'CHECKBOX',
+  'RADIO',
+  'SELECT',
+  'NUMBER',
+] as const;
+
+export type PlaceholderType = typeof PLACEHOLDER_TYPES[number];
 
 export interface Placeholder {
-  type: 'SIGNATURE' | 'DATE' | 'TEXT';
+  type: PlaceholderType;
   role: string;
   fieldName?: string;
+  // The choices offered by RADIO and SELECT fields
+  options?: string[];
   originalTag: string;
   pageNumber: number;
   x: number;
   y: number;
   width: number;
   height: number;
+  // Where the tag text itself sits, for tags found in the content
+  tagBounds?: TextBounds;
+  // The AcroForm field this placeholder fills, for form-field placeholders
+  formField?: string;
 }
 
 interface TagLocation {
@@ -20,626 +57,466 @@ interface TagLocation {
   pageIndex: number;
   x: number;
   y: number;
-  streamIndex: number;
+  bounds: TextBounds;
 }
 
-/**
- * Extract text positions from PDF content stream using regex-based approach.
- * Finds tags and extracts their x,y coordinates from the text matrix.
- */
-function extractTagPositionsFromStream(streamContent: string, tagPatterns: RegExp[]): Array<{text: string, x: number, y: number}> {
-  const results: Array<{text: string, x: number, y: number}> = [];
-
-  // Method 1: Find all (text)Tj patterns and look for preceding Tm
-  const textShowRegex = /\(([^)\\]*(?:\\.[^)\\]*)*)\)\s*Tj/g;
-  let match;
+type ParsedTag = Pick<Placeholder, 'type' | 'role' | 'fieldName' | 'options'>;
 
-  while ((match = textShowRegex.exec(streamContent)) !== null) {
-    let text = match[1];
+const CUSTOM_TAG_SOURCE = `\\[\\[(?:${PLACEHOLDER_TYPES.join('|')}):[^\\]]+\\]\\]`;
 
-    // Decode escape sequences
-    text = text.replace(/\\([0-7]{1,3})/g, (_, oct) => String.fromCharCode(parseInt(oct, 8)));
-    text = text.replace(/\\n/g, '\n').replace(/\\r/g, '\r').replace(/\\t/g, '\t');
-    text = text.replace(/\\\(/g, '(').replace(/\\\)/g, ')').replace(/\\\\/g, '\\');
+const TAG_PATTERNS = [
+  /\{\{\*?[^}]+_es_:[^}]*\}\}/,
+  new RegExp(CUSTOM_TAG_SOURCE),
+];
 
-    // Check if this text contains a tag
-    let isTag = false;
-    for (const pattern of tagPatterns) {
-      if (pattern.test(text)) {
-        isTag = true;
-        break;
-      }
-    }
+// Size of the box a tag's value is drawn in
+const TAG_FIELD_SIZES: Record<PlaceholderType, { width: number; height: number }> = {
+  SIGNATURE: { width: 200, height: 50 },
+  INITIALS: { width: 60, height: 30 },
+  DATE: { width: 100, height: 20 },
+  TEXT: { width: 150, height: 20 },
+  CHECKBOX: { width: 20, height: 20 },
+  RADIO: { width: 150, height: 20 },
+  SELECT: { width: 150, height: 20 },
+  NUMBER: { width: 100, height: 20 },
+};
 
-    if (!isTag) continue;
-
-    // Look for the most recent Tm before this text
-    const beforeText = streamContent.substring(0, match.index);
+/**
+ * Types whose value is keyed by a field name rather than the role
+ */
+function needsFieldName(type: PlaceholderType): boolean {
+  return type !== 'SIGNATURE' && type !== 'INITIALS' && type !== 'DATE';
+}
 
-    // Find all Tm operators (text matrix: a b c d e f Tm)
-    const tmRegex = /([\d.+-]+)\s+([\d.+-]+)\s+([\d.+-]+)\s+([\d.+-]+)\s+([\d.+-]+)\s+([\d.+-]+)\s+Tm/g;
-    let lastTm: RegExpExecArray | null = null;
-    let tmMatch;
-    while ((tmMatch = tmRegex.exec(beforeText)) !== null) {
-      lastTm = tmMatch;
-    }
+/**
+ * Types the signer picks one of a list of options for
+ */
+function needsOptions(type: PlaceholderType): boolean {
+  return type === 'RADIO' || type === 'SELECT';
+}
 
-    // Also look for cm (current transformation matrix)
-    const cmRegex = /([\d.+-]+)\s+([\d.+-]+)\s+([\d.+-]+)\s+([\d.+-]+)\s+([\d.+-]+)\s+([\d.+-]+)\s+cm/g;
-    let lastCm: RegExpExecArray | null = null;
-    let cmMatch;
-    while ((cmMatch = cmRegex.exec(beforeText)) !== null) {
-      lastCm = cmMatch;
-    }
+/**
+ * Find ALL tag locations in the PDF by walking each page's content streams.
+ * IMPORTANT: Returns ALL positions for each tag, not just one.
+ * Tags can appear multiple times and need to be stamped at ALL positions.
+ */
+async function findTagLocations(pdfBytes: Buffer): Promise<TagLocation[]> {
+  const pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true });
+  console.log(`[PDF] Found ${pdfDoc.getPageCount()} pages`);
 
-    // Extract position
-    let x = 0;
-    let y = 0;
+  const locations: TagLocation[] = findTextMatches(pdfDoc, TAG_PATTERNS).map(match => ({
+    tag: match.text,
+    pageIndex: match.pageIndex,
+    x: match.x,
+    y: match.y,
+    bounds: match.bounds,
+  }));
 
-    if (lastTm) {
-      // Tm sets text matrix: a b c d e f where e=x, f=y
-      x = parseFloat(lastTm[5]);
-      y = parseFloat(lastTm[6]);
+  console.log(`[PDF] Found ${locations.length} total tag positions`);
 
-      // If there's a cm matrix, we might need to apply it
-      // But for most cases, Tm gives us the direct position
-    }
+  // Group by tag for summary
+  const tagCounts = new Map<string, number>();
+  for (const loc of locations) {
+    const shortTag = loc.tag.substring(0, 30);
+    tagCounts.set(shortTag, (tagCounts.get(shortTag) || 0) + 1);
+  }
+  for (const [tag, count] of tagCounts.entries()) {
+    console.log(`  - "${tag}...": ${count} positions`);
+  }
 
-    // Also check for Td/TD operators that modify position after Tm
-    if (lastTm) {
-      const afterTm = beforeText.substring(lastTm.index + lastTm[0].length);
-      const tdRegex = /([\d.+-]+)\s+([\d.+-]+)\s+T[dD]/g;
-      let tdMatch;
-      while ((tdMatch = tdRegex.exec(afterTm)) !== null) {
-        x += parseFloat(tdMatch[1]);
-        y += parseFloat(tdMatch[2]);
-      }
-    }
+  return locations;
+}
 
-    // If x and y are still 0 or very small, the position might be in cm matrix
-    if ((x === 0 || Math.abs(x) < 50) && lastCm) {
-      const cmX = parseFloat(lastCm[5]);
-      const cmY = parseFloat(lastCm[6]);
-      if (cmX > 50 || cmY > 50) {
-        x = cmX;
-        y = cmY;
-      }
-    }
+/**
+ * Parse a [[TYPE:...]] tag. SIGNATURE, INITIALS and DATE tags name a role and
+ * TEXT tags a field. The other types name a role and a field, and RADIO and
+ * SELECT tags list their options: [[SELECT:employee:Shirt_Size:S|M|L]]
+ */
+function parseCustomTag(tag: string): ParsedTag | null {
+  const match = tag.match(/^\[\[(\w+):([^\]]+)\]\]$/);
+  const type = match?.[1] as PlaceholderType | undefined;
+  if (!match || !type || !PLACEHOLDER_TYPES.includes(type)) return null;
 
-    results.push({ text, x, y });
-  }
+  if (type === 'SIGNATURE' || type === 'INITIALS' || type === 'DATE') return { type, role: match[2] };
+  if (type === 'TEXT') return { type, role: 'signer', fieldName: match[2] };
 
-  // Method 2: Also try TJ array format: [(text1) kern (text2)] TJ
-  const tjArrayRegex = /\[((?:\([^)]*\)|[\d.-]+\s*)+)\]\s*TJ/gi;
-  while ((match = tjArrayRegex.exec(streamContent)) !== null) {
-    const arrayContent = match[1];
-
-    // Extract all text strings from the array
-    const stringRegex = /\(([^)\\]*(?:\\.[^)\\]*)*)\)/g;
-    let fullText = '';
-    let strMatch;
-    while ((strMatch = stringRegex.exec(arrayContent)) !== null) {
-      let text = strMatch[1];
-      text = text.replace(/\\([0-7]{1,3})/g, (_, oct) => String.fromCharCode(parseInt(oct, 8)));
-      text = text.replace(/\\n/g, '\n').replace(/\\r/g, '\r').replace(/\\t/g, '\t');
-      text = text.replace(/\\\(/g, '(').replace(/\\\)/g, ')').replace(/\\\\/g, '\\');
-      fullText += text;
-    }
+  const [role, fieldName, ...rest] = match[2].split(':');
+  if (!role || !fieldName) return null;
 
-    // Check if combined text contains a tag
-    let isTag = false;
-    for (const pattern of tagPatterns) {
-      if (pattern.test(fullText)) {
-        isTag = true;
-        break;
-      }
-    }
+  const options = rest.join(':').split('|').map(o => o.trim()).filter(Boolean);
+  return { type, role, fieldName, options: needsOptions(type) && options.length ? options : undefined };
+}
 
-    if (!isTag) continue;
+/**
+ * Parse a tag to determine its type, role and field name
+ */
+function parseTag(tag: string): ParsedTag | null {
+  // Custom format: [[TYPE:identifier]]
+  if (tag.startsWith('[[')) {
+    return parseCustomTag(tag);
+  }
 
-    // Already processed or get position
-    const existing = results.find(r => r.text === fullText);
-    if (existing) continue;
+  // Adobe Sign signature: {{Sig_es_:signer1:signature}}
+  const sigMatch = tag.match(/\{\{\*?Sig\d*_es_:(\w+):signature\}\}/);
+  if (sigMatch) {
+    return { type: 'SIGNATURE', role: sigMatch[1] };
+  }
 
-    // Look for Tm before this TJ
-    const beforeText = streamContent.substring(0, match.index);
-    const tmRegex = /([\d.+-]+)\s+([\d.+-]+)\s+([\d.+-]+)\s+([\d.+-]+)\s+([\d.+-]+)\s+([\d.+-]+)\s+Tm/g;
-    let lastTm: RegExpExecArray | null = null;
-    let tmMatch;
-    while ((tmMatch = tmRegex.exec(beforeText)) !== null) {
-      lastTm = tmMatch;
-    }
+  // Adobe Sign date: {{*Dte1_es_:date}} or {{*Date_es_:signer}}
+  const dateMatch = tag.match(/\{\{\*?(?:Date\w*|Dte\d*)_es_:(\w+)?(?::date)?\}\}/);
+  if (dateMatch && (tag.toLowerCase().includes('date') || tag.toLowerCase().includes('dte'))) {
+    const role = dateMatch[1] && dateMatch[1] !== 'date' ? dateMatch[1] : 'signer';
+    const fieldNameMatch = tag.match(/\{\{\*?(\w+)_es_/);
+    return {
+      type: 'DATE',
+      role,
+      fieldName: fieldNameMatch ? fieldNameMatch[1] : 'Date',
+    };
+  }
 
-    let x = 0, y = 0;
-    if (lastTm) {
-      x = parseFloat(lastTm[5]);
-      y = parseFloat(lastTm[6]);
-    }
+  // Adobe Sign initials: {{Int_es_:signer1:initials}}
+  const initMatch = tag.match(/\{\{\*?Int\d*_es_:(\w+)(?::initials)?\}\}/i);
+  if (initMatch) {
+    return { type: 'INITIALS', role: initMatch[1] };
+  }
 
-    results.push({ text: fullText, x, y });
+  // Adobe Sign text fields: {{*Lic#_es_:signer}}
+  const textMatch = tag.match(/\{\{\*?([^_]+)_es_:(\w+)(?::[^}]*)?\}\}/);
+  if (textMatch) {
+    const fieldName = textMatch[1];
+    const role = textMatch[2];
+    // Skip if it's actually a signature or date
+    if (tag.includes(':signature') || tag.includes(':date')) return null;
+    if (fieldName.startsWith('Sig') || fieldName.startsWith('Date') || fieldName.startsWith('Dte')) return null;
+    return { type: 'TEXT', role, fieldName };
   }
 
-  return results;
+  return null;
 }
 
 /**
- * Find XObject name to object number mappings per page.
- * Returns a map: pageObjNum -> Map<xobjectName, objNum>
- * This ensures XObject names are scoped to their correct page context.
+ * Parse PDF and extract placeholder tags with their positions.
+ * IMPORTANT: Creates a placeholder for EACH tag position found.
+ * Tags that appear multiple times will have multiple placeholders.
  */
-function findXObjectMappingsPerPage(rawContent: string): Map<number, Map<string, number>> {
-  const perPageMappings = new Map<number, Map<string, number>>();
-
-  // Helper to extract XObject entries from a dictionary string
-  const extractXObjects = (dictContent: string): Map<string, number> => {
-    const mappings = new Map<string, number>();
-    const xobjMatch = dictContent.match(/\/XObject\s*<<([\s\S]*?)>>/);
-    if (xobjMatch) {
-      const xobjDict = xobjMatch[1];
-      const entryRegex = /\/(\w+)\s+(\d+)\s+0\s+R/g;
-      let entryMatch;
-      while ((entryMatch = entryRegex.exec(xobjDict)) !== null) {
-        mappings.set(entryMatch[1], parseInt(entryMatch[2]));
-      }
-    }
-    return mappings;
-  };
-
-  // Helper to find an object's dictionary content
-  const findObjDict = (objNum: number): string | null => {
-    // Handle various PDF object formats
-    const patterns = [
-      new RegExp(`${objNum}\\s+0\\s+obj\\s*<<([\\s\\S]*?)>>\\s*(?:stream|endobj)`, 's'),
-      new RegExp(`${objNum}\\s+0\\s+obj\\s*<<([\\s\\S]*?)>>`, 's'),
-    ];
-    for (const pattern of patterns) {
-      const match = rawContent.match(pattern);
-      if (match) return match[1];
-    }
-    return null;
-  };
-
-  // Find all Page objects
-  const pageObjRegex = /(\d+)\s+0\s+obj\s*<<([\s\S]*?)>>/g;
-  let match;
+export async function parseTemplatePlaceholders(
+  pdf: string | Uint8Array,
+  formFieldMapping: FormFieldMapping = {}
+): Promise<Placeholder[]> {
+  const pdfBytes = typeof pdf === 'string' ? await fs.readFile(pdf) : Buffer.from(pdf);
+  const placeholders: Placeholder[] = [];
 
-  while ((match = pageObjRegex.exec(rawContent)) !== null) {
-    const objNum = parseInt(match[1]);
-    const dictContent = match[2];
+  // Find ALL tag locations with their positions
+  const tagLocations = await findTagLocations(pdfBytes);
 
-    // Check if this is a Page object
-    const hasMediaBox = dictContent.includes('/MediaBox') || dictContent.includes('/CropBox');
-    const isTypePage = dictContent.includes('/Type') && dictContent.includes('/Page') && !dictContent.includes('/Pages');
-    const hasParent = dictContent.includes('/Parent');
-    const hasContents = dictContent.includes('/Contents');
+  console.log(`[PDF] Creating placeholders for ${tagLocations.length} tag positions`);
 
-    if ((hasMediaBox || isTypePage || hasParent) && hasContents) {
-      const pageMappings = new Map<string, number>();
+  // Create a placeholder for EACH tag location
+  for (const loc of tagLocations) {
+    const parsed = parseTag(loc.tag);
+    if (!parsed || (needsOptions(parsed.type) && !parsed.options)) {
+      console.log(`[PDF] Could not parse tag: ${loc.tag.substring(0, 50)}`);
+      continue;
+    }
 
-      // Try inline Resources with XObject
-      let xobjects = extractXObjects(dictContent);
-      for (const [name, num] of xobjects) {
-        pageMappings.set(name, num);
-      }
+    placeholders.push({
+      type: parsed.type,
+      role: parsed.role,
+      fieldName: parsed.fieldName,
+      options: parsed.options,
+      originalTag: loc.tag,
+      pageNumber: loc.pageIndex + 1,
+      x: loc.x,
+      y: loc.y,
+      tagBounds: loc.bounds,
+      ...TAG_FIELD_SIZES[parsed.type],
+    });
+  }
 
-      // Check if Resources is a reference
-      const resourcesRefMatch = dictContent.match(/\/Resources\s+(\d+)\s+0\s+R/);
-      if (resourcesRefMatch) {
-        const resourcesObjNum = parseInt(resourcesRefMatch[1]);
-        const resourcesDict = findObjDict(resourcesObjNum);
-        if (resourcesDict) {
-          xobjects = extractXObjects(resourcesDict);
-          for (const [name, num] of xobjects) {
-            pageMappings.set(name, num);
-          }
+  // AcroForm fields named like tags, or assigned a role by an admin
+  placeholders.push(...getFormFieldPlaceholders(await findFormFields(pdfBytes), formFieldMapping));
 
-          // XObject might also be a reference inside Resources
-          const xobjRefMatch = resourcesDict.match(/\/XObject\s+(\d+)\s+0\s+R/);
-          if (xobjRefMatch) {
-            const xobjObjNum = parseInt(xobjRefMatch[1]);
-            const xobjDict = findObjDict(xobjObjNum);
-            if (xobjDict) {
-              const entryRegex = /\/(\w+)\s+(\d+)\s+0\s+R/g;
-              let entryMatch;
-              while ((entryMatch = entryRegex.exec(xobjDict)) !== null) {
-                pageMappings.set(entryMatch[1], parseInt(entryMatch[2]));
-              }
-            }
-          }
-        }
-      }
+  console.log(`[PDF] Created ${placeholders.length} placeholders${typeof pdf === 'string' ? ` from ${pdf}` : ''}`);
 
-      if (pageMappings.size > 0) {
-        perPageMappings.set(objNum, pageMappings);
-        console.log(`[PDF] Page obj ${objNum}: Found ${pageMappings.size} XObject mappings`);
-      }
-    }
+  // Summary by type
+  const typeCounts = new Map<string, number>();
+  for (const p of placeholders) {
+    const key = `${p.type}:${p.fieldName || p.role}`;
+    typeCounts.set(key, (typeCounts.get(key) || 0) + 1);
+  }
+  for (const [key, count] of typeCounts.entries()) {
+    console.log(`  - ${key}: ${count} positions`);
   }
 
-  return perPageMappings;
+  return placeholders;
 }
 
 /**
- * Find XObject name to object number mappings in all resource dictionaries.
- * Returns ALL mappings (same name can map to different objects in different dictionaries).
+ * Get unique roles from placeholders
  */
-function findXObjectMappings(rawContent: string): Map<string, number[]> {
-  const mappings = new Map<string, number[]>();
-
-  // Look for /XObject << /Name N 0 R ... >> patterns
-  const xobjRegex = /\/XObject\s*<<([^>]+)>>/g;
-  let match;
-
-  while ((match = xobjRegex.exec(rawContent)) !== null) {
-    const dictContent = match[1];
-    const entryRegex = /\/(\w+)\s+(\d+)\s+0\s+R/g;
-    let entryMatch;
-    while ((entryMatch = entryRegex.exec(dictContent)) !== null) {
-      const name = entryMatch[1];
-      const objNum = parseInt(entryMatch[2]);
-      const existing = mappings.get(name) || [];
-      if (!existing.includes(objNum)) {
-        existing.push(objNum);
-        mappings.set(name, existing);
-      }
+export function getUniqueRoles(placeholders: Placeholder[]): string[] {
+  const roles = new Set<string>();
+  for (const p of placeholders) {
+    if (p.type !== 'TEXT' || p.role !== 'any') {
+      roles.add(p.role);
     }
   }
-
-  return mappings;
+  return Array.from(roles);
 }
 
 /**
- * Find where Form XObjects are placed on pages by looking for transformation + Do patterns.
- * The cm operator provides the x,y position where the XObject is drawn.
- *
- * Strategy: Since XObject names can map to different objects in different dictionaries,
- * we need to figure out which dictionary is active for each page. We do this by:
- * 1. Finding all XObject dictionaries in the PDF
- * 2. For each page's content stream, checking which dictionary's objects are being used
- * 3. Using that dictionary's mappings for that page
+ * Roles that own at least one SIGNATURE placeholder
  */
-function findXObjectPlacements(
-  rawContent: string,
-  pageObjToIndex: Map<number, number>,
-  streamToPageObj: Map<number, number>,
-  perPageMappings: Map<number, Map<string, number>>,
-  globalXobjectMap: Map<string, number[]>
-): Map<number, { pageIndex: number; x: number; y: number }> {
-  const placements = new Map<number, { pageIndex: number; x: number; y: number }>();
-
-  // First, build a list of all XObject dictionaries (each mapping name->objNum)
-  const allXobjectDicts: Map<string, number>[] = [];
-  const xobjDictRegex = /\/XObject\s*<<([^>]+)>>/g;
-  let dictMatch;
-  while ((dictMatch = xobjDictRegex.exec(rawContent)) !== null) {
-    const dictContent = dictMatch[1];
-    const dictMap = new Map<string, number>();
-    const entryRegex = /\/(\w+)\s+(\d+)\s+0\s+R/g;
-    let entryMatch;
-    while ((entryMatch = entryRegex.exec(dictContent)) !== null) {
-      dictMap.set(entryMatch[1], parseInt(entryMatch[2]));
-    }
-    if (dictMap.size > 0) {
-      allXobjectDicts.push(dictMap);
-    }
-  }
-
-  console.log(`[PDF] Found ${allXobjectDicts.length} XObject dictionaries`);
-
-  // Process each page's content stream
-  for (const [contentObjNum, pageObjNum] of streamToPageObj.entries()) {
-    const pageIndex = pageObjToIndex.get(pageObjNum) ?? 0;
+export function getSignatureRoles(placeholders: Placeholder[]): string[] {
+  return Array.from(new Set(placeholders.filter(p => p.type === 'SIGNATURE').map(p => p.role)));
+}
 
-    // Find this content stream
-    const objRegex = new RegExp(`${contentObjNum}\\s+0\\s+obj[\\s\\S]*?stream\\r?\\n([\\s\\S]*?)endstream`);
-    const objMatch = rawContent.match(objRegex);
-    if (!objMatch) continue;
+export interface RoleMappingIssue {
+  recipientIndex?: number;
+  role: string;
+  message: string;
+}
 
-    let streamContent: string;
-    try {
-      const buf = Buffer.from(objMatch[1], 'latin1');
-      streamContent = zlib.inflateSync(buf).toString('latin1');
-    } catch {
-      streamContent = objMatch[1];
-    }
+/**
+ * Check recipients against a document's placeholders: every role must exist
+ * in the document and every SIGNATURE role needs exactly one recipient.
+ */
+export function checkRoleMapping(
+  placeholders: Placeholder[],
+  recipients: Array<{ roleName: string }>
+): RoleMappingIssue[] {
+  const roles = getUniqueRoles(placeholders);
+  const signatureRoles = getSignatureRoles(placeholders);
+  const issues: RoleMappingIssue[] = [];
+
+  if (signatureRoles.length === 0) {
+    return [{ role: '', message: 'No signature placeholders were detected in the document' }];
+  }
 
-    // Find all Do operators in this stream
-    const doPatterns = [
-      /([\d.+-]+)\s+([\d.+-]+)\s+([\d.+-]+)\s+([\d.+-]+)\s+([\d.+-]+)\s+([\d.+-]+)\s+cm\s*\/(\w+)\s+Do/g,
-      /q\s+([\d.+-]+)\s+([\d.+-]+)\s+([\d.+-]+)\s+([\d.+-]+)\s+([\d.+-]+)\s+([\d.+-]+)\s+cm\s*\/(\w+)\s+Do/g,
-    ];
-
-    // Collect all Do operators with their positions and names
-    const doOperators: Array<{ x: number; y: number; name: string }> = [];
-    for (const pattern of doPatterns) {
-      let doMatch;
-      while ((doMatch = pattern.exec(streamContent)) !== null) {
-        doOperators.push({
-          x: parseFloat(doMatch[5]),
-          y: parseFloat(doMatch[6]),
-          name: doMatch[7],
-        });
-      }
+  recipients.forEach((recipient, index) => {
+    if (!roles.includes(recipient.roleName)) {
+      issues.push({
+        recipientIndex: index,
+        role: recipient.roleName,
+        message: `Role "${recipient.roleName}" does not match a placeholder in the document (expected one of: ${roles.join(', ')})`,
+      });
     }
+  });
 
-    // For each Do operator, find which XObject dictionary has this name
-    // and assign the position to that dictionary's object
-    for (const op of doOperators) {
-      // Try each XObject dictionary
-      for (const dict of allXobjectDicts) {
-        const objNum = dict.get(op.name);
-        if (objNum !== undefined && !placements.has(objNum)) {
-          placements.set(objNum, { pageIndex, x: op.x, y: op.y });
-        }
-      }
+  for (const role of signatureRoles) {
+    const count = recipients.filter(r => r.roleName === role).length;
+    if (count === 0) {
+      issues.push({ role, message: `No recipient is assigned to signature role "${role}"` });
+    } else if (count > 1) {
+      issues.push({ role, message: `Signature role "${role}" is assigned to ${count} recipients; it needs exactly one` });
     }
   }
 
-  return placements;
+  return issues;
 }
 
 /**
- * Build a map from page object number to page index, and stream object to page object.
+ * A field placed on a page in the editor rather than found from a tag.
+ * Coordinates are PDF points from the bottom-left of the page, like the
+ * placeholders the tag parser produces.
  */
-function buildPageMaps(rawContent: string): {
-  pageObjToIndex: Map<number, number>;
-  streamToPageObj: Map<number, number>;
-  streamToPageIndex: Map<number, number>;
-} {
-  const pageObjToIndex = new Map<number, number>();
-  const streamToPageObj = new Map<number, number>();
-  const streamToPageIndex = new Map<number, number>();
-
-  const pageObjects: Array<{ objNum: number; contentsRefs: number[] }> = [];
-
-  const objRegex = /(\d+)\s+0\s+obj\s*<<([\s\S]*?)>>/g;
-  let match;
+const fieldOptionsSchema = z.array(z.string().trim().min(1).max(200)).min(1).max(100);
+
+export const placedFieldSchema = z.object({
+  type: z.enum(PLACEHOLDER_TYPES),
+  role: z.string().trim().min(1).max(100),
+  fieldName: z.string().trim().min(1).max(100).optional(),
+  options: fieldOptionsSchema.optional(),
+  pageNumber: z.number().int().min(1),
+  x: z.number().min(0),
+  y: z.number().min(0),
+  width: z.number().min(10),
+  height: z.number().min(10),
+}).refine(
+  field => !needsFieldName(field.type) || field.fieldName,
+  { message: 'Only signature, initials and date fields can leave out a field name', path: ['fieldName'] }
+).refine(
+  field => !needsOptions(field.type) || field.options,
+  { message: 'Radio and select fields need options', path: ['options'] }
+);
+
+export type PlacedField = z.infer<typeof placedFieldSchema>;
 
-  while ((match = objRegex.exec(rawContent)) !== null) {
-    const objNum = parseInt(match[1]);
-    const dictContent = match[2];
-
-    const hasContents = dictContent.includes('/Contents');
-    const hasMediaBox = dictContent.includes('/MediaBox') || dictContent.includes('/CropBox');
-    const isTypePage = dictContent.includes('/Type') && dictContent.includes('/Page') && !dictContent.includes('/Pages');
-    const hasParent = dictContent.includes('/Parent');
-
-    if (hasContents && (hasMediaBox || isTypePage || hasParent)) {
-      const contentsRefs: number[] = [];
-
-      const singleRef = dictContent.match(/\/Contents\s+(\d+)\s+0\s+R/);
-      if (singleRef) contentsRefs.push(parseInt(singleRef[1]));
+/**
+ * Placed fields are stored with an empty originalTag, since there is no
+ * tag in the document to replace
+ */
+export function isPlacedField(placeholder: Placeholder): boolean {
+  return placeholder.originalTag === '';
+}
 
-      const arrayRef = dictContent.match(/\/Contents\s*\[([\s\S]*?)\]/);
-      if (arrayRef) {
-        const refs = arrayRef[1].match(/(\d+)\s+0\s+R/g);
-        if (refs) {
-          for (const ref of refs) {
-            contentsRefs.push(parseInt(ref));
-          }
-        }
-      }
+/**
+ * Swap a document's placed fields for new ones, keeping the placeholders
+ * detected from tags
+ */
+export function mergePlacedFields(placeholders: Placeholder[], fields: PlacedField[]): Placeholder[] {
+  return [
+    ...placeholders.filter(p => !isPlacedField(p)),
+    ...fields.map(field => ({
+      ...field,
+      fieldName: needsFieldName(field.type) ? field.fieldName : undefined,
+      options: needsOptions(field.type) ? field.options : undefined,
+      originalTag: '',
+    })),
+  ];
+}
 
-      if (contentsRefs.length > 0) {
-        pageObjects.push({ objNum, contentsRefs });
-      }
+/**
+ * Check placed fields against the PDF: each must be on a page that exists
+ * and fit inside it
+ */
+export async function checkPlacedFields(pdf: Uint8Array, fields: PlacedField[]): Promise<string[]> {
+  const pages = (await PDFDocument.load(pdf, { ignoreEncryption: true })).getPages();
+  const issues: string[] = [];
+
+  fields.forEach((field, index) => {
+    const page = pages[field.pageNumber - 1];
+    if (!page) {
+      issues.push(`Field ${index + 1} is on page ${field.pageNumber}, but the document has ${pages.length} pages`);
+      return;
     }
-  }
-
-  pageObjects.sort((a, b) => a.objNum - b.objNum);
 
-  pageObjects.forEach((page, pageIndex) => {
-    pageObjToIndex.set(page.objNum, pageIndex);
-    for (const contentRef of page.contentsRefs) {
-      streamToPageObj.set(contentRef, page.objNum);
-      streamToPageIndex.set(contentRef, pageIndex);
+    const { width, height } = page.getSize();
+    if (field.x + field.width > width + 1 || field.y + field.height > height + 1) {
+      issues.push(`Field ${index + 1} runs off page ${field.pageNumber}`);
     }
   });
 
-  return { pageObjToIndex, streamToPageObj, streamToPageIndex };
+  return issues;
 }
 
 /**
- * Find ALL tag locations in the PDF by parsing content streams.
- * IMPORTANT: Returns ALL positions for each tag, not just one.
- * Tags can appear multiple times and need to be stamped at ALL positions.
+ * An AcroForm field widget in the PDF. A field shown in several places has
+ * one entry per widget, each with its own rectangle.
  */
-async function findTagLocations(pdfBytes: Buffer): Promise<TagLocation[]> {
-  const rawContent = pdfBytes.toString('latin1');
-  const locations: TagLocation[] = [];
-
-  const tagPatterns = [
-    /\{\{\*?[^}]+_es_:[^}]*\}\}/,
-    /\[\[(SIGNATURE|DATE|TEXT):[^\]]+\]\]/,
-  ];
-
-  // Build page mappings
-  const { pageObjToIndex, streamToPageObj, streamToPageIndex } = buildPageMaps(rawContent);
-  console.log(`[PDF] Found ${pageObjToIndex.size} pages`);
-
-  // Build per-page XObject mappings (properly scoped)
-  const perPageMappings = findXObjectMappingsPerPage(rawContent);
-  console.log(`[PDF] Found XObject mappings for ${perPageMappings.size} pages`);
-
-  // Also get global mappings as fallback
-  const globalXobjectMap = findXObjectMappings(rawContent);
-  console.log(`[PDF] Found ${globalXobjectMap.size} global XObject mappings`);
-
-  // Find where each XObject is placed on pages (using scoped mappings)
-  const xobjectPlacements = findXObjectPlacements(
-    rawContent,
-    pageObjToIndex,
-    streamToPageObj,
-    perPageMappings,
-    globalXobjectMap
-  );
-  console.log(`[PDF] Found ${xobjectPlacements.size} XObject placements`);
-
-  // Find all streams containing tags
-  const objStreamRegex = /(\d+)\s+0\s+obj[\s\S]*?stream\r?\n([\s\S]*?)endstream/g;
-  let match;
-
-  while ((match = objStreamRegex.exec(rawContent)) !== null) {
-    const objNum = parseInt(match[1]);
-    const streamData = match[2];
-
-    try {
-      if (streamData.length > 500000) continue;
+export interface FormField {
+  name: string;
+  kind: 'signature' | 'text' | 'checkbox' | 'radio' | 'choice' | 'button';
+  pageNumber: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Export values of radio groups and the choices in lists
+  options?: string[];
+}
 
-      const streamBuffer = Buffer.from(streamData, 'latin1');
-      let decompressedText: string;
+/**
+ * Placeholders an admin assigned to form fields, keyed by full field name.
+ * Fields other than signatures and dates fill the value named fieldName,
+ * which defaults to the form field's own name. RADIO and SELECT use the
+ * form field's own options unless the mapping lists some.
+ */
+export const formFieldMappingSchema = z.record(
+  z.string().min(1),
+  z.object({
+    type: z.enum(PLACEHOLDER_TYPES),
+    role: z.string().trim().min(1).max(100),
+    fieldName: z.string().trim().min(1).max(100).optional(),
+    options: fieldOptionsSchema.optional(),
+  })
+);
+
+export type FormFieldMapping = z.infer<typeof formFieldMappingSchema>;
 
-      try {
-        const decompressed = zlib.inflateSync(streamBuffer);
-        decompressedText = decompressed.toString('latin1');
-      } catch {
-        decompressedText = streamData;
-      }
+/**
+ * Form-field placeholders fill an AcroForm field rather than a tag or a
+ * placed box
+ */
+export function isFormField(placeholder: Placeholder): boolean {
+  return !!placeholder.formField;
+}
 
-      // Find all tags in this stream
-      const foundTags: string[] = [];
-      for (const pattern of tagPatterns) {
-        const matches = decompressedText.match(pattern);
-        if (matches) foundTags.push(...matches);
-      }
+function getFormFieldKind(field: PDFField): FormField['kind'] {
+  if (field instanceof PDFSignature) return 'signature';
+  if (field instanceof PDFTextField) return 'text';
+  if (field instanceof PDFCheckBox) return 'checkbox';
+  if (field instanceof PDFRadioGroup) return 'radio';
+  if (field instanceof PDFDropdown || field instanceof PDFOptionList) return 'choice';
+  return 'button';
+}
 
-      if (foundTags.length === 0) continue;
-
-      // Determine position based on whether this is a page content or XObject
-      let pageIndex = 0;
-      let baseX = 0;
-      let baseY = 0;
-      let hasValidPosition = false;
-
-      if (streamToPageIndex.has(objNum)) {
-        // This is a page content stream - use positions from Tm/cm in the stream
-        pageIndex = streamToPageIndex.get(objNum)!;
-        const tagResults = extractTagPositionsFromStream(decompressedText, tagPatterns);
-        for (const result of tagResults) {
-          baseX = result.x;
-          baseY = result.y;
-          hasValidPosition = (baseX > 20 || baseY > 50);
-          break;
-        }
-      } else {
-        // This is likely a Form XObject - get placement from our map
-        const placement = xobjectPlacements.get(objNum);
-        if (placement) {
-          pageIndex = placement.pageIndex;
-          baseX = placement.x;
-          baseY = placement.y;
-          hasValidPosition = (baseX > 20 || baseY > 50);
-          console.log(`[PDF] XObject ${objNum} at page ${pageIndex + 1}, (${baseX.toFixed(1)}, ${baseY.toFixed(1)})`);
-        }
-      }
+function getFormFieldOptions(field: PDFField): string[] | undefined {
+  if (field instanceof PDFRadioGroup || field instanceof PDFDropdown || field instanceof PDFOptionList) {
+    const options = field.getOptions();
+    return options.length ? options : undefined;
+  }
+  return undefined;
+}
 
-      // Skip positions that are clearly invalid (0,0 or near origin)
-      if (!hasValidPosition) {
-        console.log(`[PDF] Skipping stream ${objNum} - invalid position (${baseX.toFixed(1)}, ${baseY.toFixed(1)})`);
+/**
+ * List the AcroForm field widgets in a PDF, with their page and rectangle
+ */
+export async function findFormFields(pdf: Uint8Array): Promise<FormField[]> {
+  const pdfDoc = await PDFDocument.load(pdf, { ignoreEncryption: true });
+  if (!pdfDoc.catalog.getAcroForm()) return [];
+
+  const pages = pdfDoc.getPages();
+  const formFields: FormField[] = [];
+
+  for (const field of pdfDoc.getForm().getFields()) {
+    for (const widget of field.acroField.getWidgets()) {
+      // Widgets do not always point back to their page
+      const widgetRef = pdfDoc.context.getObjectRef(widget.dict);
+      const pageRef = widget.P() ?? (widgetRef && pdfDoc.findPageForAnnotationRef(widgetRef)?.ref);
+      const pageIndex = pages.findIndex(page => page.ref === pageRef);
+      if (pageIndex === -1) {
+        console.log(`[PDF] Skipping widget of form field "${field.getName()}" - page not found`);
         continue;
       }
 
-      // Add ALL tags with their positions - NO deduplication!
-      // Each tag instance at each position gets added
-      for (const tag of foundTags) {
-        locations.push({
-          tag,
-          pageIndex,
-          x: baseX,
-          y: baseY,
-          streamIndex: objNum,
-        });
-      }
-    } catch (err) {
-      console.error(`[PDF] Error processing stream ${objNum}:`, err);
+      formFields.push({
+        name: field.getName(),
+        kind: getFormFieldKind(field),
+        pageNumber: pageIndex + 1,
+        ...widget.getRectangle(),
+        options: getFormFieldOptions(field),
+      });
     }
   }
 
-  console.log(`[PDF] Found ${locations.length} total tag positions`);
-
-  // Group by tag for summary
-  const tagCounts = new Map<string, number>();
-  for (const loc of locations) {
-    const shortTag = loc.tag.substring(0, 30);
-    tagCounts.set(shortTag, (tagCounts.get(shortTag) || 0) + 1);
-  }
-  for (const [tag, count] of tagCounts.entries()) {
-    console.log(`  - "${tag}...": ${count} positions`);
-  }
-
-  return locations;
+  console.log(`[PDF] Found ${formFields.length} form field widgets`);
+  return formFields;
 }
 
 /**
- * Parse PDF and extract placeholder tags with their positions.
- * IMPORTANT: Creates a placeholder for EACH tag position found.
- * Tags that appear multiple times will have multiple placeholders.
+ * Read a form field's name as a tag without its brackets, for example
+ * "Sig_es_:employee:signature", "Title_es_:employee" or "SIGNATURE:employee".
+ * "TEXT:..." names carry no role, so those fields need a mapping.
  */
-export async function parseTemplatePlaceholders(pdfPath: string): Promise<Placeholder[]> {
-  const pdfBytes = await fs.readFile(pdfPath);
-  const placeholders: Placeholder[] = [];
-
-  // Find ALL tag locations with their positions
-  const tagLocations = await findTagLocations(pdfBytes);
+function parseFormFieldName(name: string): ReturnType<typeof parseTag> {
+  const shortName = name.split('.').pop()!;
+  if (shortName.includes('_es_')) return parseTag(`{{${shortName}}}`);
 
-  console.log(`[PDF] Creating placeholders for ${tagLocations.length} tag positions`);
-
-  // Helper to parse tag and determine type/role/fieldName
-  const parseTag = (tag: string): { type: 'SIGNATURE' | 'DATE' | 'TEXT', role: string, fieldName?: string } | null => {
-    // Custom format: [[TYPE:identifier]]
-    const customMatch = tag.match(/\[\[(SIGNATURE|DATE|TEXT):([^\]]+)\]\]/);
-    if (customMatch) {
-      const type = customMatch[1] as 'SIGNATURE' | 'DATE' | 'TEXT';
-      return {
-        type,
-        role: type === 'TEXT' ? 'signer' : customMatch[2],
-        fieldName: type === 'TEXT' ? customMatch[2] : undefined,
-      };
-    }
-
-    // Adobe Sign signature: {{Sig_es_:signer1:signature}}
-    const sigMatch = tag.match(/\{\{\*?Sig\d*_es_:(\w+):signature\}\}/);
-    if (sigMatch) {
-      return { type: 'SIGNATURE', role: sigMatch[1] };
-    }
+  const parsed = parseTag(`[[${shortName}]]`);
+  return parsed?.type === 'TEXT' ? null : parsed;
+}
 
-    // Adobe Sign date: {{*Dte1_es_:date}} or {{*Date_es_:signer}}
-    const dateMatch = tag.match(/\{\{\*?(?:Date\w*|Dte\d*)_es_:(\w+)?(?::date)?\}\}/);
-    if (dateMatch && (tag.toLowerCase().includes('date') || tag.toLowerCase().includes('dte'))) {
-      const role = dateMatch[1] && dateMatch[1] !== 'date' ? dateMatch[1] : 'signer';
-      const fieldNameMatch = tag.match(/\{\{\*?(\w+)_es_/);
-      return {
-        type: 'DATE',
-        role,
-        fieldName: fieldNameMatch ? fieldNameMatch[1] : 'Date',
-      };
-    }
+function getFormFieldPlaceholders(formFields: FormField[], mapping: FormFieldMapping): Placeholder[] {
+  const placeholders: Placeholder[] = [];
 
-    // Adobe Sign initials: {{Int_es_:signer1:initials}}
-    const initMatch = tag.match(/\{\{\*?Int\d*_es_:(\w+)(?::initials)?\}\}/i);
-    if (initMatch) {
-      return { type: 'TEXT', role: initMatch[1], fieldName: 'Int' };
-    }
+  for (const field of formFields) {
+    const assigned = mapping[field.name];
+    const parsed = assigned
+      ? {
+          ...assigned,
+          fieldName: needsFieldName(assigned.type) ? assigned.fieldName || field.name : assigned.fieldName,
+        }
+      : parseFormFieldName(field.name);
 
-    // Adobe Sign text fields: {{*Lic#_es_:signer}}
-    const textMatch = tag.match(/\{\{\*?([^_]+)_es_:(\w+)(?::[^}]*)?\}\}/);
-    if (textMatch) {
-      const fieldName = textMatch[1];
-      const role = textMatch[2];
-      // Skip if it's actually a signature or date
-      if (tag.includes(':signature') || tag.includes(':date')) return null;
-      if (fieldName.startsWith('Sig') || fieldName.startsWith('Date') || fieldName.startsWith('Dte')) return null;
-      return { type: 'TEXT', role, fieldName };
+    if (!parsed) {
+      console.log(`[PDF] Form field "${field.name}" has no role - map it to use it`);
+      continue;
     }
 
-    return null;
-  };
-
-  // Create a placeholder for EACH tag location
-  for (const loc of tagLocations) {
-    const parsed = parseTag(loc.tag);
-    if (!parsed) {
-      console.log(`[PDF] Could not parse tag: ${loc.tag.substring(0, 50)}`);
+    const options = needsOptions(parsed.type) ? parsed.options || field.options : undefined;
+    if (needsOptions(parsed.type) && !options) {
+      console.log(`[PDF] Form field "${field.name}" has no options for ${parsed.type}`);
       continue;
     }
 
@@ -647,47 +524,93 @@ export async function parseTemplatePlaceholders(pdfPath: string): Promise<Placeh
       type: parsed.type,
       role: parsed.role,
       fieldName: parsed.fieldName,
-      originalTag: loc.tag,
-      pageNumber: loc.pageIndex + 1,
-      x: loc.x,
-      y: loc.y,
-      width: parsed.type === 'SIGNATURE' ? 200 : parsed.type === 'DATE' ? 100 : 150,
-      height: parsed.type === 'SIGNATURE' ? 50 : 20,
+      options,
+      originalTag: field.name,
+      formField: field.name,
+      pageNumber: field.pageNumber,
+      x: field.x,
+      y: field.y,
+      width: field.width,
+      height: field.height,
     });
   }
 
-  console.log(`[PDF] Created ${placeholders.length} placeholders from ${pdfPath}`);
+  return placeholders;
+}
 
-  // Summary by type
-  const typeCounts = new Map<string, number>();
-  for (const p of placeholders) {
-    const key = `${p.type}:${p.fieldName || p.role}`;
-    typeCounts.set(key, (typeCounts.get(key) || 0) + 1);
-  }
-  for (const [key, count] of typeCounts.entries()) {
-    console.log(`  - ${key}: ${count} positions`);
+/**
+ * Check a form field mapping against the PDF's fields
+ */
+export function checkFormFieldMapping(formFields: FormField[], mapping: FormFieldMapping): string[] {
+  const issues: string[] = [];
+
+  for (const [name, assigned] of Object.entries(mapping)) {
+    const field = formFields.find(f => f.name === name);
+    if (!field) {
+      issues.push(`The document has no form field named "${name}"`);
+    } else if (needsOptions(assigned.type) && !assigned.options && !field.options) {
+      issues.push(`Form field "${name}" has no options of its own, so list the options to use it as ${assigned.type}`);
+    }
   }
 
-  return placeholders;
+  return issues;
 }
 
 /**
- * Get unique roles from placeholders
+ * Swap a document's form-field placeholders for ones built from a new
+ * mapping, keeping tags and placed fields
  */
-export function getUniqueRoles(placeholders: Placeholder[]): string[] {
-  const roles = new Set<string>();
+export function mergeFormFields(
+  placeholders: Placeholder[],
+  formFields: FormField[],
+  mapping: FormFieldMapping
+): Placeholder[] {
+  return [
+    ...placeholders.filter(p => !isFormField(p)),
+    ...getFormFieldPlaceholders(formFields, mapping),
+  ];
+}
+
+/**
+ * Schema for the values a signer submits for the fields they were shown.
+ * Checkboxes send "true" or "false", numbers must parse, and radio and
+ * select values must be one of the field's options. Fields may be left empty.
+ */
+export function fieldValuesSchema(placeholders: Placeholder[]) {
+  const shape: Record<string, z.ZodTypeAny> = {};
+
   for (const p of placeholders) {
-    if (p.type !== 'TEXT' || p.role !== 'any') {
-      roles.add(p.role);
+    if (!p.fieldName) continue;
+
+    if (p.type === 'CHECKBOX') {
+      shape[p.fieldName] = z.enum(['true', 'false']).optional();
+    } else if (p.type === 'NUMBER') {
+      shape[p.fieldName] = z.string().trim()
+        .refine(v => v === '' || Number.isFinite(Number(v)), `${p.fieldName} must be a number`)
+        .optional();
+    } else if (needsOptions(p.type)) {
+      const options = p.options || [];
+      shape[p.fieldName] = z.string()
+        .refine(v => v === '' || options.includes(v), `${p.fieldName} must be one of: ${options.join(', ')}`)
+        .optional();
     }
   }
-  return Array.from(roles);
+
+  return z.object(shape).passthrough();
 }
 
+// How values are put onto the document when a packet is completed
+export const STAMPING_MODES = ['in_place', 'overlay'] as const;
+
+export type StampingMode = typeof STAMPING_MODES[number];
+
 interface SignatureData {
   signatureImage?: string;
   typedName: string;
   signatureType: 'drawn' | 'typed';
+  // Image data URL or typed initials; taken from typedName when missing
+  initials?: string;
+  initialsType?: 'drawn' | 'typed';
   textFields?: Record<string, string>;
 }
 
@@ -697,86 +620,43 @@ interface StampConfig {
   timestamp: Date;
 }
 
-/**
- * Helper to parse a tag and get its type, role, and field name.
- */
-function parseTagInfo(tag: string): { type: 'SIGNATURE' | 'DATE' | 'TEXT', role: string, fieldName?: string } | null {
-  // Adobe Sign signature: {{Sig_es_:signer1:signature}}
-  const sigMatch = tag.match(/\{\{\*?Sig\d*_es_:(\w+):signature\}\}/);
-  if (sigMatch) {
-    return { type: 'SIGNATURE', role: sigMatch[1] };
-  }
-
-  // Adobe Sign date: {{*Dte1_es_:date}} or similar
-  const dateMatch = tag.match(/\{\{\*?(?:Date\w*|Dte\d*)_es_:(\w+)?(?::date)?\}\}/);
-  if (dateMatch && (tag.toLowerCase().includes('date') || tag.toLowerCase().includes('dte'))) {
-    const role = dateMatch[1] && dateMatch[1] !== 'date' ? dateMatch[1] : 'signer';
-    const fieldNameMatch = tag.match(/\{\{\*?(\w+)_es_/);
-    return { type: 'DATE', role, fieldName: fieldNameMatch ? fieldNameMatch[1] : 'Date' };
-  }
-
-  // Adobe Sign initials: {{Int_es_:signer1:initials}}
-  const initMatch = tag.match(/\{\{\*?Int\d*_es_:(\w+)(?::initials)?\}\}/i);
-  if (initMatch) {
-    return { type: 'TEXT', role: initMatch[1], fieldName: 'Int' };
-  }
-
-  // Adobe Sign text fields: {{*Lic#_es_:signer}}
-  const textMatch = tag.match(/\{\{\*?([^_]+)_es_:(\w+)(?::[^}]*)?\}\}/);
-  if (textMatch) {
-    const fieldName = textMatch[1];
-    const role = textMatch[2];
-    if (tag.includes(':signature') || tag.includes(':date')) return null;
-    if (fieldName.startsWith('Sig') || fieldName.startsWith('Date') || fieldName.startsWith('Dte')) return null;
-    return { type: 'TEXT', role, fieldName };
-  }
-
-  // Custom format: [[TYPE:identifier]]
-  const customMatch = tag.match(/\[\[(SIGNATURE|DATE|TEXT):([^\]]+)\]\]/);
-  if (customMatch) {
-    const type = customMatch[1] as 'SIGNATURE' | 'DATE' | 'TEXT';
-    return { type, role: type === 'TEXT' ? 'signer' : customMatch[2], fieldName: type === 'TEXT' ? customMatch[2] : undefined };
-  }
-
-  return null;
-}
-
 /**
  * Replace tags in PDF content streams with actual values.
  * This replaces tags IN-PLACE, preserving the original position and transformation.
- * Values are rendered in blue color.
+ * Values are rendered in blue color. Returns the PDF and how many tags were replaced.
  */
 async function replaceTagsWithValues(
   pdfBytes: Buffer,
   valueMap: Map<string, string>
-): Promise<Buffer> {
+): Promise<{ pdf: Buffer; replacements: number }> {
   let content = pdfBytes.toString('latin1');
   let replacementsCount = 0;
 
   // Tag patterns to find
   const tagPatternSources = [
     '\\{\\{\\*?[^}]+_es_:[^}]*\\}\\}',
-    '\\[\\[(SIGNATURE|DATE|TEXT):[^\\]]+\\]\\]',
+    CUSTOM_TAG_SOURCE,
   ];
 
   // Helper to get replacement value and type for a tag
-  const getReplacementInfo = (tag: string): { value: string; type: 'SIGNATURE' | 'DATE' | 'TEXT' } | null => {
-    const info = parseTagInfo(tag);
+  const getReplacementInfo = (tag: string): { value: string; type: PlaceholderType } | null => {
+    const info = parseTag(tag);
     if (!info) return null;
 
     // Build lookup key
     let key = '';
-    if (info.type === 'SIGNATURE') {
-      key = `SIGNATURE:${info.role}`;
+    if (info.type === 'SIGNATURE' || info.type === 'INITIALS') {
+      key = `${info.type}:${info.role}`;
     } else if (info.type === 'DATE') {
       key = `DATE:${info.fieldName || 'Date'}`;
-    } else if (info.type === 'TEXT') {
+    } else {
       key = `TEXT:${info.fieldName || info.role}`;
     }
 
     const value = valueMap.get(key);
     if (value) {
-      return { value, type: info.type };
+      // Checkbox tags are blanked; the check mark is drawn over them afterwards
+      return { value: info.type === 'CHECKBOX' ? ' ' : value, type: info.type };
     }
     return null;
   };
@@ -816,8 +696,8 @@ async function replaceTagsWithValues(
             modified = true;
             replacementsCount++;
 
-            if (info.type === 'SIGNATURE') {
-              // Signature: blue color with italic slant for handwritten look
+            if (info.type === 'SIGNATURE' || info.type === 'INITIALS') {
+              // Signature and initials: blue color with italic slant for handwritten look
               // q = save state, cm applies transformation matrix (1 0 0.2 1 0 0 = italic shear)
               // The matrix [1 0 0.2 1 0 0] creates a 12-degree italic slant
               return `q 1 0 0.2 1 0 0 cm 0 0 0.8 rg (${escapePdfString(info.value)}) Tj Q 0 0 0 rg`;
@@ -877,20 +757,360 @@ async function replaceTagsWithValues(
   }
 
   console.log(`[PDF] Replaced ${replacementsCount} tags with values (styled)`);
-  return Buffer.from(result, 'latin1');
+  return { pdf: Buffer.from(result, 'latin1'), replacements: replacementsCount };
+}
+
+function parseImageDataUrl(dataUrl: string): { format: 'png' | 'jpg'; bytes: Buffer } | null {
+  const match = dataUrl.match(/^data:image\/(png|jpe?g);base64,(.+)$/);
+  if (!match) return null;
+
+  return {
+    format: match[1] === 'png' ? 'png' : 'jpg',
+    bytes: Buffer.from(match[2], 'base64'),
+  };
 }
 
 /**
- * Stamp signatures and form data onto PDF by replacing tags IN-PLACE.
- * This approach replaces the tag text directly in the content streams,
- * preserving the original position, rotation, and transformation.
+ * Decode a drawn signature data URL (as produced by SignaturePad) into image bytes.
+ * Returns null for typed signatures or data that is not a PNG/JPEG data URL.
  */
-export async function stampSignature(
-  pdfPath: string,
+function getDrawnSignatureImage(
+  signatureData: SignatureData
+): { format: 'png' | 'jpg'; bytes: Buffer } | null {
+  if (signatureData.signatureType !== 'drawn' || !signatureData.signatureImage) return null;
+  return parseImageDataUrl(signatureData.signatureImage);
+}
+
+/**
+ * Decode drawn initials (as produced by InitialsPad) into image bytes, like
+ * getDrawnSignatureImage
+ */
+function getDrawnInitialsImage(
+  signatureData: SignatureData
+): { format: 'png' | 'jpg'; bytes: Buffer } | null {
+  if (signatureData.initialsType !== 'drawn' || !signatureData.initials) return null;
+  return parseImageDataUrl(signatureData.initials);
+}
+
+/**
+ * Initials from a name: the first letter of each word, e.g. "Jane van Doe" is "JVD"
+ */
+export function getInitials(name: string): string {
+  return name
+    .trim()
+    .split(/\s+/)
+    .map(word => word.charAt(0))
+    .join('')
+    .toUpperCase()
+    .slice(0, 4);
+}
+
+/**
+ * The initials a signer's INITIALS fields show as text, or undefined when
+ * they drew them
+ */
+function getTypedInitials(signatureData: SignatureData): string | undefined {
+  if (getDrawnInitialsImage(signatureData)) return undefined;
+  return signatureData.initialsType === 'typed' && signatureData.initials?.trim()
+    ? signatureData.initials.trim()
+    : getInitials(signatureData.typedName);
+}
+
+/**
+ * Draw drawn signature and initials images at each SIGNATURE and INITIALS
+ * placeholder, scaled to fit the placeholder box while keeping the image's
+ * aspect ratio.
+ */
+async function drawSignatureImages(
+  pdfDoc: PDFDocument,
   stamps: StampConfig[],
   placeholders: Placeholder[]
+): Promise<void> {
+  const pages = pdfDoc.getPages();
+  const embedded = new Map<string, Awaited<ReturnType<PDFDocument['embedPng']>>>();
+
+  for (const placeholder of placeholders) {
+    if (placeholder.type !== 'SIGNATURE' && placeholder.type !== 'INITIALS') continue;
+
+    const stamp = stamps.find(s => s.role === placeholder.role);
+    if (!stamp) continue;
+
+    const image = placeholder.type === 'SIGNATURE'
+      ? getDrawnSignatureImage(stamp.signatureData)
+      : getDrawnInitialsImage(stamp.signatureData);
+    if (!image) continue;
+
+    const page = pages[placeholder.pageNumber - 1];
+    if (!page) {
+      console.log(`[PDF] Skipping signature image for ${placeholder.role} - page ${placeholder.pageNumber} not found`);
+      continue;
+    }
+
+    const key = `${placeholder.type}:${stamp.role}`;
+    let pdfImage = embedded.get(key);
+    if (!pdfImage) {
+      try {
+        pdfImage = image.format === 'png'
+          ? await pdfDoc.embedPng(image.bytes)
+          : await pdfDoc.embedJpg(image.bytes);
+      } catch (err) {
+        console.error(`[PDF] Failed to embed ${placeholder.type.toLowerCase()} image for ${stamp.role}:`, err);
+        continue;
+      }
+      embedded.set(key, pdfImage);
+    }
+
+    const scale = Math.min(
+      placeholder.width / pdfImage.width,
+      placeholder.height / pdfImage.height
+    );
+    const width = pdfImage.width * scale;
+    const height = pdfImage.height * scale;
+
+    page.drawImage(pdfImage, {
+      x: placeholder.x,
+      y: placeholder.y,
+      width,
+      height,
+    });
+
+    console.log(`[PDF] Drew ${placeholder.type.toLowerCase()} image for ${placeholder.role} on page ${placeholder.pageNumber} at (${placeholder.x.toFixed(1)}, ${placeholder.y.toFixed(1)})`);
+  }
+}
+
+/**
+ * The date a signer's DATE fields show: one they typed, else the day they signed
+ */
+function getStampDate(stamp: StampConfig): string {
+  return stamp.signatureData.textFields?.['Dte1']
+    || stamp.signatureData.textFields?.['Date']
+    || stamp.timestamp.toLocaleDateString('en-US');
+}
+
+/**
+ * The value a field shows once its signers are done, or undefined if there
+ * is nothing to write. Drawn signatures are images, so they have no text.
+ */
+function getFieldValue(
+  placeholder: Placeholder,
+  stamps: StampConfig[],
+  valueMap: Map<string, string>
+): string | undefined {
+  const stamp = stamps.find(s => s.role === placeholder.role);
+
+  if (placeholder.type === 'SIGNATURE') {
+    return stamp && !getDrawnSignatureImage(stamp.signatureData) ? stamp.signatureData.typedName : undefined;
+  }
+  if (placeholder.type === 'INITIALS') {
+    return stamp ? getTypedInitials(stamp.signatureData) : undefined;
+  }
+  if (placeholder.type === 'DATE') {
+    return stamp ? getStampDate(stamp) : valueMap.get(`DATE:${placeholder.fieldName || 'Date'}`);
+  }
+  return valueMap.get(`TEXT:${placeholder.fieldName || placeholder.role}`);
+}
+
+// Font size assumed for tag text when covering it in overlay mode
+const TAG_COVER_FONT_SIZE = 12;
+
+/**
+ * Paint white boxes over tag text so overlay values are not drawn on top of
+ * it. Tags found in the content carry their exact bounds; for older
+ * placeholders without them the box spans one line of text from just below
+ * the baseline.
+ */
+async function coverTags(pdfDoc: PDFDocument, placeholders: Placeholder[]): Promise<void> {
+  const pages = pdfDoc.getPages();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+
+  for (const placeholder of placeholders) {
+    const page = pages[placeholder.pageNumber - 1];
+    if (!page || isPlacedField(placeholder)) continue;
+
+    if (placeholder.tagBounds) {
+      const { x, y, width, height } = placeholder.tagBounds;
+      page.drawRectangle({ x: x - 1, y: y - 1, width: width + 2, height: height + 2, color: rgb(1, 1, 1) });
+      continue;
+    }
+
+    page.drawRectangle({
+      x: placeholder.x - 1,
+      y: placeholder.y - TAG_COVER_FONT_SIZE * 0.3,
+      width: font.widthOfTextAtSize(toWinAnsi(placeholder.originalTag), TAG_COVER_FONT_SIZE) + 2,
+      height: TAG_COVER_FONT_SIZE * 1.3,
+      color: rgb(1, 1, 1),
+    });
+  }
+}
+
+/**
+ * Draw a check mark in a checkbox's box, or on the tag's baseline
+ */
+function drawCheckMark(page: PDFPage, placeholder: Placeholder, inBox: boolean): void {
+  const size = inBox ? Math.min(placeholder.width, placeholder.height) * 0.8 : 10;
+  const x = inBox ? placeholder.x + (placeholder.width - size) / 2 : placeholder.x;
+  const y = inBox ? placeholder.y + (placeholder.height - size) / 2 : placeholder.y;
+  const corner = { x: x + size * 0.35, y: y + size * 0.1 };
+  const line = { thickness: size * 0.12, color: rgb(0, 0, 1), lineCap: LineCapStyle.Round };
+
+  page.drawLine({ start: { x, y: y + size * 0.45 }, end: corner, ...line });
+  page.drawLine({ start: corner, end: { x: x + size, y: y + size * 0.9 }, ...line });
+}
+
+/**
+ * Draw field values at their placeholder coordinates. Fields placed in the
+ * editor and form fields are filled inside their box; tag placeholders are
+ * written on the tag's baseline. Text is shrunk to fit the placeholder's width,
+ * and ticked checkboxes get a check mark.
+ */
+async function drawFieldValues(
+  pdfDoc: PDFDocument,
+  stamps: StampConfig[],
+  placeholders: Placeholder[],
+  valueMap: Map<string, string>
+): Promise<void> {
+  if (!placeholders.length) return;
+
+  const pages = pdfDoc.getPages();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const signatureFont = await pdfDoc.embedFont(StandardFonts.HelveticaOblique);
+  let drawn = 0;
+
+  for (const placeholder of placeholders) {
+    const page = pages[placeholder.pageNumber - 1];
+    if (!page) {
+      console.log(`[PDF] Skipping ${placeholder.type} for ${placeholder.role} - page ${placeholder.pageNumber} not found`);
+      continue;
+    }
+
+    const placed = isPlacedField(placeholder) || isFormField(placeholder);
+    if (placeholder.type === 'CHECKBOX') {
+      if (getFieldValue(placeholder, stamps, valueMap) === 'true') {
+        drawCheckMark(page, placeholder, placed);
+        drawn++;
+      }
+      continue;
+    }
+
+    const text = toWinAnsi(getFieldValue(placeholder, stamps, valueMap)?.trim() || '');
+    if (!text) continue;
+
+    const isSignature = placeholder.type === 'SIGNATURE' || placeholder.type === 'INITIALS';
+    const fieldFont = isSignature ? signatureFont : font;
+    const size = Math.min(
+      placed ? placeholder.height * 0.7 : isSignature ? 14 : 11,
+      isSignature ? 24 : 12,
+      (placeholder.width - 4) / fieldFont.widthOfTextAtSize(text, 1)
+    );
+
+    page.drawText(text, {
+      x: placed ? placeholder.x + 2 : placeholder.x,
+      y: placed ? placeholder.y + (placeholder.height - fieldFont.heightAtSize(size)) / 2 : placeholder.y,
+      size,
+      font: fieldFont,
+      // Same blues as tags replaced in-place
+      color: isSignature ? rgb(0, 0, 0.8) : rgb(0, 0, 1),
+    });
+    drawn++;
+  }
+
+  console.log(`[PDF] Drew ${drawn} field values at placeholder positions`);
+}
+
+/**
+ * Put a value into an AcroForm field. Returns false when the field cannot
+ * hold it: a checkbox value needs a checkbox, and radio groups and lists
+ * only take one of their options.
+ */
+function setFormFieldValue(field: PDFField, type: PlaceholderType, value: string): boolean {
+  if (field instanceof PDFCheckBox) {
+    if (type !== 'CHECKBOX') return false;
+    if (value === 'true') field.check();
+    else field.uncheck();
+    return true;
+  }
+  if (type === 'CHECKBOX') return false;
+
+  if (field instanceof PDFTextField) {
+    const maxLength = field.getMaxLength();
+    field.setText(maxLength === undefined ? value : value.slice(0, maxLength));
+    return true;
+  }
+  if (field instanceof PDFRadioGroup || field instanceof PDFDropdown || field instanceof PDFOptionList) {
+    if (!field.getOptions().includes(value)) return false;
+    field.select(value);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Fill form-field placeholders through the AcroForm. Text, checkbox, radio
+ * and list fields take their value natively and are made read-only.
+ * Signatures and initials, and values a field cannot hold, are returned to
+ * be drawn in their widget's box.
+ */
+function fillFormFields(
+  pdfDoc: PDFDocument,
+  stamps: StampConfig[],
+  placeholders: Placeholder[],
+  valueMap: Map<string, string>
+): Placeholder[] {
+  if (!placeholders.length) return [];
+
+  const form = pdfDoc.getForm();
+  const unfilled: Placeholder[] = [];
+  const filled = new Set<string>();
+
+  for (const placeholder of placeholders) {
+    const field = form.getFieldMaybe(placeholder.formField!);
+    if (placeholder.type === 'SIGNATURE' || placeholder.type === 'INITIALS' || !field) {
+      unfilled.push(placeholder);
+      continue;
+    }
+
+    // Every widget of a field shows the same value
+    if (filled.has(field.getName())) continue;
+
+    const value = toWinAnsi(getFieldValue(placeholder, stamps, valueMap)?.trim() || '');
+    if (!value) continue;
+
+    if (!setFormFieldValue(field, placeholder.type, value)) {
+      unfilled.push(placeholder);
+      continue;
+    }
+    field.enableReadOnly();
+    filled.add(field.getName());
+  }
+
+  console.log(`[PDF] Filled ${filled.size} form fields`);
+  return unfilled;
+}
+
+/**
+ * Stamp signatures and form data onto PDF.
+ *
+ * In 'in_place' mode tag text is replaced directly in the content streams,
+ * preserving the original position, rotation, and transformation. In
+ * 'overlay' mode the tags are covered and values drawn at the placeholder
+ * coordinates recorded at parse time. In-place falls back to overlay when
+ * it finds no tags it can replace.
+ *
+ * Drawn signatures and initials are embedded as images at their placeholder
+ * positions, and fields placed in the editor are always drawn at theirs, as are check
+ * marks. AcroForm fields are filled through the form where they can hold
+ * the value, and the form is flattened when flattenForm is set.
+ * Prefilled TEXT values set at packet creation win over anything a signer typed.
+ */
+export async function stampSignature(
+  pdf: string | Uint8Array,
+  stamps: StampConfig[],
+  placeholders: Placeholder[],
+  prefilledFields: Record<string, string> = {},
+  mode: StampingMode = 'in_place',
+  flattenForm = false
 ): Promise<Uint8Array> {
-  const originalPdfBytes = await fs.readFile(pdfPath);
+  const originalPdfBytes = typeof pdf === 'string' ? await fs.readFile(pdf) : Buffer.from(pdf);
 
   // Build a map of tag types to values
   const valueMap = new Map<string, string>();
@@ -898,15 +1118,17 @@ export async function stampSignature(
   for (const stamp of stamps) {
     console.log(`[PDF] Building value map for role: ${stamp.role}`);
 
-    // Signature value
-    valueMap.set(`SIGNATURE:${stamp.role}`, stamp.signatureData.typedName);
-    valueMap.set('SIGNATURE:signer', stamp.signatureData.typedName);
-    valueMap.set('SIGNATURE:signer1', stamp.signatureData.typedName);
+    // Signature value - drawn signatures blank the tag and get an image drawn over it below
+    const signatureText = getDrawnSignatureImage(stamp.signatureData)
+      ? ' '
+      : stamp.signatureData.typedName;
+    valueMap.set(`SIGNATURE:${stamp.role}`, signatureText);
+
+    // Initials value - drawn initials are handled like drawn signatures
+    valueMap.set(`INITIALS:${stamp.role}`, getTypedInitials(stamp.signatureData) ?? ' ');
 
     // Date value
-    const dateValue = stamp.signatureData.textFields?.['Dte1']
-      || stamp.signatureData.textFields?.['Date']
-      || stamp.timestamp.toLocaleDateString('en-US');
+    const dateValue = getStampDate(stamp);
     valueMap.set('DATE:Dte1', dateValue);
     valueMap.set('DATE:Date', dateValue);
     valueMap.set('DATE:date', dateValue);
@@ -919,14 +1141,63 @@ export async function stampSignature(
     }
   }
 
-  console.log('[PDF] Value map:', Object.fromEntries(valueMap));
+  for (const [fieldName, value] of Object.entries(prefilledFields)) {
+    valueMap.set(`TEXT:${fieldName}`, value);
+  }
+
+  // Values can hold sensitive data (SSNs, licence numbers), so only log the keys
+  console.log(`[PDF] Value map keys: ${Array.from(valueMap.keys()).join(', ')}`);
+
+  const tagPlaceholders = placeholders.filter(p => !isPlacedField(p) && !isFormField(p));
+  let overlay = mode === 'overlay';
+  let pdfBytes: Buffer = originalPdfBytes;
 
   // Step 1: Replace tags with values IN-PLACE
-  console.log('[PDF] Replacing tags with values in-place...');
-  const modifiedPdfBytes = await replaceTagsWithValues(originalPdfBytes, valueMap);
+  if (!overlay) {
+    console.log('[PDF] Replacing tags with values in-place...');
+    const replaced = await replaceTagsWithValues(originalPdfBytes, valueMap);
+    if (replaced.replacements === 0 && tagPlaceholders.length > 0) {
+      console.log('[PDF] No tags replaced in-place, falling back to overlay');
+      overlay = true;
+    } else {
+      pdfBytes = replaced.pdf;
+    }
+  }
+
+  // Step 2: Load the PDF, covering the tags first when overlaying
+  const pdfDoc = await PDFDocument.load(pdfBytes);
+  if (overlay) {
+    await coverTags(pdfDoc, tagPlaceholders);
+  }
 
-  // Step 2: Load the modified PDF (no footer added - just save it)
-  const pdfDoc = await PDFDocument.load(modifiedPdfBytes);
+  // Step 3: Draw any captured signature images
+  await drawSignatureImages(pdfDoc, stamps, placeholders);
+
+  // Step 4: Fill form fields through the form where it can hold the value
+  const unfilledFormFields = fillFormFields(pdfDoc, stamps, placeholders.filter(isFormField), valueMap);
+
+  // Step 5: Draw values for placed and unfilled form fields, and for tags too when
+  // overlaying. Checkbox tags are blanked in-place, so their check marks are always drawn.
+  await drawFieldValues(
+    pdfDoc,
+    stamps,
+    [
+      ...tagPlaceholders.filter(p => overlay || p.type === 'CHECKBOX'),
+      ...placeholders.filter(isPlacedField),
+      ...unfilledFormFields,
+    ],
+    valueMap
+  );
+
+  // Step 6: Flatten the form so its values become part of the page
+  if (flattenForm && pdfDoc.catalog.getAcroForm()) {
+    try {
+      pdfDoc.getForm().flatten();
+      console.log('[PDF] Flattened form fields');
+    } catch (err) {
+      console.error('[PDF] Failed to flatten form fields:', err);
+    }
+  }
 
   console.log('[PDF] Stamping complete');
 
@@ -934,24 +1205,171 @@ export async function stampSignature(
 }
 
 /**
- * Save stamped PDF to disk
+ * Save stamped PDF to storage and return its key
  */
 export async function saveStampedPdf(
   pdfBytes: Uint8Array,
   packetId: string
 ): Promise<string> {
-  const signedDir = path.join(process.cwd(), 'signed');
+  const key = storageKeys.signedFile(packetId);
+  await storage.put(key, pdfBytes);
+  return key;
+}
+
+export interface CompletionCertificate {
+  packetId: string;
+  packetName: string;
+  fileName: string;
+  originalSha256: string;
+  completedAt: Date;
+  signers: Array<{
+    name: string;
+    email: string;
+    roleName: string;
+    signatureType: string;
+    signedAt: Date | null;
+    ipAddress: string | null;
+    userAgent: string | null;
+  }>;
+  events: Array<{
+    createdAt: Date;
+    action: string;
+    details: string | null;
+    ipAddress: string | null;
+  }>;
+}
 
-  try {
-    await fs.mkdir(signedDir, { recursive: true });
-  } catch {
-    // Directory may already exist
+/**
+ * Standard fonts only encode WinAnsi, so replace anything outside Latin-1
+ */
+function toWinAnsi(text: string): string {
+  return text.replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+}
+
+/**
+ * Split text into lines that fit within maxWidth at the given font size
+ */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+
+  for (const word of toWinAnsi(text).split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    // Hard-break words longer than a full line (e.g. user agents, hashes)
+    line = word;
+    while (font.widthOfTextAtSize(line, size) > maxWidth) {
+      let cut = line.length - 1;
+      while (cut > 1 && font.widthOfTextAtSize(line.slice(0, cut), size) > maxWidth) cut--;
+      lines.push(line.slice(0, cut));
+      line = line.slice(cut);
+    }
+  }
+  if (line) lines.push(line);
+  return lines.length ? lines : [''];
+}
+
+function formatCertificateDate(date: Date): string {
+  return date.toISOString().replace('T', ' ').replace(/\.\d+Z$/, ' UTC');
+}
+
+/**
+ * Append a "Certificate of Completion" summary (signers, signing details and
+ * the audit timeline) to a stamped PDF. Adds as many pages as needed.
+ */
+export async function appendCompletionCertificate(
+  pdfBytes: Uint8Array,
+  certificate: CompletionCertificate
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(pdfBytes);
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const boldFont = await pdfDoc.embedFont(StandardFonts.HelveticaBold);
+
+  const pageSize: [number, number] = [612, 792];
+  const margin = 50;
+  const contentWidth = pageSize[0] - margin * 2;
+  const gray = rgb(0.4, 0.4, 0.4);
+
+  let page = pdfDoc.addPage(pageSize);
+  let y = pageSize[1] - margin;
+
+  const ensureSpace = (height: number) => {
+    if (y - height < margin) {
+      page = pdfDoc.addPage(pageSize);
+      y = pageSize[1] - margin;
+    }
+  };
+
+  const write = (
+    text: string,
+    options: { size?: number; bold?: boolean; color?: ReturnType<typeof rgb>; indent?: number } = {}
+  ) => {
+    const size = options.size || 10;
+    const indent = options.indent || 0;
+    const textFont = options.bold ? boldFont : font;
+    for (const line of wrapText(text, textFont, size, contentWidth - indent)) {
+      ensureSpace(size + 4);
+      page.drawText(line, {
+        x: margin + indent,
+        y: y - size,
+        size,
+        font: textFont,
+        color: options.color || rgb(0, 0, 0),
+      });
+      y -= size + 4;
+    }
+  };
+
+  const heading = (text: string) => {
+    ensureSpace(40);
+    y -= 12;
+    write(text, { size: 13, bold: true });
+    page.drawLine({
+      start: { x: margin, y: y },
+      end: { x: pageSize[0] - margin, y: y },
+      thickness: 0.5,
+      color: gray,
+    });
+    y -= 8;
+  };
+
+  write('Certificate of Completion', { size: 22, bold: true });
+  y -= 8;
+  write(`Document: ${certificate.packetName}`, { size: 11 });
+  write(`Original file: ${certificate.fileName}`, { size: 11 });
+  write(`Packet ID: ${certificate.packetId}`, { size: 11 });
+  write(`Completed: ${formatCertificateDate(certificate.completedAt)}`, { size: 11 });
+  write(`Original file SHA-256: ${certificate.originalSha256}`, { size: 9, color: gray });
+
+  heading('Signers');
+  for (const signer of certificate.signers) {
+    ensureSpace(70);
+    write(`${signer.name} <${signer.email}>`, { bold: true });
+    write(`Role: ${signer.roleName}`, { indent: 12 });
+    write(`Signing method: ${signer.signatureType === 'drawn' ? 'Drawn' : 'Typed'}`, { indent: 12 });
+    write(`Signed at: ${signer.signedAt ? formatCertificateDate(signer.signedAt) : 'N/A'}`, { indent: 12 });
+    write(`IP address: ${signer.ipAddress || 'N/A'}`, { indent: 12 });
+    write(`User agent: ${signer.userAgent || 'N/A'}`, { indent: 12, size: 8, color: gray });
+    y -= 6;
   }
 
-  const fileName = `signed_${packetId}_${Date.now()}.pdf`;
-  const filePath = path.join(signedDir, fileName);
-  await fs.writeFile(filePath, pdfBytes);
-  return filePath;
+  heading('Timeline');
+  for (const event of certificate.events) {
+    ensureSpace(30);
+    const action = event.action.charAt(0).toUpperCase() + event.action.slice(1);
+    write(`${formatCertificateDate(event.createdAt)}  ${action}`, { bold: true, size: 9 });
+    const detail = [event.details, event.ipAddress && `IP ${event.ipAddress}`].filter(Boolean).join(' - ');
+    if (detail) {
+      write(detail, { indent: 12, size: 9, color: gray });
+    }
+    y -= 2;
+  }
+
+  return pdfDoc.save();
 }
 
 /**
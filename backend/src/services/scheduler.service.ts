@@ -0,0 +1,175 @@
+import { prisma } from '../utils/prisma.js';
+import { config } from '../utils/config.js';
+import { generateSigningUrl } from '../utils/token.js';
+import { sendReminderEmail, sendExpiryNotification } from './email.service.js';
+import { createAuditLog } from './audit.service.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let running = false;
+
+/**
+ * When the next automatic reminder is due for a recipient, or null if
+ * they have had all their reminders.
+ */
+export function getNextReminderAt(
+  packet: { reminderFirstAfterDays: number; reminderIntervalDays: number; reminderMaxCount: number },
+  recipient: { notifiedAt: Date | null; reminderCount: number; lastReminderAt: Date | null }
+): Date | null {
+  if (!recipient.notifiedAt || recipient.reminderCount >= packet.reminderMaxCount) {
+    return null;
+  }
+  if (recipient.reminderCount === 0 || !recipient.lastReminderAt) {
+    return new Date(recipient.notifiedAt.getTime() + packet.reminderFirstAfterDays * DAY_MS);
+  }
+  return new Date(recipient.lastReminderAt.getTime() + packet.reminderIntervalDays * DAY_MS);
+}
+
+/**
+ * Email a reminder to every notified recipient whose reminder is due.
+ * The existing signing link is reused so earlier emails keep working.
+ */
+export async function runReminderSweep(now = new Date()): Promise<number> {
+  const recipients = await prisma.recipient.findMany({
+    where: {
+      status: 'notified',
+      tokenExpiresAt: { gt: now },
+      packet: {
+        reminderEnabled: true,
+        status: { in: ['sent', 'in_progress'] },
+      },
+    },
+    include: { packet: true },
+  });
+
+  let sent = 0;
+  for (const recipient of recipients) {
+    const dueAt = getNextReminderAt(recipient.packet, recipient);
+    if (!dueAt || dueAt > now) continue;
+
+    // Claim the reminder first so overlapping sweeps on other instances never send it twice
+    const reminderCount = recipient.reminderCount + 1;
+    const claimed = await prisma.recipient.updateMany({
+      where: {
+        id: recipient.id,
+        status: 'notified',
+        reminderCount: recipient.reminderCount,
+        lastReminderAt: recipient.lastReminderAt,
+      },
+      data: { reminderCount, lastReminderAt: now },
+    });
+    if (!claimed.count) continue;
+
+    try {
+      await sendReminderEmail(
+        recipient.email,
+        recipient.name,
+        recipient.packet.name,
+        generateSigningUrl(recipient.token),
+        recipient.tokenExpiresAt
+      );
+    } catch (err) {
+      console.error(`[Scheduler] Failed to send reminder to ${recipient.email}:`, err);
+      // Give the claim back so the next sweep retries
+      await prisma.recipient.updateMany({
+        where: { id: recipient.id, reminderCount, lastReminderAt: now },
+        data: { reminderCount: recipient.reminderCount, lastReminderAt: recipient.lastReminderAt },
+      });
+      continue;
+    }
+
+    await createAuditLog({
+      packetId: recipient.packetId,
+      recipientId: recipient.id,
+      action: 'reminded',
+      details: `Automatic reminder ${reminderCount} of ${recipient.packet.reminderMaxCount} sent to ${recipient.email}`,
+    });
+    sent++;
+  }
+
+  return sent;
+}
+
+/**
+ * Mark recipients whose signing link lapsed as expired, expire their
+ * packets and let the admin know. Resending revives the packet.
+ */
+export async function runExpirySweep(now = new Date()): Promise<number> {
+  const recipients = await prisma.recipient.findMany({
+    where: {
+      status: 'notified',
+      tokenExpiresAt: { lte: now },
+      packet: { status: { in: ['sent', 'in_progress'] } },
+    },
+    include: { packet: true },
+  });
+
+  const byPacket = new Map<string, typeof recipients>();
+  for (const r of recipients) {
+    const list = byPacket.get(r.packetId) || [];
+    list.push(r);
+    byPacket.set(r.packetId, list);
+  }
+
+  let expiredPackets = 0;
+  for (const [packetId, expired] of byPacket) {
+    // Claim the packet first so overlapping sweeps log and notify only once
+    const claimed = await prisma.signingPacket.updateMany({
+      where: { id: packetId, status: { in: ['sent', 'in_progress'] } },
+      data: { status: 'expired' },
+    });
+    if (!claimed.count) continue;
+
+    await prisma.recipient.updateMany({
+      where: { id: { in: expired.map(r => r.id) }, status: 'notified' },
+      data: { status: 'expired' },
+    });
+
+    for (const r of expired) {
+      await createAuditLog({
+        packetId,
+        recipientId: r.id,
+        action: 'expired',
+        details: `Signing link for ${r.email} expired without a signature`,
+      });
+    }
+
+    try {
+      await sendExpiryNotification(
+        config.ADMIN_EMAIL,
+        expired[0].packet.name,
+        expired.map(r => `${r.name} (${r.email})`)
+      );
+    } catch (err) {
+      console.error(`[Scheduler] Failed to send expiry notification for packet ${packetId}:`, err);
+    }
+    expiredPackets++;
+  }
+
+  return expiredPackets;
+}
+
+/**
+ * Run both sweeps on a fixed interval. Overlapping runs are skipped.
+ */
+export function startScheduler(): NodeJS.Timeout {
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const expired = await runExpirySweep();
+      const reminded = await runReminderSweep();
+      if (expired || reminded) {
+        console.log(`[Scheduler] Expired ${expired} packets, sent ${reminded} reminders`);
+      }
+    } catch (err) {
+      console.error('[Scheduler] Sweep failed:', err);
+    } finally {
+      running = false;
+    }
+  };
+
+  console.log(`[Scheduler] Running every ${config.SCHEDULER_INTERVAL_MINUTES} minutes`);
+  tick();
+  return setInterval(tick, config.SCHEDULER_INTERVAL_MINUTES * 60 * 1000);
+}
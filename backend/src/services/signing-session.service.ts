@@ -0,0 +1,84 @@
+import crypto from 'crypto';
+import { FastifyRequest } from 'fastify';
+import { prisma } from '../utils/prisma.js';
+import { config } from '../utils/config.js';
+import { sha256Hex } from '../utils/hash.js';
+import { generateSecureToken } from '../utils/token.js';
+
+export const SIGNING_SESSION_HEADER = 'x-signing-session';
+
+export interface SessionRecipient {
+  requireOtp: boolean;
+  accessCodeHash: string | null;
+  sessionHash: string | null;
+  sessionExpiresAt: Date | null;
+  sessionOtpVerified: boolean;
+}
+
+/**
+ * Clears codes, lockouts and verified sessions when a signing link is reissued.
+ * The access code itself is kept; only the admin can change it.
+ */
+export const RESET_VERIFICATION_STATE = {
+  otpCodeHash: null,
+  otpExpiresAt: null,
+  otpAttempts: 0,
+  otpLockedUntil: null,
+  accessCodeAttempts: 0,
+  accessCodeLockedUntil: null,
+  sessionHash: null,
+  sessionExpiresAt: null,
+  sessionOtpVerified: false,
+};
+
+export function isVerificationRequired(recipient: SessionRecipient): boolean {
+  return recipient.requireOtp || !!recipient.accessCodeHash;
+}
+
+/**
+ * Whether the request carries the recipient's current session token. Says
+ * nothing about which checks the session has passed.
+ */
+export function hasSessionToken(request: FastifyRequest, recipient: SessionRecipient): boolean {
+  const provided = request.headers[SIGNING_SESSION_HEADER];
+
+  if (typeof provided !== 'string' || !provided) return false;
+  if (!recipient.sessionHash || !recipient.sessionExpiresAt) return false;
+  if (recipient.sessionExpiresAt <= new Date()) return false;
+
+  const expected = Buffer.from(recipient.sessionHash, 'hex');
+  const actual = Buffer.from(sha256Hex(Buffer.from(provided)), 'hex');
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Whether the signer has passed every check required to see the document.
+ * The access code is always checked first, so an OTP-verified session implies it.
+ */
+export function hasSigningSession(request: FastifyRequest, recipient: SessionRecipient): boolean {
+  if (!isVerificationRequired(recipient)) return true;
+  if (!hasSessionToken(request, recipient)) return false;
+  return !recipient.requireOtp || recipient.sessionOtpVerified;
+}
+
+/**
+ * Issue a fresh session token, replacing any earlier one
+ */
+export async function startSigningSession(
+  recipientId: string,
+  otpVerified: boolean
+): Promise<{ sessionToken: string; expiresAt: Date }> {
+  const sessionToken = generateSecureToken();
+  const expiresAt = new Date(Date.now() + config.SIGNING_SESSION_MINUTES * 60 * 1000);
+
+  await prisma.recipient.update({
+    where: { id: recipientId },
+    data: {
+      sessionHash: sha256Hex(Buffer.from(sessionToken)),
+      sessionExpiresAt: expiresAt,
+      sessionOtpVerified: otpVerified,
+    },
+  });
+
+  return { sessionToken, expiresAt };
+}
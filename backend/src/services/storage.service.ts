@@ -0,0 +1,170 @@
+import {
+  S3Client,
+  GetObjectCommand,
+  PutObjectCommand,
+  DeleteObjectCommand,
+  HeadBucketCommand,
+} from '@aws-sdk/client-s3';
+import fs from 'fs/promises';
+import path from 'path';
+import { config } from '../utils/config.js';
+import { encryptBuffer, decryptBuffer } from './encryption.service.js';
+
+/**
+ * Where packet, template and signed PDFs live. Keys are relative paths such
+ * as `uploads/packets/<id>/<file>` or `signed/<file>`.
+ */
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, data: Uint8Array): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+  /** Throws if the backend cannot currently be written to */
+  checkHealth(): Promise<void>;
+}
+
+/**
+ * Files on local disk under a root directory
+ */
+export function createLocalStorage(root: string): StorageDriver {
+  const resolve = (key: string) => {
+    const fullPath = path.resolve(root, key);
+    if (!fullPath.startsWith(path.resolve(root) + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return fullPath;
+  };
+
+  return {
+    name: 'local',
+
+    async put(key, data) {
+      const fullPath = resolve(key);
+      await fs.mkdir(path.dirname(fullPath), { recursive: true });
+      await fs.writeFile(fullPath, data);
+    },
+
+    async get(key) {
+      return fs.readFile(resolve(key));
+    },
+
+    async delete(key) {
+      const fullPath = resolve(key);
+      await fs.rm(fullPath, { force: true });
+      // Tidy up the per-packet/per-template directory once it is empty
+      try {
+        await fs.rmdir(path.dirname(fullPath));
+      } catch {
+        // Not empty, or already gone
+      }
+    },
+
+    async checkHealth() {
+      await fs.mkdir(root, { recursive: true });
+      await fs.access(root, fs.constants.W_OK);
+    },
+  };
+}
+
+/**
+ * Files in an S3-compatible bucket (AWS S3, MinIO, ...)
+ */
+export function createS3Storage(options: {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  forcePathStyle: boolean;
+  prefix: string;
+}): StorageDriver {
+  const client = new S3Client({
+    region: options.region,
+    endpoint: options.endpoint || undefined,
+    forcePathStyle: options.forcePathStyle,
+    // Fall back to the SDK's default credential chain when no keys are configured
+    credentials: options.accessKeyId && options.secretAccessKey
+      ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+      : undefined,
+  });
+  const objectKey = (key: string) => `${options.prefix}${key}`;
+
+  return {
+    name: 's3',
+
+    async put(key, data) {
+      await client.send(new PutObjectCommand({
+        Bucket: options.bucket,
+        Key: objectKey(key),
+        Body: data,
+        ContentType: 'application/pdf',
+      }));
+    },
+
+    async get(key) {
+      const result = await client.send(new GetObjectCommand({
+        Bucket: options.bucket,
+        Key: objectKey(key),
+      }));
+      return Buffer.from(await result.Body!.transformToByteArray());
+    },
+
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({
+        Bucket: options.bucket,
+        Key: objectKey(key),
+      }));
+    },
+
+    async checkHealth() {
+      await client.send(new HeadBucketCommand({ Bucket: options.bucket }));
+    },
+  };
+}
+
+function createStorageFromConfig(): StorageDriver {
+  switch (config.STORAGE_DRIVER) {
+    case 'local':
+      return createLocalStorage(path.resolve(process.cwd(), config.STORAGE_LOCAL_ROOT));
+    case 's3':
+      if (!config.S3_BUCKET) {
+        throw new Error('S3_BUCKET is required when STORAGE_DRIVER=s3');
+      }
+      return createS3Storage({
+        bucket: config.S3_BUCKET,
+        region: config.S3_REGION,
+        endpoint: config.S3_ENDPOINT,
+        accessKeyId: config.S3_ACCESS_KEY_ID,
+        secretAccessKey: config.S3_SECRET_ACCESS_KEY,
+        forcePathStyle: config.S3_FORCE_PATH_STYLE,
+        prefix: config.S3_PREFIX,
+      });
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${config.STORAGE_DRIVER}`);
+  }
+}
+
+/**
+ * Encrypt on write and decrypt on read, so callers only ever see plaintext
+ */
+function withEncryption(driver: StorageDriver): StorageDriver {
+  return {
+    ...driver,
+    put: (key, data) => driver.put(key, encryptBuffer(data)),
+    get: async (key) => decryptBuffer(await driver.get(key)),
+  };
+}
+
+// Raw driver, for maintenance jobs that handle stored bytes directly
+export const rawStorage = createStorageFromConfig();
+
+export const storage = withEncryption(rawStorage);
+
+/**
+ * Storage keys for the files the app manages
+ */
+export const storageKeys = {
+  packetFile: (packetId: string, fileName: string) => `uploads/packets/${packetId}/${fileName}`,
+  templateFile: (templateId: string, fileName: string) => `uploads/templates/${templateId}/${fileName}`,
+  signedFile: (packetId: string) => `signed/signed_${packetId}_${Date.now()}.pdf`,
+};
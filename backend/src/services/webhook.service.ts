@@ -0,0 +1,238 @@
+import crypto from 'crypto';
+import { prisma } from '../utils/prisma.js';
+import { config } from '../utils/config.js';
+import { generateSecureToken } from '../utils/token.js';
+
+// Packet lifecycle events, named after the AuditLog actions that trigger them
+export const WEBHOOK_EVENTS = [
+  'created',
+  'sent',
+  'viewed',
+  'signed',
+  'declined',
+  'completed',
+  'cancelled',
+] as const;
+
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number];
+
+const MAX_ERROR_LENGTH = 500;
+
+let running = false;
+
+export function isWebhookEvent(action: string): action is WebhookEvent {
+  return (WEBHOOK_EVENTS as readonly string[]).includes(action);
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${generateSecureToken()}`;
+}
+
+/**
+ * Signature sent in X-AHS-Signature. Receivers recompute it over
+ * `${timestamp}.${rawBody}` and reject stale timestamps to stop replays.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return 'sha256=' + crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+/**
+ * Delay before the next attempt: base, 2x base, 4x base, ...
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return config.WEBHOOK_RETRY_BASE_SECONDS * 1000 * 2 ** Math.max(attempts - 1, 0);
+}
+
+/**
+ * Queue a delivery to every active subscription listening for this audit
+ * entry's action, and try each one straight away.
+ */
+export async function enqueueWebhookEvent(entry: {
+  id: string;
+  packetId: string;
+  recipientId: string | null;
+  action: string;
+  details: string | null;
+  createdAt: Date;
+}): Promise<void> {
+  if (!isWebhookEvent(entry.action)) return;
+
+  const subscriptions = (await prisma.webhookSubscription.findMany({ where: { isActive: true } }))
+    .filter(s => (JSON.parse(s.events) as string[]).includes(entry.action));
+
+  if (!subscriptions.length) return;
+
+  const packet = await prisma.signingPacket.findUnique({
+    where: { id: entry.packetId },
+    select: { id: true, name: true, status: true },
+  });
+  const recipient = entry.recipientId
+    ? await prisma.recipient.findUnique({
+        where: { id: entry.recipientId },
+        select: { id: true, name: true, email: true, roleName: true, status: true },
+      })
+    : null;
+
+  const payload = JSON.stringify({
+    id: entry.id,
+    event: entry.action,
+    occurredAt: entry.createdAt.toISOString(),
+    packet,
+    recipient,
+    details: entry.details,
+  });
+
+  for (const subscription of subscriptions) {
+    const delivery = await prisma.webhookDelivery.create({
+      data: {
+        subscriptionId: subscription.id,
+        event: entry.action,
+        packetId: entry.packetId,
+        payload,
+        nextAttemptAt: new Date(),
+      },
+    });
+    deliverWebhook(delivery.id).catch(err =>
+      console.error(`[Webhooks] Delivery ${delivery.id} failed:`, err)
+    );
+  }
+}
+
+/**
+ * Queue a ping so an admin can check their receiver and its signature check
+ */
+export async function sendTestWebhook(subscriptionId: string) {
+  const delivery = await prisma.webhookDelivery.create({
+    data: {
+      subscriptionId,
+      event: 'ping',
+      payload: JSON.stringify({
+        id: crypto.randomUUID(),
+        event: 'ping',
+        occurredAt: new Date().toISOString(),
+      }),
+      nextAttemptAt: new Date(),
+    },
+  });
+  return deliverWebhook(delivery.id);
+}
+
+/**
+ * Queue a finished delivery again and attempt it now. Deliveries still
+ * pending are left to the retry worker so the receiver never gets one twice.
+ */
+export async function redeliverWebhook(deliveryId: string) {
+  const requeued = await prisma.webhookDelivery.updateMany({
+    where: { id: deliveryId, status: { in: ['succeeded', 'failed'] } },
+    data: { status: 'pending', nextAttemptAt: new Date() },
+  });
+  if (!requeued.count) return null;
+
+  return deliverWebhook(deliveryId);
+}
+
+/**
+ * Make one attempt at a due delivery. The delivery is claimed first so the
+ * retry worker and an immediate attempt never post the same delivery twice.
+ */
+export async function deliverWebhook(deliveryId: string) {
+  const now = new Date();
+  const timeoutMs = config.WEBHOOK_TIMEOUT_SECONDS * 1000;
+
+  const claimed = await prisma.webhookDelivery.updateMany({
+    where: { id: deliveryId, status: 'pending', nextAttemptAt: { lte: now } },
+    data: { nextAttemptAt: new Date(now.getTime() + timeoutMs * 2) },
+  });
+  if (!claimed.count) return null;
+
+  const delivery = await prisma.webhookDelivery.findUniqueOrThrow({
+    where: { id: deliveryId },
+    include: { subscription: true },
+  });
+
+  const timestamp = Math.floor(now.getTime() / 1000);
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(delivery.subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'AHS-Signatures-Webhooks',
+        'X-AHS-Event': delivery.event,
+        'X-AHS-Delivery': delivery.id,
+        'X-AHS-Timestamp': String(timestamp),
+        'X-AHS-Signature': signWebhookPayload(delivery.subscription.secret, timestamp, delivery.payload),
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(timeoutMs),
+    });
+    responseStatus = response.status;
+    if (!response.ok) {
+      const text = await response.text().catch(() => '');
+      error = `HTTP ${response.status}${text ? `: ${text}` : ''}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const attempts = delivery.attempts + 1;
+  const succeeded = error === null;
+  const exhausted = !succeeded && attempts >= config.WEBHOOK_MAX_ATTEMPTS;
+
+  return prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      attempts,
+      status: succeeded ? 'succeeded' : exhausted ? 'failed' : 'pending',
+      lastAttemptAt: now,
+      responseStatus,
+      lastError: error ? error.slice(0, MAX_ERROR_LENGTH) : null,
+      deliveredAt: succeeded ? now : null,
+      nextAttemptAt: succeeded || exhausted ? null : new Date(now.getTime() + getRetryDelayMs(attempts)),
+    },
+  });
+}
+
+/**
+ * Attempt every pending delivery whose retry time has come
+ */
+export async function runWebhookRetrySweep(now = new Date()): Promise<number> {
+  const due = await prisma.webhookDelivery.findMany({
+    where: { status: 'pending', nextAttemptAt: { lte: now } },
+    orderBy: { nextAttemptAt: 'asc' },
+    select: { id: true },
+  });
+
+  let attempted = 0;
+  for (const { id } of due) {
+    try {
+      if (await deliverWebhook(id)) attempted++;
+    } catch (err) {
+      console.error(`[Webhooks] Delivery ${id} failed:`, err);
+    }
+  }
+
+  return attempted;
+}
+
+/**
+ * Retry failed deliveries on a fixed interval. Overlapping runs are skipped.
+ */
+export function startWebhookWorker(): NodeJS.Timeout {
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runWebhookRetrySweep();
+    } catch (err) {
+      console.error('[Webhooks] Retry sweep failed:', err);
+    } finally {
+      running = false;
+    }
+  };
+
+  tick();
+  return setInterval(tick, config.WEBHOOK_RETRY_BASE_SECONDS * 1000);
+}
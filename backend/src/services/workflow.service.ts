@@ -0,0 +1,143 @@
+import { prisma } from '../utils/prisma.js';
+import { generateSecureToken, getTokenExpiryDate, generateSigningUrl } from '../utils/token.js';
+import { sendSigningRequest } from './email.service.js';
+import { createAuditLog } from './audit.service.js';
+import { RESET_VERIFICATION_STATE } from './signing-session.service.js';
+
+interface StagedRecipient {
+  id: string;
+  order: number;
+  status: string;
+}
+
+/**
+ * Group recipients into signing stages. Recipients that share an `order`
+ * value form one parallel stage; stages are returned in ascending order.
+ */
+export function getSigningStages<T extends StagedRecipient>(recipients: T[]): T[][] {
+  const stages = new Map<number, T[]>();
+  for (const r of recipients) {
+    const stage = stages.get(r.order) || [];
+    stage.push(r);
+    stages.set(r.order, stage);
+  }
+  return Array.from(stages.keys())
+    .sort((a, b) => a - b)
+    .map(order => stages.get(order)!);
+}
+
+/**
+ * The active stage is the first one that still has unsigned recipients.
+ */
+export function getCurrentStage<T extends StagedRecipient>(recipients: T[]): T[] | null {
+  return getSigningStages(recipients).find(
+    stage => stage.some(r => r.status !== 'signed')
+  ) || null;
+}
+
+/**
+ * Whether every recipient in earlier stages has signed, i.e. it is this recipient's turn.
+ */
+export function isRecipientTurn(recipient: StagedRecipient, recipients: StagedRecipient[]): boolean {
+  return !recipients.some(r => r.order < recipient.order && r.status !== 'signed');
+}
+
+/**
+ * Issue fresh tokens to every recipient in a stage, email them and log it.
+ */
+export async function notifyStage(
+  packet: { id: string; name: string },
+  stage: Array<{ id: string; name: string; email: string }>
+): Promise<void> {
+  for (const recipient of stage) {
+    const token = generateSecureToken();
+    const tokenExpiresAt = getTokenExpiryDate();
+
+    await prisma.recipient.update({
+      where: { id: recipient.id },
+      data: {
+        token,
+        tokenExpiresAt,
+        status: 'notified',
+        notifiedAt: new Date(),
+        reminderCount: 0,
+        lastReminderAt: null,
+        ...RESET_VERIFICATION_STATE,
+      },
+    });
+
+    await sendSigningRequest(
+      recipient.email,
+      recipient.name,
+      packet.name,
+      generateSigningUrl(token),
+      tokenExpiresAt
+    );
+
+    await createAuditLog({
+      packetId: packet.id,
+      recipientId: recipient.id,
+      action: 'sent',
+      details: `Signing request sent to ${recipient.email}`,
+    });
+  }
+}
+
+/**
+ * Hand an unsigned signing slot to a different person. The old token is
+ * invalidated; if the slot is currently active the new person is emailed
+ * straight away, otherwise they are notified when their stage starts.
+ */
+export async function reassignRecipient(
+  packet: { id: string; name: string },
+  recipient: { id: string; name: string; email: string; status: string },
+  to: { name: string; email: string },
+  audit: { action: string; details: string; ipAddress?: string; userAgent?: string }
+): Promise<void> {
+  const token = generateSecureToken();
+  const tokenExpiresAt = getTokenExpiryDate();
+
+  await prisma.recipient.update({
+    where: { id: recipient.id },
+    data: {
+      name: to.name,
+      email: to.email,
+      token,
+      tokenExpiresAt,
+      ...RESET_VERIFICATION_STATE,
+      // Reminder schedule restarts for the new person
+      ...(recipient.status === 'notified' && {
+        notifiedAt: new Date(),
+        reminderCount: 0,
+        lastReminderAt: null,
+      }),
+    },
+  });
+
+  // Both identities are kept in the audit log
+  await createAuditLog({
+    packetId: packet.id,
+    recipientId: recipient.id,
+    action: audit.action,
+    details: audit.details,
+    ipAddress: audit.ipAddress,
+    userAgent: audit.userAgent,
+  });
+
+  if (recipient.status === 'notified') {
+    await sendSigningRequest(
+      to.email,
+      to.name,
+      packet.name,
+      generateSigningUrl(token),
+      tokenExpiresAt
+    );
+
+    await createAuditLog({
+      packetId: packet.id,
+      recipientId: recipient.id,
+      action: 'sent',
+      details: `Signing request sent to ${to.email}`,
+    });
+  }
+}
@@ -14,6 +14,10 @@ export const config = {
   FRONTEND_URL: process.env.FRONTEND_URL || 'http://localhost:3000',
   TOKEN_EXPIRY_HOURS: parseInt(process.env.TOKEN_EXPIRY_HOURS || '72', 10),
 
+  // Short-lived document download URLs handed to signers
+  DOWNLOAD_URL_SECRET: process.env.DOWNLOAD_URL_SECRET || process.env.JWT_SECRET || 'change-this-secret-in-production',
+  DOWNLOAD_URL_EXPIRY_MINUTES: parseInt(process.env.DOWNLOAD_URL_EXPIRY_MINUTES || '15', 10),
+
   // Email configuration
   EMAIL_PROVIDER: process.env.EMAIL_PROVIDER || 'smtp', // 'sendgrid' or 'smtp'
   SENDGRID_API_KEY: process.env.SENDGRID_API_KEY || '',
@@ -28,4 +32,48 @@ export const config = {
 
   // Admin notification
   ADMIN_EMAIL: process.env.ADMIN_EMAIL || 'admin@example.com',
+
+  // File storage: 'local' (disk under STORAGE_LOCAL_ROOT) or 's3' (any S3-compatible service)
+  STORAGE_DRIVER: process.env.STORAGE_DRIVER || 'local',
+  STORAGE_LOCAL_ROOT: process.env.STORAGE_LOCAL_ROOT || '.',
+  S3_BUCKET: process.env.S3_BUCKET || '',
+  S3_REGION: process.env.S3_REGION || 'us-east-1',
+  S3_ENDPOINT: process.env.S3_ENDPOINT || '', // e.g. http://localhost:9000 for MinIO
+  S3_ACCESS_KEY_ID: process.env.S3_ACCESS_KEY_ID || '',
+  S3_SECRET_ACCESS_KEY: process.env.S3_SECRET_ACCESS_KEY || '',
+  S3_FORCE_PATH_STYLE: process.env.S3_FORCE_PATH_STYLE === 'true',
+  S3_PREFIX: process.env.S3_PREFIX || '',
+
+  // Encryption at rest: comma-separated id:base64key pairs (32-byte keys). New data uses
+  // ENCRYPTION_ACTIVE_KEY_ID (default: first entry); older keys stay listed for reads.
+  ENCRYPTION_KEYS: process.env.ENCRYPTION_KEYS || '',
+  ENCRYPTION_ACTIVE_KEY_ID: process.env.ENCRYPTION_ACTIVE_KEY_ID || '',
+
+  // Scheduler (automatic reminders and expiry sweeps)
+  SCHEDULER_ENABLED: process.env.SCHEDULER_ENABLED !== 'false',
+  SCHEDULER_INTERVAL_MINUTES: parseInt(process.env.SCHEDULER_INTERVAL_MINUTES || '15', 10),
+
+  // Outbound webhooks: failed deliveries are retried with exponential backoff
+  WEBHOOK_TIMEOUT_SECONDS: parseInt(process.env.WEBHOOK_TIMEOUT_SECONDS || '10', 10),
+  WEBHOOK_MAX_ATTEMPTS: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10),
+  WEBHOOK_RETRY_BASE_SECONDS: parseInt(process.env.WEBHOOK_RETRY_BASE_SECONDS || '30', 10),
+
+  // Signer one-time passcodes
+  OTP_EXPIRY_MINUTES: parseInt(process.env.OTP_EXPIRY_MINUTES || '10', 10),
+  OTP_MAX_ATTEMPTS: parseInt(process.env.OTP_MAX_ATTEMPTS || '5', 10),
+  OTP_LOCKOUT_MINUTES: parseInt(process.env.OTP_LOCKOUT_MINUTES || '30', 10),
+
+  // Signer access codes shared out-of-band
+  ACCESS_CODE_MAX_ATTEMPTS: parseInt(process.env.ACCESS_CODE_MAX_ATTEMPTS || '5', 10),
+  ACCESS_CODE_LOCKOUT_MINUTES: parseInt(process.env.ACCESS_CODE_LOCKOUT_MINUTES || '15', 10),
+
+  // How long a signer stays verified after entering a code
+  SIGNING_SESSION_MINUTES: parseInt(process.env.SIGNING_SESSION_MINUTES || '60', 10),
+
+  // Digital signature applied to completed PDFs (PEM files; generated self-signed if missing)
+  PDF_SIGNING_ENABLED: process.env.PDF_SIGNING_ENABLED !== 'false',
+  PDF_SIGNING_CERT_PATH: process.env.PDF_SIGNING_CERT_PATH || 'certs/signing-cert.pem',
+  PDF_SIGNING_KEY_PATH: process.env.PDF_SIGNING_KEY_PATH || 'certs/signing-key.pem',
+  PDF_SIGNING_KEY_PASSPHRASE: process.env.PDF_SIGNING_KEY_PASSPHRASE || '',
+  PDF_SIGNING_NAME: process.env.PDF_SIGNING_NAME || 'AHS Signatures',
 };
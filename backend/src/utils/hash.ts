@@ -0,0 +1,8 @@
+import crypto from 'crypto';
+
+/**
+ * SHA-256 of a document as lowercase hex
+ */
+export function sha256Hex(data: Buffer | Uint8Array): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
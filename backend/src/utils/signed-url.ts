@@ -0,0 +1,59 @@
+import crypto from 'crypto';
+import { config } from './config.js';
+
+export type DocumentKind = 'original' | 'signed';
+
+export interface DownloadGrant {
+  packetId: string;
+  kind: DocumentKind;
+  recipientId: string;
+  expires: number; // unix seconds
+}
+
+/**
+ * The recipient's current signing token is mixed in, so reissuing or
+ * revoking a link also kills any download URLs handed out under it.
+ */
+function computeSignature(grant: DownloadGrant, signingToken: string): string {
+  return crypto
+    .createHmac('sha256', config.DOWNLOAD_URL_SECRET)
+    .update(`${grant.packetId}:${grant.kind}:${grant.recipientId}:${grant.expires}:${signingToken}`)
+    .digest('hex');
+}
+
+/**
+ * Build a short-lived download path for a signer (relative to the API origin)
+ */
+export function createSignedDownloadUrl(
+  packetId: string,
+  kind: DocumentKind,
+  recipient: { id: string; token: string }
+): { url: string; expiresAt: Date } {
+  const expires = Math.floor(Date.now() / 1000) + config.DOWNLOAD_URL_EXPIRY_MINUTES * 60;
+  const grant = { packetId, kind, recipientId: recipient.id, expires };
+  const query = new URLSearchParams({
+    recipient: recipient.id,
+    expires: String(expires),
+    signature: computeSignature(grant, recipient.token),
+  });
+
+  return {
+    url: `/api/documents/packets/${packetId}/${kind}?${query}`,
+    expiresAt: new Date(expires * 1000),
+  };
+}
+
+/**
+ * Check a signed download URL against the recipient's current token
+ */
+export function verifyDownloadSignature(
+  grant: DownloadGrant,
+  signature: string,
+  signingToken: string
+): boolean {
+  if (grant.expires * 1000 < Date.now()) return false;
+
+  const expected = Buffer.from(computeSignature(grant, signingToken), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
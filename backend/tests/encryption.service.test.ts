@@ -0,0 +1,210 @@
+/**
+ * Unit tests for the encryption service
+ * Run with: npx tsx tests/encryption.service.test.ts
+ */
+
+import crypto from 'crypto';
+import { config } from '../src/utils/config';
+import {
+  encryptBuffer,
+  decryptBuffer,
+  encryptString,
+  decryptString,
+  needsReencryption,
+  reencryptBuffer,
+  reencryptString,
+} from '../src/services/encryption.service';
+
+// Two master keys: "k1" starts out active, "k2" is rotated in later.
+// Keys are parsed once on first use, so this has to happen before any call.
+const OLD_KEY_ID = 'k1';
+const NEW_KEY_ID = 'k2';
+config.ENCRYPTION_KEYS = [OLD_KEY_ID, NEW_KEY_ID]
+  .map(id => `${id}:${crypto.randomBytes(32).toString('base64')}`)
+  .join(',');
+config.ENCRYPTION_ACTIVE_KEY_ID = OLD_KEY_ID;
+
+// Simple test runner
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`  ✓ ${name}`);
+    passed++;
+  } catch (err) {
+    console.log(`  ✗ ${name}`);
+    console.log(`    Error: ${err instanceof Error ? err.message : err}`);
+    failed++;
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  if (actual !== expected) {
+    throw new Error(`${message}: expected ${expected}, got ${actual}`);
+  }
+}
+
+function assertThrows(fn: () => unknown, message: string) {
+  try {
+    fn();
+  } catch {
+    return;
+  }
+  throw new Error(message);
+}
+
+// Key id of an encrypted buffer: magic (5 bytes), id length, id
+function keyIdOf(data: Buffer): string {
+  return data.subarray(6, 6 + data[5]).toString('utf8');
+}
+
+function asBuffer(value: string): Buffer {
+  return Buffer.from(value.slice('enc:v1:'.length), 'base64');
+}
+
+async function testRoundTrip() {
+  console.log('\n🔐 Round Trip Tests\n');
+
+  await test('encrypts and decrypts a buffer', () => {
+    const plaintext = Buffer.from('%PDF-1.7 signed contract');
+    const encrypted = encryptBuffer(plaintext);
+
+    assert(!encrypted.includes(plaintext), 'Ciphertext should not contain the plaintext');
+    assertEqual(keyIdOf(encrypted), OLD_KEY_ID, 'Sealed under the active key');
+    assert(decryptBuffer(encrypted).equals(plaintext), 'Decrypted bytes should match');
+  });
+
+  await test('encrypts and decrypts a string', () => {
+    const encrypted = encryptString('Jane Doe');
+
+    assert(encrypted.startsWith('enc:v1:'), 'Encrypted strings carry the prefix');
+    assertEqual(decryptString(encrypted), 'Jane Doe', 'Decrypted string');
+  });
+
+  await test('uses a fresh data key and IV for every value', () => {
+    assert(encryptString('same') !== encryptString('same'), 'Ciphertexts should differ');
+  });
+
+  await test('passes plaintext through on decrypt', () => {
+    assertEqual(decryptString('not encrypted'), 'not encrypted', 'Plain string');
+    const bytes = Buffer.from('%PDF-1.4 legacy upload');
+    assert(decryptBuffer(bytes).equals(bytes), 'Plain buffer should come back unchanged');
+  });
+}
+
+async function testTampering() {
+  console.log('\n🛡️  Tamper Tests\n');
+
+  await test('rejects a modified ciphertext', () => {
+    const encrypted = encryptBuffer(Buffer.from('confidential'));
+    encrypted[encrypted.length - 1] ^= 0x01;
+    assertThrows(() => decryptBuffer(encrypted), 'Decrypting a modified ciphertext should fail');
+  });
+
+  await test('rejects a modified wrapped data key', () => {
+    const encrypted = encryptBuffer(Buffer.from('confidential'));
+    // First byte after the key id belongs to the wrapped data key
+    encrypted[6 + encrypted[5]] ^= 0x01;
+    assertThrows(() => decryptBuffer(encrypted), 'Decrypting with a modified data key should fail');
+  });
+
+  await test('rejects a value sealed under an unknown key', () => {
+    const encrypted = encryptBuffer(Buffer.from('confidential'));
+    encrypted.write('k9', 6, 'utf8');
+    assertThrows(() => decryptBuffer(encrypted), 'Decrypting under an unknown key should fail');
+  });
+
+  await test('rejects a value sealed under the wrong key', () => {
+    const encrypted = encryptBuffer(Buffer.from('confidential'));
+    encrypted.write(NEW_KEY_ID, 6, 'utf8');
+    assertThrows(() => decryptBuffer(encrypted), 'Unwrapping with the wrong master key should fail');
+  });
+}
+
+async function testRotation() {
+  console.log('\n🔄 Key Rotation Tests\n');
+
+  config.ENCRYPTION_ACTIVE_KEY_ID = OLD_KEY_ID;
+  const oldBuffer = encryptBuffer(Buffer.from('%PDF-1.7 original'));
+  const oldString = encryptString('123 Main St');
+
+  await test('values under the active key need no re-encryption', () => {
+    assert(!needsReencryption(oldBuffer), 'Buffer is up to date');
+    assert(!needsReencryption(oldString), 'String is up to date');
+  });
+
+  await test('plaintext always needs encryption', () => {
+    assert(needsReencryption('plain value'), 'Plain string');
+    assert(needsReencryption(Buffer.from('%PDF-1.4')), 'Plain buffer');
+  });
+
+  config.ENCRYPTION_ACTIVE_KEY_ID = NEW_KEY_ID;
+
+  await test('values under an older key need re-encryption after rotation', () => {
+    assert(needsReencryption(oldBuffer), 'Buffer under the old key');
+    assert(needsReencryption(oldString), 'String under the old key');
+  });
+
+  await test('old values still decrypt after rotation', () => {
+    assertEqual(decryptBuffer(oldBuffer).toString(), '%PDF-1.7 original', 'Buffer');
+    assertEqual(decryptString(oldString), '123 Main St', 'String');
+  });
+
+  await test('re-encrypting a buffer re-wraps its data key under the active key', () => {
+    const rotated = reencryptBuffer(oldBuffer);
+
+    assertEqual(keyIdOf(rotated), NEW_KEY_ID, 'Key id after rotation');
+    assert(!needsReencryption(rotated), 'Rotated buffer is up to date');
+    assertEqual(decryptBuffer(rotated).toString(), '%PDF-1.7 original', 'Decrypted after rotation');
+    // Only the envelope header changes; the sealed body is reused as is
+    assert(
+      rotated.subarray(rotated.length - 20).equals(oldBuffer.subarray(oldBuffer.length - 20)),
+      'Body should be unchanged'
+    );
+  });
+
+  await test('re-encrypting a string moves it to the active key', () => {
+    const rotated = reencryptString(oldString);
+
+    assertEqual(keyIdOf(asBuffer(rotated)), NEW_KEY_ID, 'Key id after rotation');
+    assertEqual(decryptString(rotated), '123 Main St', 'Decrypted after rotation');
+  });
+
+  await test('re-encrypting plaintext encrypts it', () => {
+    const encrypted = reencryptString('plain value');
+
+    assert(encrypted.startsWith('enc:v1:'), 'Should now be encrypted');
+    assertEqual(keyIdOf(asBuffer(encrypted)), NEW_KEY_ID, 'Sealed under the active key');
+    assertEqual(decryptString(encrypted), 'plain value', 'Decrypted value');
+
+    const bytes = reencryptBuffer(Buffer.from('%PDF-1.4'));
+    assertEqual(decryptBuffer(bytes).toString(), '%PDF-1.4', 'Decrypted buffer');
+  });
+
+  config.ENCRYPTION_ACTIVE_KEY_ID = OLD_KEY_ID;
+}
+
+// Main test runner
+async function runTests() {
+  console.log('🧪 Encryption Service Unit Tests\n');
+  console.log('='.repeat(50));
+
+  await testRoundTrip();
+  await testTampering();
+  await testRotation();
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runTests().catch(console.error);
@@ -0,0 +1,206 @@
+/**
+ * Unit tests for the PDF signing service
+ * Run with: npx tsx tests/pdf-signing.service.test.ts
+ */
+
+import crypto from 'crypto';
+import forge from 'node-forge';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { config } from '../src/utils/config';
+import { ensureSigningCertificate, signPdf } from '../src/services/pdf-signing.service';
+
+// Simple test runner
+let passed = 0;
+let failed = 0;
+
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`  ✓ ${name}`);
+    passed++;
+  } catch (err) {
+    console.log(`  ✗ ${name}`);
+    console.log(`    Error: ${err instanceof Error ? err.message : err}`);
+    failed++;
+  }
+}
+
+function assert(condition: boolean, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+function assertEqual<T>(actual: T, expected: T, message: string) {
+  if (actual !== expected) {
+    throw new Error(`${message}: expected ${expected}, got ${actual}`);
+  }
+}
+
+async function assertRejects(fn: () => Promise<unknown>, pattern: RegExp, message: string) {
+  try {
+    await fn();
+  } catch (err) {
+    const text = err instanceof Error ? err.message : String(err);
+    assert(pattern.test(text), `${message}: unexpected error "${text}"`);
+    return;
+  }
+  throw new Error(`${message}: expected an error`);
+}
+
+async function createTestPdf(): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  pdfDoc.addPage([612, 792]).drawText('Employment agreement', { x: 50, y: 700, size: 14, font });
+  return pdfDoc.save();
+}
+
+/**
+ * Read the ByteRange the signer wrote and the DER signature in /Contents
+ */
+function parseSignature(pdf: Buffer) {
+  const match = /\/ByteRange \[(\d+) (\d+) (\d+) (\d+)\]/.exec(pdf.toString('latin1'));
+  if (!match) throw new Error('ByteRange not found');
+  const [start, firstLength, secondStart, secondLength] = match.slice(1).map(Number);
+
+  const contents = pdf.subarray(firstLength, secondStart).toString('latin1');
+  return { start, firstLength, secondStart, secondLength, contents };
+}
+
+/**
+ * The messageDigest authenticated attribute of the CMS signature, as hex
+ */
+function getMessageDigest(contentsHex: string): string {
+  // The signature is zero-padded to fill the reserved space; keep just the outer SEQUENCE
+  const der = Buffer.from(contentsHex, 'hex');
+  const lengthBytes = der[1] & 0x7f;
+  const signature = der.subarray(0, 2 + lengthBytes + der.readUIntBE(2, lengthBytes));
+
+  const asn1 = forge.asn1.fromDer(signature.toString('binary'));
+  const message = forge.pkcs7.messageFromAsn1(asn1) as unknown as {
+    rawCapture: { authenticatedAttributes: forge.asn1.Asn1[] };
+  };
+
+  for (const attribute of message.rawCapture.authenticatedAttributes) {
+    const [type, values] = attribute.value as forge.asn1.Asn1[];
+    if (forge.asn1.derToOid(type.value as string) === forge.pki.oids.messageDigest) {
+      const [digest] = values.value as forge.asn1.Asn1[];
+      return forge.util.bytesToHex(digest.value as string);
+    }
+  }
+  throw new Error('messageDigest attribute not found');
+}
+
+async function testSignPdf(certDir: string) {
+  console.log('\n✍️  Signing Tests\n');
+
+  config.PDF_SIGNING_CERT_PATH = path.join(certDir, 'signing-cert.pem');
+  config.PDF_SIGNING_KEY_PATH = path.join(certDir, 'signing-key.pem');
+
+  await test('generates a development certificate when none is configured', async () => {
+    await ensureSigningCertificate();
+    const certPem = await fs.readFile(config.PDF_SIGNING_CERT_PATH, 'utf8');
+    assert(certPem.includes('BEGIN CERTIFICATE'), 'Certificate should be written as PEM');
+  });
+
+  const signed = Buffer.from(await signPdf(await createTestPdf()));
+
+  await test('byte range covers the whole file except the /Contents hex', () => {
+    const { start, firstLength, secondStart, secondLength, contents } = parseSignature(signed);
+
+    assertEqual(start, 0, 'First range starts at the beginning of the file');
+    assertEqual(secondStart + secondLength, signed.length, 'Second range ends at the end of the file');
+    assert(/^<[0-9a-f]+>$/i.test(contents), 'The gap should be exactly the /Contents hex string');
+    assertEqual(
+      signed.subarray(firstLength - '/Contents '.length, firstLength).toString('latin1'),
+      '/Contents ',
+      'The gap starts at the /Contents value'
+    );
+  });
+
+  await test('CMS messageDigest is the SHA-256 of the signed byte ranges', () => {
+    const { firstLength, secondStart, contents } = parseSignature(signed);
+    const expected = crypto.createHash('sha256')
+      .update(signed.subarray(0, firstLength))
+      .update(signed.subarray(secondStart))
+      .digest('hex');
+
+    assertEqual(getMessageDigest(contents.slice(1, -1)), expected, 'messageDigest');
+  });
+
+  await test('signed output still loads as a PDF', async () => {
+    const pdfDoc = await PDFDocument.load(signed);
+    assertEqual(pdfDoc.getPageCount(), 1, 'Page count');
+  });
+}
+
+async function testCertificateRequired(certDir: string) {
+  console.log('\n🔒 Certificate Requirement Tests\n');
+
+  const missingCert = path.join(certDir, 'missing', 'cert.pem');
+  const missingKey = path.join(certDir, 'missing', 'key.pem');
+  const nodeEnv = process.env.NODE_ENV;
+  const storageDriver = config.STORAGE_DRIVER;
+
+  config.PDF_SIGNING_CERT_PATH = missingCert;
+  config.PDF_SIGNING_KEY_PATH = missingKey;
+
+  try {
+    await test('requires a configured certificate in production', async () => {
+      process.env.NODE_ENV = 'production';
+      config.STORAGE_DRIVER = 'local';
+      await assertRejects(() => ensureSigningCertificate(), /certificate not found/, 'Production');
+    });
+
+    await test('requires a configured certificate with S3 storage', async () => {
+      delete process.env.NODE_ENV;
+      config.STORAGE_DRIVER = 's3';
+      await assertRejects(() => ensureSigningCertificate(), /certificate not found/, 'S3 storage');
+    });
+
+    await test('does not generate a certificate when one is required', async () => {
+      const exists = await fs.access(missingCert).then(() => true, () => false);
+      assert(!exists, 'No certificate should have been written');
+    });
+  } finally {
+    if (nodeEnv === undefined) {
+      delete process.env.NODE_ENV;
+    } else {
+      process.env.NODE_ENV = nodeEnv;
+    }
+    config.STORAGE_DRIVER = storageDriver;
+  }
+}
+
+// Main test runner
+async function runTests() {
+  console.log('🧪 PDF Signing Service Unit Tests\n');
+  console.log('='.repeat(50));
+
+  const certDir = await fs.mkdtemp(path.join(os.tmpdir(), 'ahs-signing-test-'));
+  const nodeEnv = process.env.NODE_ENV;
+  const storageDriver = config.STORAGE_DRIVER;
+
+  try {
+    // Self-generation is the development fallback
+    delete process.env.NODE_ENV;
+    config.STORAGE_DRIVER = 'local';
+
+    await testSignPdf(certDir);
+    await testCertificateRequired(certDir);
+  } finally {
+    if (nodeEnv !== undefined) process.env.NODE_ENV = nodeEnv;
+    config.STORAGE_DRIVER = storageDriver;
+    await fs.rm(certDir, { recursive: true, force: true });
+  }
+
+  console.log('\n' + '='.repeat(50));
+  console.log(`\n📊 Results: ${passed} passed, ${failed} failed`);
+
+  if (failed > 0) {
+    process.exit(1);
+  }
+}
+
+runTests().catch(console.error);
@@ -3,8 +3,14 @@
  * Run with: npx ts-node tests/pdf.service.test.ts
  */
 
-import { parseTemplatePlaceholders, stampSignature, Placeholder } from '../src/services/pdf.service';
-import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import {
+  parseTemplatePlaceholders,
+  stampSignature,
+  appendCompletionCertificate,
+  fieldValuesSchema,
+  Placeholder,
+} from '../src/services/pdf.service';
+import { PDFDocument, PDFDict, PDFName, StandardFonts, degrees, rgb } from 'pdf-lib';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -12,25 +18,16 @@ import path from 'path';
 let passed = 0;
 let failed = 0;
 
-function test(name: string, fn: () => Promise<void> | void) {
-  return fn().then ?
-    (fn() as Promise<void>).then(() => {
-      console.log(`  ✓ ${name}`);
-      passed++;
-    }).catch((err: Error) => {
-      console.log(`  ✗ ${name}`);
-      console.log(`    Error: ${err.message}`);
-      failed++;
-    }) :
-    Promise.resolve().then(() => {
-      (fn as () => void)();
-      console.log(`  ✓ ${name}`);
-      passed++;
-    }).catch((err: Error) => {
-      console.log(`  ✗ ${name}`);
-      console.log(`    Error: ${err.message}`);
-      failed++;
-    });
+async function test(name: string, fn: () => Promise<void> | void) {
+  try {
+    await fn();
+    console.log(`  ✓ ${name}`);
+    passed++;
+  } catch (err) {
+    console.log(`  ✗ ${name}`);
+    console.log(`    Error: ${err instanceof Error ? err.message : err}`);
+    failed++;
+  }
 }
 
 function assert(condition: boolean, message: string) {
@@ -43,6 +40,20 @@ function assertEqual<T>(actual: T, expected: T, message: string) {
   }
 }
 
+// 1x1 PNG used as a drawn signature
+const TINY_PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+async function extractText(pdfBytes: Uint8Array): Promise<string> {
+  const { PDFParse } = await import('pdf-parse');
+  const parser = new PDFParse({ data: Buffer.from(pdfBytes) });
+  try {
+    return (await parser.getText()).text;
+  } finally {
+    await parser.destroy();
+  }
+}
+
 // Create test PDFs with unique names
 let testCounter = 0;
 
@@ -158,6 +169,43 @@ async function testPlaceholderDetection() {
     assert(sigPlaceholder!.originalTag.includes('{{'), 'Original tag should contain {{');
     assert(sigPlaceholder!.originalTag.includes('}}'), 'Original tag should contain }}');
   });
+
+  await test('locates tags inside form XObjects', async () => {
+    const tag = '{{Sig_es_:signer1:signature}}';
+    const sourceDoc = await PDFDocument.create();
+    const sourceFont = await sourceDoc.embedFont(StandardFonts.Helvetica);
+    sourceDoc.addPage([612, 792]).drawText(tag, { x: 50, y: 700, size: 11, font: sourceFont });
+
+    const pdfDoc = await PDFDocument.create();
+    const [form] = await pdfDoc.embedPdf(await sourceDoc.save());
+    pdfDoc.addPage([612, 792]).drawPage(form, { x: 100, y: -300 });
+
+    const placeholders = await parseTemplatePlaceholders(await pdfDoc.save());
+    assertEqual(placeholders.length, 1, 'Should find the tag in the form');
+    const [placeholder] = placeholders;
+    assert(Math.abs(placeholder.x - 150) < 0.5, `Tag x should be 150, got ${placeholder.x}`);
+    assert(Math.abs(placeholder.y - 400) < 0.5, `Tag y should be 400, got ${placeholder.y}`);
+    // Per glyph, as pdf-lib's own measure applies kerning that drawText does not
+    const width = [...tag].reduce((sum, char) => sum + sourceFont.widthOfTextAtSize(char, 11), 0);
+    assert(Math.abs(placeholder.tagBounds!.width - width) < 0.5, 'Tag bounds should span the tag text');
+  });
+
+  await test('locates rotated tags on rotated pages', async () => {
+    const tag = '[[SIGNATURE:employee]]';
+    const pdfDoc = await PDFDocument.create();
+    const page = pdfDoc.addPage([612, 792]);
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    page.setRotation(degrees(90));
+    page.drawText(tag, { x: 300, y: 100, size: 11, font, rotate: degrees(90) });
+
+    const placeholders = await parseTemplatePlaceholders(await pdfDoc.save());
+    assertEqual(placeholders.length, 1, 'Should find the rotated tag');
+    const [placeholder] = placeholders;
+    assert(Math.abs(placeholder.x - 300) < 0.5 && Math.abs(placeholder.y - 100) < 0.5, 'Tag origin should be where it was drawn');
+    const width = [...tag].reduce((sum, char) => sum + font.widthOfTextAtSize(char, 11), 0);
+    assert(Math.abs(placeholder.tagBounds!.height - width) < 0.5, 'Rotated tag bounds should run up the page');
+    assert(placeholder.tagBounds!.width < 12, 'Rotated tag bounds should be one line wide');
+  });
 }
 
 async function testSignatureStamping() {
@@ -182,13 +230,13 @@ async function testSignatureStamping() {
     );
 
     assert(stampedPdf.length > 0, 'Stamped PDF should have content');
-    // Verify it's a valid PDF
+    // Values are stamped onto the document itself, without adding pages
     const loadedDoc = await PDFDocument.load(stampedPdf);
-    const pageCount = loadedDoc.getPageCount();
-    assert(pageCount >= 2, 'Stamped PDF should have appendix page');
+    assertEqual(loadedDoc.getPageCount(), 1, 'Stamped PDF should keep its pages');
+    assert((await extractText(stampedPdf)).includes('John Doe'), 'Typed signature should be stamped');
   });
 
-  await test('includes text field values in appendix', async () => {
+  await test('includes text field values', async () => {
     const pdfPath = await createTestPdfWithAdobeTags();
     const placeholders = await parseTemplatePlaceholders(pdfPath);
 
@@ -206,9 +254,8 @@ async function testSignatureStamping() {
       placeholders
     );
 
-    // Load and verify the PDF has content
-    const loadedDoc = await PDFDocument.load(stampedPdf);
-    assert(loadedDoc.getPageCount() >= 2, 'Should have appendix page');
+    const text = await extractText(stampedPdf);
+    assert(text.includes('Manager') && text.includes('MGR456'), 'Text field values should be stamped');
   });
 
   await test('handles multiple signers', async () => {
@@ -240,8 +287,79 @@ async function testSignatureStamping() {
       placeholders
     );
 
+    const text = await extractText(stampedPdf);
+    assert(text.includes('Employee One') && text.includes('Supervisor Two'), 'Both signatures should be stamped');
+  });
+
+  await test('embeds drawn signature image at placeholder', async () => {
+    const pdfPath = await createTestPdfWithCustomTags();
+    const placeholders: Placeholder[] = [{
+      type: 'SIGNATURE',
+      role: 'employee',
+      originalTag: '[[SIGNATURE:employee]]',
+      pageNumber: 1,
+      x: 150,
+      y: 700,
+      width: 200,
+      height: 50,
+    }];
+
+    const stampedPdf = await stampSignature(
+      pdfPath,
+      [{
+        role: 'employee',
+        signatureData: {
+          signatureImage: `data:image/png;base64,${TINY_PNG_BASE64}`,
+          typedName: 'Drawn Signer',
+          signatureType: 'drawn',
+        },
+        timestamp: new Date(),
+      }],
+      placeholders
+    );
+
     const loadedDoc = await PDFDocument.load(stampedPdf);
-    assert(loadedDoc.getPageCount() >= 2, 'Should have appendix page');
+    const xObjects = loadedDoc.getPage(0).node.Resources()?.get(PDFName.of('XObject'));
+    assert(xObjects instanceof PDFDict, 'Page should have an XObject resource');
+    assert((xObjects as PDFDict).keys().length >= 1, 'Signature image should be embedded');
+  });
+
+  const customTagPlaceholders: Placeholder[] = [
+    { type: 'SIGNATURE', role: 'employee', originalTag: '[[SIGNATURE:employee]]', pageNumber: 1, x: 148, y: 700, width: 200, height: 50 },
+    { type: 'DATE', role: 'employee', originalTag: '[[DATE:employee]]', pageNumber: 1, x: 80, y: 660, width: 100, height: 20 },
+    { type: 'TEXT', role: 'signer', fieldName: 'comment', originalTag: '[[TEXT:comment]]', pageNumber: 1, x: 105, y: 620, width: 150, height: 20 },
+  ];
+
+  const customTagStamp = {
+    role: 'employee',
+    signatureData: {
+      typedName: 'Overlay Signer',
+      signatureType: 'typed' as const,
+      textFields: { comment: 'Looks good' },
+    },
+    timestamp: new Date('2026-01-15T12:00:00Z'),
+  };
+
+  await test('overlay mode draws values at placeholder positions', async () => {
+    const pdfPath = await createTestPdfWithCustomTags();
+
+    const stampedPdf = await stampSignature(pdfPath, [customTagStamp], customTagPlaceholders, {}, 'overlay');
+
+    const text = await extractText(stampedPdf);
+    assert(text.includes('Overlay Signer'), 'Typed signature should be drawn');
+    assert(text.includes('Looks good'), 'Text field value should be drawn');
+    assert(text.includes('1/15/2026'), 'Signing date should be drawn');
+  });
+
+  await test('in-place mode falls back to overlay when no tags are replaced', async () => {
+    // pdf-lib writes text as hex strings, which in-place replacement cannot match
+    const pdfPath = await createTestPdfWithCustomTags();
+
+    const stampedPdf = await stampSignature(pdfPath, [customTagStamp], customTagPlaceholders);
+
+    const text = await extractText(stampedPdf);
+    assert(text.includes('Overlay Signer'), 'Typed signature should be drawn');
+    assert(text.includes('Looks good'), 'Text field value should be drawn');
   });
 }
 
@@ -287,6 +405,251 @@ async function testEdgeCases() {
   });
 }
 
+// ============ COMPLETION CERTIFICATE TESTS ============
+async function testCompletionCertificate() {
+  console.log('\n📜 Completion Certificate Tests:');
+
+  await test('appends certificate pages after the document', async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage([612, 792]);
+    pdfDoc.addPage([612, 792]);
+
+    const certified = await appendCompletionCertificate(await pdfDoc.save(), {
+      packetId: 'packet-1',
+      packetName: 'Handbook Acknowledgement',
+      fileName: 'handbook.pdf',
+      originalSha256: 'a'.repeat(64),
+      completedAt: new Date(),
+      signers: [{
+        name: 'Jos\u00e9 \u4e2d Signer', // Non-WinAnsi characters must not break rendering
+        email: 'jose@example.com',
+        roleName: 'signer1',
+        signatureType: 'drawn',
+        signedAt: new Date(),
+        ipAddress: '127.0.0.1',
+        userAgent: 'Mozilla/5.0 ' + 'X'.repeat(300),
+      }],
+      // Enough events to overflow onto a second certificate page
+      events: Array.from({ length: 80 }, (_, i) => ({
+        createdAt: new Date(),
+        action: i % 2 ? 'viewed' : 'sent',
+        details: `Event ${i}`,
+        ipAddress: null,
+      })),
+    });
+
+    const loadedDoc = await PDFDocument.load(certified);
+    assert(loadedDoc.getPageCount() >= 4, 'Should add at least two certificate pages');
+  });
+}
+
+// ============ FORM FIELD TESTS ============
+async function createTestPdfWithFormFields(): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  const page = pdfDoc.addPage([612, 792]);
+  const form = pdfDoc.getForm();
+
+  form.createTextField('Title_es_:employee').addToPage(page, { x: 50, y: 700, width: 200, height: 20 });
+  form.createTextField('Department').addToPage(page, { x: 50, y: 650, width: 200, height: 20 });
+  form.createCheckBox('Agree').addToPage(page, { x: 50, y: 600, width: 15, height: 15 });
+  const size = form.createDropdown('Size');
+  size.addOptions(['S', 'M', 'L']);
+  size.addToPage(page, { x: 50, y: 550, width: 100, height: 20 });
+
+  return pdfDoc.save();
+}
+
+async function testFormFields() {
+  console.log('\n🗂️  Form Field Tests:');
+
+  const employeeStamp = {
+    role: 'employee',
+    signatureData: {
+      typedName: 'Form Signer',
+      signatureType: 'typed' as const,
+      textFields: { Title: 'Engineer', Department: 'Research' },
+    },
+    timestamp: new Date(),
+  };
+
+  await test('detects form fields named like tags', async () => {
+    const placeholders = await parseTemplatePlaceholders(await createTestPdfWithFormFields());
+    assertEqual(placeholders.length, 1, 'Only the tag-named field should become a placeholder');
+    const [placeholder] = placeholders;
+    assertEqual(placeholder.formField, 'Title_es_:employee', 'Should record the form field');
+    assertEqual(placeholder.role, 'employee', 'Role should come from the field name');
+    assertEqual(placeholder.fieldName, 'Title', 'Field name should come from the field name');
+    // pdf-lib widens the widget by its border
+    assert(Math.abs(placeholder.x - 50) <= 1 && Math.abs(placeholder.y - 700) <= 1, 'Should use the widget position');
+    assert(Math.abs(placeholder.width - 200) <= 2, 'Should use the widget width');
+  });
+
+  await test('assigns roles to form fields from a mapping', async () => {
+    const placeholders = await parseTemplatePlaceholders(await createTestPdfWithFormFields(), {
+      Department: { type: 'TEXT', role: 'employee' },
+    });
+    const department = placeholders.find(p => p.formField === 'Department');
+    assert(department !== undefined, 'Mapped field should become a placeholder');
+    assertEqual(department!.fieldName, 'Department', 'Field name should default to the form field name');
+  });
+
+  await test('fills form text fields natively', async () => {
+    const pdf = await createTestPdfWithFormFields();
+    const placeholders = await parseTemplatePlaceholders(pdf, { Department: { type: 'TEXT', role: 'employee' } });
+    const stampedPdf = await stampSignature(pdf, [employeeStamp], placeholders);
+
+    const form = (await PDFDocument.load(stampedPdf)).getForm();
+    assertEqual(form.getTextField('Title_es_:employee').getText(), 'Engineer', 'Title should be filled');
+    assertEqual(form.getTextField('Department').getText(), 'Research', 'Department should be filled');
+    assert(form.getTextField('Title_es_:employee').isReadOnly(), 'Filled fields should be read-only');
+  });
+
+  await test('fills form checkboxes and lists natively', async () => {
+    const pdf = await createTestPdfWithFormFields();
+    const placeholders = await parseTemplatePlaceholders(pdf, {
+      Agree: { type: 'CHECKBOX', role: 'employee' },
+      Size: { type: 'SELECT', role: 'employee' },
+    });
+    assertEqual(placeholders.find(p => p.formField === 'Size')?.options?.join('|'), 'S|M|L', 'Options should come from the list');
+
+    const stamp = { ...employeeStamp, signatureData: { ...employeeStamp.signatureData, textFields: { Agree: 'true', Size: 'M' } } };
+    const form = (await PDFDocument.load(await stampSignature(pdf, [stamp], placeholders))).getForm();
+    assert(form.getCheckBox('Agree').isChecked(), 'Checkbox should be checked');
+    assertEqual(form.getDropdown('Size').getSelected().join(), 'M', 'List should have the value selected');
+  });
+
+  await test('flattens the form when asked', async () => {
+    const pdf = await createTestPdfWithFormFields();
+    const placeholders = await parseTemplatePlaceholders(pdf);
+    const stampedPdf = await stampSignature(pdf, [employeeStamp], placeholders, {}, 'in_place', true);
+
+    assertEqual((await PDFDocument.load(stampedPdf)).getForm().getFields().length, 0, 'Form should have no fields');
+    assert((await extractText(stampedPdf)).includes('Engineer'), 'Filled value should be part of the page');
+  });
+}
+
+// ============ FIELD TYPE TESTS ============
+async function createTestPdfWithFieldTypeTags(): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  const page = pdfDoc.addPage([612, 792]);
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+
+  page.drawText('Signature: [[SIGNATURE:employee]]', { x: 50, y: 700, size: 11, font });
+  page.drawText('I agree: [[CHECKBOX:employee:Agree]]', { x: 50, y: 660, size: 11, font });
+  page.drawText('Contact by: [[RADIO:employee:Contact:Email|Phone]]', { x: 50, y: 620, size: 11, font });
+  page.drawText('Shirt size: [[SELECT:employee:Shirt_Size:S|M|L]]', { x: 50, y: 580, size: 11, font });
+  page.drawText('Dependents: [[NUMBER:employee:Dependents]]', { x: 50, y: 540, size: 11, font });
+
+  return pdfDoc.save();
+}
+
+async function testFieldTypes() {
+  console.log('\n☑️  Field Type Tests:');
+
+  await test('detects checkbox, radio, select and number tags', async () => {
+    const placeholders = await parseTemplatePlaceholders(await createTestPdfWithFieldTypeTags());
+    const byName = (name: string) => placeholders.find(p => p.fieldName === name);
+
+    assertEqual(byName('Agree')?.type, 'CHECKBOX', 'Should find the checkbox');
+    assertEqual(byName('Agree')?.role, 'employee', 'Checkbox role should come from the tag');
+    assertEqual(byName('Contact')?.options?.join('|'), 'Email|Phone', 'Radio options should come from the tag');
+    assertEqual(byName('Shirt_Size')?.type, 'SELECT', 'Should find the select');
+    assertEqual(byName('Shirt_Size')?.options?.join('|'), 'S|M|L', 'Select options should come from the tag');
+    assertEqual(byName('Dependents')?.type, 'NUMBER', 'Should find the number');
+  });
+
+  await test('stamps choices as text and checkboxes as check marks', async () => {
+    const pdf = await createTestPdfWithFieldTypeTags();
+    const placeholders = await parseTemplatePlaceholders(pdf);
+    const stamp = {
+      role: 'employee',
+      signatureData: {
+        typedName: 'Choice Signer',
+        signatureType: 'typed' as const,
+        textFields: { Agree: 'true', Contact: 'Phone', Shirt_Size: 'L', Dependents: '2' },
+      },
+      timestamp: new Date(),
+    };
+
+    const stampedPdf = await stampSignature(pdf, [stamp], placeholders, {}, 'overlay');
+
+    const lines = (await extractText(stampedPdf)).split('\n');
+    assert(['Phone', 'L', '2'].every(value => lines.includes(value)), 'Values should be drawn');
+    assert(!lines.includes('true'), 'Checkbox value should not be written as text');
+  });
+
+  await test('checks signer values against the field types', async () => {
+    const placeholders = await parseTemplatePlaceholders(await createTestPdfWithFieldTypeTags());
+    const schema = fieldValuesSchema(placeholders);
+
+    assert(schema.safeParse({ Agree: 'true', Contact: 'Email', Shirt_Size: '', Dependents: '3' }).success, 'Valid values should pass');
+    assert(!schema.safeParse({ Agree: 'yes' }).success, 'Checkbox values should be true or false');
+    assert(!schema.safeParse({ Contact: 'Fax' }).success, 'Radio values should be one of the options');
+    assert(!schema.safeParse({ Dependents: 'two' }).success, 'Number values should parse');
+  });
+}
+
+// ============ INITIALS TESTS ============
+async function createTestPdfWithInitialsTags(): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+
+  for (let i = 0; i < 3; i++) {
+    const page = pdfDoc.addPage([612, 792]);
+    page.drawText(i === 0 ? 'Initials: {{Int_es_:employee:initials}}' : 'Initials: [[INITIALS:employee]]', { x: 50, y: 100, size: 11, font });
+  }
+  pdfDoc.getPage(2).drawText('Signature: [[SIGNATURE:employee]]', { x: 50, y: 700, size: 11, font });
+
+  return pdfDoc.save();
+}
+
+async function testInitials() {
+  console.log('\n✍️  Initials Tests:');
+
+  await test('detects initials tags on every page', async () => {
+    const placeholders = await parseTemplatePlaceholders(await createTestPdfWithInitialsTags());
+    const initials = placeholders.filter(p => p.type === 'INITIALS');
+    assertEqual(initials.map(p => p.pageNumber).join(), '1,2,3', 'Should find initials on each page');
+    assert(initials.every(p => p.role === 'employee' && !p.fieldName), 'Initials should belong to the role');
+  });
+
+  await test('stamps initials from the typed name on every page', async () => {
+    const pdf = await createTestPdfWithInitialsTags();
+    const placeholders = await parseTemplatePlaceholders(pdf);
+    const stamp = {
+      role: 'employee',
+      signatureData: { typedName: 'Jane van Doe', signatureType: 'typed' as const },
+      timestamp: new Date(),
+    };
+
+    const stampedPdf = await stampSignature(pdf, [stamp], placeholders, {}, 'overlay');
+
+    const text = await extractText(stampedPdf);
+    assertEqual(text.match(/JVD/g)?.length, 3, 'Initials should be drawn on all three pages');
+  });
+
+  await test('embeds drawn initials on every page', async () => {
+    const pdf = await createTestPdfWithInitialsTags();
+    const placeholders = await parseTemplatePlaceholders(pdf);
+    const stamp = {
+      role: 'employee',
+      signatureData: {
+        typedName: 'Jane Doe',
+        signatureType: 'typed' as const,
+        initials: `data:image/png;base64,${TINY_PNG_BASE64}`,
+        initialsType: 'drawn' as const,
+      },
+      timestamp: new Date(),
+    };
+
+    const loadedDoc = await PDFDocument.load(await stampSignature(pdf, [stamp], placeholders, {}, 'overlay'));
+    for (const page of loadedDoc.getPages()) {
+      const xObjects = page.node.Resources()?.get(PDFName.of('XObject'));
+      assert(xObjects instanceof PDFDict && xObjects.keys().length >= 1, 'Initials image should be embedded on each page');
+    }
+  });
+}
+
 // Cleanup helper
 async function cleanup() {
   // Clean up all temp files
@@ -316,6 +679,10 @@ async function runTests() {
     await testPlaceholderDetection();
     await testSignatureStamping();
     await testEdgeCases();
+    await testCompletionCertificate();
+    await testFormFields();
+    await testFieldTypes();
+    await testInitials();
   } finally {
     await cleanup();
   }
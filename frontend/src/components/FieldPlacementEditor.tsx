@@ -0,0 +1,499 @@
+import { useEffect, useRef, useState } from 'react';
+import { Placeholder, PlacedField } from '@/lib/api';
+
+// Screen pixels per PDF point
+const RENDER_SCALE = 1.25;
+
+// Smallest field, in PDF points (the server rejects anything smaller)
+const MIN_SIZE = 10;
+
+// Same sizes the tag parser gives each field type
+const DEFAULT_SIZES: Record<PlacedField['type'], { width: number; height: number }> = {
+  SIGNATURE: { width: 200, height: 50 },
+  INITIALS: { width: 60, height: 30 },
+  DATE: { width: 100, height: 20 },
+  TEXT: { width: 150, height: 20 },
+  CHECKBOX: { width: 20, height: 20 },
+  RADIO: { width: 150, height: 20 },
+  SELECT: { width: 150, height: 20 },
+  NUMBER: { width: 100, height: 20 },
+};
+
+const FIELD_LABELS: Record<PlacedField['type'], string> = {
+  SIGNATURE: 'Signature',
+  INITIALS: 'Initials',
+  DATE: 'Date',
+  TEXT: 'Text',
+  CHECKBOX: 'Checkbox',
+  RADIO: 'Radio',
+  SELECT: 'Select',
+  NUMBER: 'Number',
+};
+
+const FIELD_STYLES: Record<PlacedField['type'], string> = {
+  SIGNATURE: 'border-blue-500 bg-blue-100/70 text-blue-900',
+  INITIALS: 'border-indigo-500 bg-indigo-100/70 text-indigo-900',
+  DATE: 'border-green-500 bg-green-100/70 text-green-900',
+  TEXT: 'border-purple-500 bg-purple-100/70 text-purple-900',
+  CHECKBOX: 'border-orange-500 bg-orange-100/70 text-orange-900',
+  RADIO: 'border-pink-500 bg-pink-100/70 text-pink-900',
+  SELECT: 'border-teal-500 bg-teal-100/70 text-teal-900',
+  NUMBER: 'border-yellow-500 bg-yellow-100/70 text-yellow-900',
+};
+
+const DEFAULT_OPTIONS = ['Option 1', 'Option 2'];
+
+interface RenderedPage {
+  image: string;
+  // Page box in PDF points: [left, bottom, right, top]
+  view: number[];
+}
+
+interface DragState {
+  index: number;
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  origin: PlacedField;
+}
+
+interface FieldPlacementEditorProps {
+  // URL of a stored PDF (fetched with the admin session) or a file not uploaded yet
+  source: string | File;
+  placeholders: Placeholder[];
+  roles: string[];
+  saving?: boolean;
+  onSave: (fields: PlacedField[]) => void;
+  onCancel: () => void;
+}
+
+function isPlacedField(placeholder: Placeholder): boolean {
+  return placeholder.originalTag === '';
+}
+
+// Signers fill every type but signatures, initials and dates through a named value
+function needsFieldName(type: PlacedField['type']): boolean {
+  return type !== 'SIGNATURE' && type !== 'INITIALS' && type !== 'DATE';
+}
+
+function needsOptions(type: PlacedField['type']): boolean {
+  return type === 'RADIO' || type === 'SELECT';
+}
+
+function cleanOptions(options: string[] = []): string[] {
+  return options.map((o) => o.trim()).filter(Boolean);
+}
+
+// Pixel box, from the page's top-left, for a field measured in PDF points
+function toScreen(field: PlacedField, view: number[]) {
+  return {
+    left: (field.x - view[0]) * RENDER_SCALE,
+    top: (view[3] - field.y - field.height) * RENDER_SCALE,
+    width: field.width * RENDER_SCALE,
+    height: field.height * RENDER_SCALE,
+  };
+}
+
+function clampToPage(field: PlacedField, view: number[]): PlacedField {
+  const width = Math.min(Math.max(field.width, MIN_SIZE), view[2] - view[0]);
+  const height = Math.min(Math.max(field.height, MIN_SIZE), view[3] - view[1]);
+  return {
+    ...field,
+    width,
+    height,
+    x: Math.min(Math.max(field.x, view[0]), view[2] - width),
+    y: Math.min(Math.max(field.y, view[1]), view[3] - height),
+  };
+}
+
+export default function FieldPlacementEditor({
+  source,
+  placeholders,
+  roles,
+  saving = false,
+  onSave,
+  onCancel,
+}: FieldPlacementEditorProps) {
+  const [pages, setPages] = useState<RenderedPage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [fields, setFields] = useState<PlacedField[]>(() =>
+    placeholders.filter(isPlacedField).map(({ originalTag, ...field }) => field)
+  );
+  const [selected, setSelected] = useState<number | null>(null);
+  const [newFieldRole, setNewFieldRole] = useState(roles[0] || 'signer');
+  const dragRef = useRef<DragState | null>(null);
+
+  // Fields found from tags in the document are shown but cannot be edited here
+  const taggedPlaceholders = placeholders.filter((p) => !isPlacedField(p));
+  const knownRoles = Array.from(new Set([...roles, ...fields.map((f) => f.role)]));
+  const selectedField = selected !== null ? fields[selected] : null;
+  const hasSignature = [...taggedPlaceholders, ...fields].some((p) => p.type === 'SIGNATURE');
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const renderPages = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const pdfjs = await import('pdfjs-dist');
+        pdfjs.GlobalWorkerOptions.workerSrc = new URL(
+          'pdfjs-dist/build/pdf.worker.min.js',
+          import.meta.url
+        ).toString();
+
+        const pdf = await pdfjs.getDocument(
+          typeof source === 'string'
+            ? { url: source, withCredentials: true, disableRange: true, disableStream: true }
+            : { data: new Uint8Array(await source.arrayBuffer()) }
+        ).promise;
+
+        const rendered: RenderedPage[] = [];
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+          const page = await pdf.getPage(pageNumber);
+          // Unrotated, so screen positions map straight onto page coordinates
+          const viewport = page.getViewport({ scale: RENDER_SCALE, rotation: 0 });
+          const canvas = document.createElement('canvas');
+          canvas.width = Math.ceil(viewport.width);
+          canvas.height = Math.ceil(viewport.height);
+          await page.render({ canvasContext: canvas.getContext('2d')!, viewport }).promise;
+          rendered.push({ image: canvas.toDataURL('image/png'), view: page.view });
+        }
+        await pdf.destroy();
+
+        if (!cancelled) setPages(rendered);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not render the PDF');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    renderPages();
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  const updateField = (index: number, changes: Partial<PlacedField>) => {
+    setFields((current) => current.map((f, i) => (i === index ? { ...f, ...changes } : f)));
+  };
+
+  const removeField = (index: number) => {
+    setFields((current) => current.filter((_, i) => i !== index));
+    setSelected(null);
+  };
+
+  // Named fields need a name that is unique in the document
+  const nextFieldName = () => {
+    const taken = new Set([...taggedPlaceholders, ...fields].map((p) => p.fieldName));
+    let n = 1;
+    while (taken.has(`Field_${n}`)) n++;
+    return `Field_${n}`;
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>, pageIndex: number) => {
+    e.preventDefault();
+    const type = e.dataTransfer.getData('application/x-field-type') as PlacedField['type'];
+    if (!DEFAULT_SIZES[type]) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const view = pages[pageIndex].view;
+    const size = DEFAULT_SIZES[type];
+
+    // Centre the new field on the drop point
+    const field = clampToPage(
+      {
+        type,
+        role: newFieldRole.trim() || 'signer',
+        fieldName: needsFieldName(type) ? nextFieldName() : undefined,
+        options: needsOptions(type) ? DEFAULT_OPTIONS : undefined,
+        pageNumber: pageIndex + 1,
+        x: view[0] + (e.clientX - rect.left) / RENDER_SCALE - size.width / 2,
+        y: view[3] - (e.clientY - rect.top) / RENDER_SCALE - size.height / 2,
+        ...size,
+      },
+      view
+    );
+
+    setFields([...fields, field]);
+    setSelected(fields.length);
+  };
+
+  const startDrag = (e: React.PointerEvent<HTMLDivElement>, index: number, mode: DragState['mode']) => {
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setSelected(index);
+    dragRef.current = { index, mode, startX: e.clientX, startY: e.clientY, origin: fields[index] };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    // Screen y grows downwards, PDF y grows upwards
+    const dx = (e.clientX - drag.startX) / RENDER_SCALE;
+    const dy = (e.clientY - drag.startY) / RENDER_SCALE;
+    const { origin } = drag;
+
+    let moved: PlacedField;
+    if (drag.mode === 'move') {
+      moved = { ...origin, x: origin.x + dx, y: origin.y - dy };
+    } else {
+      // Resizing from the bottom-right corner keeps the top edge where it is
+      const height = Math.max(origin.height + dy, MIN_SIZE);
+      moved = {
+        ...origin,
+        width: Math.max(origin.width + dx, MIN_SIZE),
+        height,
+        y: origin.y + origin.height - height,
+      };
+    }
+
+    setFields((current) =>
+      current.map((f, i) => (i === drag.index ? clampToPage(moved, pages[f.pageNumber - 1].view) : f))
+    );
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const handleSave = () => {
+    const unnamed = fields.findIndex((f) => needsFieldName(f.type) && !f.fieldName?.trim());
+    if (unnamed !== -1) {
+      setSelected(unnamed);
+      setError('Every field other than signatures, initials and dates needs a name');
+      return;
+    }
+    const noOptions = fields.findIndex((f) => needsOptions(f.type) && cleanOptions(f.options).length === 0);
+    if (noOptions !== -1) {
+      setSelected(noOptions);
+      setError('Every radio and select field needs at least one option');
+      return;
+    }
+    setError(null);
+    onSave(
+      fields.map((f) => ({
+        ...f,
+        role: f.role.trim(),
+        fieldName: needsFieldName(f.type) ? f.fieldName?.trim() : undefined,
+        options: needsOptions(f.type) ? cleanOptions(f.options) : undefined,
+      }))
+    );
+  };
+
+  return (
+    <div className="card p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">Place Fields</h2>
+          <p className="text-sm text-gray-600">
+            Drag a field onto a page, then move it or resize it from its corner. Fields
+            found from tags in the document are shown dashed and cannot be changed here.
+          </p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <button type="button" onClick={onCancel} className="btn btn-secondary">
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || loading}
+            className="btn btn-primary"
+          >
+            {saving ? 'Saving...' : 'Save Fields'}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {!loading && !hasSignature && (
+        <p className="text-sm text-yellow-700 bg-yellow-50 rounded px-3 py-2">
+          Place at least one signature field before sending.
+        </p>
+      )}
+
+      <datalist id="field-placement-roles">
+        {knownRoles.map((role) => (
+          <option key={role} value={role} />
+        ))}
+      </datalist>
+
+      <div className="flex gap-6 items-start">
+        {/* Palette and the selected field */}
+        <div className="w-64 shrink-0 space-y-6">
+          <div>
+            <label className="label">New fields go to role</label>
+            <input
+              type="text"
+              list="field-placement-roles"
+              value={newFieldRole}
+              onChange={(e) => setNewFieldRole(e.target.value)}
+              className="input"
+            />
+            <div className="mt-3 space-y-2">
+              {(Object.keys(DEFAULT_SIZES) as PlacedField['type'][]).map((type) => (
+                <div
+                  key={type}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData('application/x-field-type', type);
+                    e.dataTransfer.effectAllowed = 'copy';
+                  }}
+                  className={`px-3 py-2 rounded border-2 text-sm font-medium cursor-grab ${FIELD_STYLES[type]}`}
+                >
+                  {FIELD_LABELS[type]}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {selectedField && selected !== null ? (
+            <div className="space-y-3 border-t pt-4">
+              <h3 className="font-medium text-gray-900">
+                {FIELD_LABELS[selectedField.type]} field, page {selectedField.pageNumber}
+              </h3>
+              <div>
+                <label className="label">Type</label>
+                <select
+                  value={selectedField.type}
+                  onChange={(e) => {
+                    const type = e.target.value as PlacedField['type'];
+                    updateField(selected, {
+                      type,
+                      fieldName: needsFieldName(type) ? selectedField.fieldName || nextFieldName() : undefined,
+                      options: needsOptions(type) ? selectedField.options || DEFAULT_OPTIONS : undefined,
+                    });
+                  }}
+                  className="input"
+                >
+                  {(Object.keys(FIELD_LABELS) as PlacedField['type'][]).map((type) => (
+                    <option key={type} value={type}>
+                      {FIELD_LABELS[type]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="label">Role</label>
+                <input
+                  type="text"
+                  list="field-placement-roles"
+                  value={selectedField.role}
+                  onChange={(e) => updateField(selected, { role: e.target.value })}
+                  className="input"
+                />
+              </div>
+              {needsFieldName(selectedField.type) && (
+                <div>
+                  <label className="label">Field Name</label>
+                  <input
+                    type="text"
+                    value={selectedField.fieldName || ''}
+                    onChange={(e) => updateField(selected, { fieldName: e.target.value })}
+                    className="input"
+                  />
+                </div>
+              )}
+              {needsOptions(selectedField.type) && (
+                <div>
+                  <label className="label">Options (one per line)</label>
+                  <textarea
+                    rows={4}
+                    value={(selectedField.options || []).join('\n')}
+                    onChange={(e) => updateField(selected, { options: e.target.value.split('\n') })}
+                    className="input"
+                  />
+                </div>
+              )}
+              <button
+                type="button"
+                onClick={() => removeField(selected)}
+                className="btn btn-danger text-sm px-3 py-1"
+              >
+                Remove Field
+              </button>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 border-t pt-4">
+              {fields.length} placed {fields.length === 1 ? 'field' : 'fields'}. Click one to edit it.
+            </p>
+          )}
+        </div>
+
+        {/* Pages */}
+        <div className="flex-1 min-w-0 max-h-[80vh] overflow-auto bg-gray-100 rounded-lg p-4 space-y-4">
+          {loading ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            pages.map((page, pageIndex) => (
+              <div
+                key={pageIndex}
+                className="relative mx-auto bg-white shadow select-none"
+                style={{
+                  width: (page.view[2] - page.view[0]) * RENDER_SCALE,
+                  height: (page.view[3] - page.view[1]) * RENDER_SCALE,
+                }}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => handleDrop(e, pageIndex)}
+                onPointerDown={() => setSelected(null)}
+              >
+                <img
+                  src={page.image}
+                  alt={`Page ${pageIndex + 1}`}
+                  draggable={false}
+                  className="absolute inset-0 w-full h-full"
+                />
+
+                {taggedPlaceholders
+                  .filter((p) => p.pageNumber === pageIndex + 1)
+                  .map((p, i) => (
+                    <div
+                      key={`tag-${i}`}
+                      className="absolute border border-dashed border-gray-400 bg-gray-200/40 px-1 text-[10px] text-gray-600 overflow-hidden pointer-events-none"
+                      style={toScreen(p, page.view)}
+                    >
+                      {FIELD_LABELS[p.type]} · {p.fieldName || p.role}
+                    </div>
+                  ))}
+
+                {fields.map((field, index) =>
+                  field.pageNumber === pageIndex + 1 ? (
+                    <div
+                      key={index}
+                      className={`absolute border-2 px-1 text-xs overflow-hidden cursor-move touch-none ${FIELD_STYLES[field.type]} ${
+                        selected === index ? 'ring-2 ring-offset-1 ring-blue-400' : ''
+                      }`}
+                      style={toScreen(field, page.view)}
+                      onPointerDown={(e) => startDrag(e, index, 'move')}
+                      onPointerMove={handlePointerMove}
+                      onPointerUp={endDrag}
+                      onPointerCancel={endDrag}
+                    >
+                      {FIELD_LABELS[field.type]} · {needsFieldName(field.type) ? field.fieldName : field.role}
+                      <div
+                        className="absolute bottom-0 right-0 w-3 h-3 bg-white border border-gray-500 cursor-se-resize"
+                        onPointerDown={(e) => startDrag(e, index, 'resize')}
+                      />
+                    </div>
+                  ) : null
+                )}
+
+                <span className="absolute bottom-1 right-2 text-xs text-gray-400 pointer-events-none">
+                  Page {pageIndex + 1} of {pages.length}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
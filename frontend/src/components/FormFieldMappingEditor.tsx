@@ -0,0 +1,236 @@
+import { useEffect, useState } from 'react';
+import { FormField, FormFieldMapping, Placeholder } from '@/lib/api';
+
+const KIND_LABELS: Record<FormField['kind'], string> = {
+  signature: 'Signature field',
+  text: 'Text box',
+  checkbox: 'Checkbox',
+  radio: 'Radio group',
+  choice: 'List',
+  button: 'Button',
+};
+
+const TYPE_LABELS: Record<Placeholder['type'], string> = {
+  SIGNATURE: 'Signature',
+  INITIALS: 'Initials',
+  DATE: 'Date',
+  TEXT: 'Text',
+  CHECKBOX: 'Checkbox',
+  RADIO: 'Radio',
+  SELECT: 'Select',
+  NUMBER: 'Number',
+};
+
+// Signers fill every type but signatures, initials and dates through a named value
+function needsFieldName(type: MappingRow['type']): boolean {
+  return type !== '' && type !== 'SIGNATURE' && type !== 'INITIALS' && type !== 'DATE';
+}
+
+function needsOptions(type: MappingRow['type']): boolean {
+  return type === 'RADIO' || type === 'SELECT';
+}
+
+interface MappingRow {
+  name: string;
+  kind: FormField['kind'];
+  pageNumber: number;
+  type: Placeholder['type'] | '';
+  role: string;
+  fieldName: string;
+  // Comma-separated; empty uses the form field's own options
+  options: string;
+  fieldOptions?: string[];
+}
+
+interface FormFieldMappingEditorProps {
+  loadFormFields: () => Promise<{ formFields: FormField[] }>;
+  placeholders: Placeholder[];
+  roles: string[];
+  saving?: boolean;
+  onSave: (mapping: FormFieldMapping) => void;
+  onCancel: () => void;
+}
+
+// One row per field; a field with several widgets is listed on its first page
+function toRows(formFields: FormField[], placeholders: Placeholder[]): MappingRow[] {
+  const rows: MappingRow[] = [];
+  for (const field of formFields) {
+    if (rows.some((r) => r.name === field.name)) continue;
+    const assigned = placeholders.find((p) => p.formField === field.name);
+    const customOptions = assigned?.options && assigned.options.join() !== field.options?.join();
+    rows.push({
+      name: field.name,
+      kind: field.kind,
+      pageNumber: field.pageNumber,
+      type: assigned?.type || '',
+      role: assigned?.role || '',
+      fieldName: assigned?.fieldName || '',
+      options: customOptions ? assigned.options!.join(', ') : '',
+      fieldOptions: field.options,
+    });
+  }
+  return rows;
+}
+
+export default function FormFieldMappingEditor({
+  loadFormFields,
+  placeholders,
+  roles,
+  saving = false,
+  onSave,
+  onCancel,
+}: FormFieldMappingEditorProps) {
+  const [rows, setRows] = useState<MappingRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadFormFields()
+      .then(({ formFields }) => setRows(toRows(formFields, placeholders)))
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load form fields'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const updateRow = (index: number, changes: Partial<MappingRow>) => {
+    setRows((current) => current.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const handleSave = () => {
+    const assigned = rows.filter((r) => r.type);
+    if (assigned.some((r) => !r.role.trim())) {
+      setError('Give every assigned field a role');
+      return;
+    }
+    const toOptions = (row: MappingRow) => row.options.split(',').map((o) => o.trim()).filter(Boolean);
+    if (assigned.some((r) => needsOptions(r.type) && !r.fieldOptions && toOptions(r).length === 0)) {
+      setError('List the options for radio and select fields that have none of their own');
+      return;
+    }
+    setError(null);
+
+    const mapping: FormFieldMapping = {};
+    for (const row of assigned) {
+      const options = needsOptions(row.type) ? toOptions(row) : [];
+      mapping[row.name] = {
+        type: row.type as Placeholder['type'],
+        role: row.role.trim(),
+        fieldName: needsFieldName(row.type) ? row.fieldName.trim() || undefined : undefined,
+        options: options.length ? options : undefined,
+      };
+    }
+    onSave(mapping);
+  };
+
+  return (
+    <div className="card p-6 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-semibold">Form Fields</h2>
+          <p className="text-sm text-gray-600">
+            Assign the document&apos;s fillable fields to roles. Fields named like tags, such as{' '}
+            <code>Sig_es_:employee:signature</code>, are assigned from their name when left unset.
+            Other fields are filled with the value signers enter for their field name.
+          </p>
+        </div>
+        <div className="flex gap-2 shrink-0">
+          <button type="button" onClick={onCancel} className="btn btn-secondary">
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || loading || rows.length === 0}
+            className="btn btn-primary"
+          >
+            {saving ? 'Saving...' : 'Save Mapping'}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <datalist id="form-field-roles">
+        {roles.map((role) => (
+          <option key={role} value={role} />
+        ))}
+      </datalist>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-32">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+        </div>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-gray-500">This document has no form fields</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-4 font-medium">Field</th>
+                <th className="py-2 pr-4 font-medium">Page</th>
+                <th className="py-2 pr-4 font-medium">Fill As</th>
+                <th className="py-2 pr-4 font-medium">Role</th>
+                <th className="py-2 font-medium">Field Name</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {rows.map((row, index) => (
+                <tr key={row.name}>
+                  <td className="py-2 pr-4">
+                    <p className="font-medium text-gray-900 break-all">{row.name}</p>
+                    <p className="text-xs text-gray-500">{KIND_LABELS[row.kind]}</p>
+                  </td>
+                  <td className="py-2 pr-4 text-gray-700">{row.pageNumber}</td>
+                  <td className="py-2 pr-4">
+                    <select
+                      value={row.type}
+                      onChange={(e) => updateRow(index, { type: e.target.value as MappingRow['type'] })}
+                      className="input"
+                    >
+                      <option value="">Not used</option>
+                      {(Object.keys(TYPE_LABELS) as Placeholder['type'][]).map((type) => (
+                        <option key={type} value={type}>
+                          {TYPE_LABELS[type]}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="py-2 pr-4">
+                    <input
+                      type="text"
+                      list="form-field-roles"
+                      value={row.role}
+                      onChange={(e) => updateRow(index, { role: e.target.value })}
+                      disabled={!row.type}
+                      className="input"
+                    />
+                  </td>
+                  <td className="py-2 space-y-2">
+                    {needsFieldName(row.type) && (
+                      <input
+                        type="text"
+                        value={row.fieldName}
+                        onChange={(e) => updateRow(index, { fieldName: e.target.value })}
+                        placeholder={row.name}
+                        className="input"
+                      />
+                    )}
+                    {needsOptions(row.type) && (
+                      <input
+                        type="text"
+                        value={row.options}
+                        onChange={(e) => updateRow(index, { options: e.target.value })}
+                        placeholder={row.fieldOptions?.join(', ') || 'Options, separated by commas'}
+                        className="input"
+                      />
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
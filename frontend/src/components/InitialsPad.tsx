@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from 'react';
+import SignaturePadLib from 'signature_pad';
+
+interface InitialsPadProps {
+  typedName: string;
+  onInitialsChange: (data: string | null, type: 'drawn' | 'typed') => void;
+}
+
+// First letter of each word, e.g. "Jane van Doe" is "JVD"
+export function getInitials(name: string): string {
+  return name
+    .trim()
+    .split(/\s+/)
+    .map((word) => word.charAt(0))
+    .join('')
+    .toUpperCase()
+    .slice(0, 4);
+}
+
+export default function InitialsPad({ typedName, onInitialsChange }: InitialsPadProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const initialsPadRef = useRef<SignaturePadLib | null>(null);
+  const onInitialsChangeRef = useRef(onInitialsChange);
+  const [mode, setMode] = useState<'draw' | 'type'>('type');
+  // Typed initials follow the signer's name until they are edited
+  const [initials, setInitials] = useState(() => getInitials(typedName));
+  const [edited, setEdited] = useState(false);
+
+  // Keep callback ref updated
+  useEffect(() => {
+    onInitialsChangeRef.current = onInitialsChange;
+  }, [onInitialsChange]);
+
+  useEffect(() => {
+    if (mode !== 'type' || edited) return;
+    const derived = getInitials(typedName);
+    setInitials(derived);
+    onInitialsChangeRef.current(derived || null, 'typed');
+  }, [typedName, mode, edited]);
+
+  // Create the pad whenever draw mode is shown
+  useEffect(() => {
+    if (mode !== 'draw' || !canvasRef.current) return;
+
+    const canvas = canvasRef.current;
+    const rect = canvas.getBoundingClientRect();
+    const ratio = Math.max(window.devicePixelRatio || 1, 1);
+
+    canvas.width = rect.width * ratio;
+    canvas.height = rect.height * ratio;
+    canvas.getContext('2d')?.scale(ratio, ratio);
+
+    const pad = new SignaturePadLib(canvas, {
+      backgroundColor: 'rgb(255, 255, 255)',
+      penColor: 'rgb(0, 0, 100)',
+      minWidth: 1,
+      maxWidth: 2.5,
+    });
+    pad.addEventListener('endStroke', () => {
+      if (!pad.isEmpty()) {
+        onInitialsChangeRef.current(pad.toDataURL('image/png'), 'drawn');
+      }
+    });
+    initialsPadRef.current = pad;
+    onInitialsChangeRef.current(null, 'drawn');
+
+    return () => {
+      pad.off();
+      initialsPadRef.current = null;
+    };
+  }, [mode]);
+
+  const clearInitials = () => {
+    initialsPadRef.current?.clear();
+    onInitialsChange(null, 'drawn');
+  };
+
+  const handleInitialsChange = (value: string) => {
+    setEdited(true);
+    setInitials(value);
+    onInitialsChange(value.trim() || null, 'typed');
+  };
+
+  const switchMode = (newMode: 'draw' | 'type') => {
+    if (newMode === mode) return;
+    setMode(newMode);
+    if (newMode === 'type') {
+      onInitialsChange(initials.trim() || null, 'typed');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Mode tabs */}
+      <div className="flex border-b border-gray-200">
+        {(['type', 'draw'] as const).map((tab) => (
+          <button
+            key={tab}
+            type="button"
+            onClick={() => switchMode(tab)}
+            className={`px-3 py-1 text-sm font-medium border-b-2 transition-colors ${
+              mode === tab
+                ? 'border-blue-500 text-blue-600'
+                : 'border-transparent text-gray-500 hover:text-gray-700'
+            }`}
+          >
+            {tab === 'type' ? 'Type Initials' : 'Draw Initials'}
+          </button>
+        ))}
+      </div>
+
+      {mode === 'draw' ? (
+        <div className="flex items-end gap-3">
+          <div className="border-2 border-gray-300 rounded-lg bg-white">
+            <canvas
+              ref={canvasRef}
+              className="w-48 h-20 rounded-lg cursor-crosshair"
+              style={{ touchAction: 'none' }}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={clearInitials}
+            className="text-sm text-blue-500 hover:text-blue-700 font-medium"
+          >
+            Clear
+          </button>
+        </div>
+      ) : (
+        <input
+          type="text"
+          value={initials}
+          onChange={(e) => handleInitialsChange(e.target.value)}
+          maxLength={6}
+          placeholder="Initials"
+          className="input w-32 text-xl font-serif italic text-center text-blue-800"
+        />
+      )}
+    </div>
+  );
+}
@@ -20,6 +20,9 @@ export default function Layout({ children }: LayoutProps) {
   const adminNavItems = [
     { href: '/', label: 'Dashboard' },
     { href: '/packets', label: 'Packets' },
+    { href: '/templates', label: 'Templates' },
+    { href: '/webhooks', label: 'Webhooks' },
+    { href: '/api-keys', label: 'API Keys' },
   ];
 
   // User navigation items
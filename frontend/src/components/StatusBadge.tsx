@@ -7,12 +7,17 @@ const statusConfig: Record<string, { bg: string; text: string; label: string }>
   draft: { bg: 'bg-gray-100', text: 'text-gray-700', label: 'Draft' },
   sent: { bg: 'bg-blue-100', text: 'text-blue-700', label: 'Sent' },
   in_progress: { bg: 'bg-yellow-100', text: 'text-yellow-700', label: 'In Progress' },
+  completing: { bg: 'bg-yellow-100', text: 'text-yellow-700', label: 'Completing' },
   completed: { bg: 'bg-green-100', text: 'text-green-700', label: 'Completed' },
   cancelled: { bg: 'bg-red-100', text: 'text-red-700', label: 'Cancelled' },
   pending: { bg: 'bg-gray-100', text: 'text-gray-600', label: 'Pending' },
   notified: { bg: 'bg-blue-100', text: 'text-blue-700', label: 'Notified' },
   signed: { bg: 'bg-green-100', text: 'text-green-700', label: 'Signed' },
   skipped: { bg: 'bg-orange-100', text: 'text-orange-700', label: 'Skipped' },
+  declined: { bg: 'bg-red-100', text: 'text-red-700', label: 'Declined' },
+  expired: { bg: 'bg-orange-100', text: 'text-orange-700', label: 'Expired' },
+  succeeded: { bg: 'bg-green-100', text: 'text-green-700', label: 'Delivered' },
+  failed: { bg: 'bg-red-100', text: 'text-red-700', label: 'Failed' },
 };
 
 export default function StatusBadge({ status, size = 'md' }: StatusBadgeProps) {
@@ -56,6 +56,31 @@ export const packets = {
     return response.json();
   },
 
+  detectPlaceholders: async (file: File): Promise<PlaceholderDetection> => {
+    const formData = new FormData();
+    formData.append('file', file, file.name);
+
+    const response = await fetch(`${API_URL}/api/packets/detect-placeholders`, {
+      method: 'POST',
+      body: formData,
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Could not read the PDF' }));
+      throw new Error(error.error || 'Could not read the PDF');
+    }
+
+    return response.json();
+  },
+
+  createFromTemplate: (data: CreateFromTemplateData) =>
+    api<Packet>('/api/packets/from-template', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    }),
+
   update: (id: string, data: UpdatePacketData) =>
     api<Packet>(`/api/packets/${id}`, {
       method: 'PATCH',
@@ -63,6 +88,22 @@ export const packets = {
       body: JSON.stringify(data),
     }),
 
+  updateFields: (id: string, fields: PlacedField[]) =>
+    api<PlaceholderDetection>(`/api/packets/${id}/fields`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fields }),
+    }),
+
+  formFields: (id: string) => api<{ formFields: FormField[] }>(`/api/packets/${id}/form-fields`),
+
+  updateFormFields: (id: string, mapping: FormFieldMapping) =>
+    api<PlaceholderDetection>(`/api/packets/${id}/form-fields`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ mapping }),
+    }),
+
   delete: (id: string) => api<void>(`/api/packets/${id}`, { method: 'DELETE' }),
 
   send: (id: string) => api<{ success: boolean }>(`/api/packets/${id}/send`, { method: 'POST' }),
@@ -71,37 +112,222 @@ export const packets = {
 
   cancel: (id: string) => api<void>(`/api/packets/${id}/cancel`, { method: 'POST' }),
 
+  reassign: (id: string, recipientId: string, data: ReassignData) =>
+    api<{ success: boolean; message: string }>(`/api/packets/${id}/recipients/${recipientId}/reassign`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    }),
+
+  updateReminders: (id: string, data: ReminderSettings) =>
+    api<Pick<Packet, 'reminderEnabled' | 'reminderFirstAfterDays' | 'reminderIntervalDays' | 'reminderMaxCount'>>(
+      `/api/packets/${id}/reminders`,
+      {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      }
+    ),
+
   timeline: (id: string) => api<AuditLog[]>(`/api/packets/${id}/timeline`),
 
-  getRoles: (id: string) => api<{ roles: string[]; placeholders: Placeholder[] }>(`/api/packets/${id}/roles`),
+  getRoles: (id: string) => api<PlaceholderDetection>(`/api/packets/${id}/roles`),
+};
+
+// Templates API
+export const templates = {
+  list: () => api<Template[]>('/api/templates'),
+
+  get: (id: string) => api<Template>(`/api/templates/${id}`),
+
+  create: async (formData: FormData): Promise<Template> => {
+    const response = await fetch(`${API_URL}/api/templates`, {
+      method: 'POST',
+      body: formData,
+      credentials: 'include',
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Upload failed' }));
+      throw new Error(error.error || 'Upload failed');
+    }
+
+    return response.json();
+  },
+
+  update: (id: string, data: UpdateTemplateData) =>
+    api<Template>(`/api/templates/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    }),
+
+  updateFields: (id: string, fields: PlacedField[]) =>
+    api<Template>(`/api/templates/${id}/fields`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fields }),
+    }),
+
+  formFields: (id: string) => api<{ formFields: FormField[] }>(`/api/templates/${id}/form-fields`),
+
+  updateFormFields: (id: string, mapping: FormFieldMapping) =>
+    api<Template>(`/api/templates/${id}/form-fields`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ mapping }),
+    }),
+
+  delete: (id: string) => api<void>(`/api/templates/${id}`, { method: 'DELETE' }),
+
+  getPdfUrl: (id: string) => `${API_URL}/api/templates/${id}/pdf`,
 };
 
 // Signing API (public - uses token auth)
+// Session from a verified access code or passcode, sent with every signing request
+const signingSessionHeaders = (session?: string | null): Record<string, string> =>
+  session ? { 'X-Signing-Session': session } : {};
+
 export const signing = {
-  getSession: (token: string) => api<SigningSession>(`/api/signing/${token}`),
+  getSession: (token: string, session?: string | null) =>
+    api<SigningSession | VerificationChallenge>(`/api/signing/${token}`, {
+      headers: signingSessionHeaders(session),
+    }),
 
-  submit: (token: string, data: SignatureSubmission) =>
-    api<{ success: boolean; completed: boolean; message: string }>(`/api/signing/${token}/sign`, {
+  verifyAccessCode: (token: string, code: string) =>
+    api<{ success: boolean; sessionToken: string; expiresAt: string }>(`/api/signing/${token}/access`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ code }),
+    }),
+
+  sendOtp: (token: string, session?: string | null) =>
+    api<{ success: boolean; maskedEmail: string; expiresAt: string }>(`/api/signing/${token}/otp/send`, {
+      method: 'POST',
+      headers: signingSessionHeaders(session),
+    }),
+
+  verifyOtp: (token: string, code: string, session?: string | null) =>
+    api<{ success: boolean; sessionToken: string; expiresAt: string }>(`/api/signing/${token}/otp/verify`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...signingSessionHeaders(session) },
+      body: JSON.stringify({ code }),
+    }),
+
+  submit: (token: string, data: SignatureSubmission, session?: string | null) =>
+    api<{ success: boolean; completed: boolean; message: string }>(`/api/signing/${token}/sign`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...signingSessionHeaders(session) },
       body: JSON.stringify(data),
     }),
 
-  getPdfUrl: (token: string) => `${API_URL}/api/signing/${token}/pdf`,
+  decline: (token: string, reason: string, session?: string | null) =>
+    api<{ success: boolean; message: string }>(`/api/signing/${token}/decline`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...signingSessionHeaders(session) },
+      body: JSON.stringify({ reason }),
+    }),
+
+  delegate: (token: string, data: ReassignData, session?: string | null) =>
+    api<{ success: boolean; message: string }>(`/api/signing/${token}/delegate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...signingSessionHeaders(session) },
+      body: JSON.stringify(data),
+    }),
 };
 
 // Admin API
 export const admin = {
   stats: () => api<DashboardStats>('/api/admin/stats'),
 
-  downloadUrl: (packetId: string) => `${API_URL}/api/admin/packets/${packetId}/download`,
-
   auditLogs: (params?: Record<string, string>) => {
     const query = params ? `?${new URLSearchParams(params)}` : '';
     return api<AuditLog[]>(`/api/admin/audit-logs${query}`);
   },
 
   users: () => api<User[]>('/api/admin/users'),
+
+  verifyAuditChain: (packetId: string) =>
+    api<AuditChainVerification>(`/api/admin/packets/${packetId}/audit/verify`),
+};
+
+// Webhooks API (admin)
+export const webhooks = {
+  list: () => api<WebhookSubscription[]>('/api/webhooks'),
+
+  events: () => api<{ events: string[] }>('/api/webhooks/events'),
+
+  create: (data: CreateWebhookData) =>
+    api<WebhookSubscription>('/api/webhooks', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    }),
+
+  update: (id: string, data: UpdateWebhookData) =>
+    api<WebhookSubscription>(`/api/webhooks/${id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    }),
+
+  delete: (id: string) => api<{ success: boolean }>(`/api/webhooks/${id}`, { method: 'DELETE' }),
+
+  test: (id: string) => api<WebhookDelivery | null>(`/api/webhooks/${id}/test`, { method: 'POST' }),
+
+  deliveries: (id: string) => api<WebhookDelivery[]>(`/api/webhooks/${id}/deliveries`),
+
+  redeliver: (deliveryId: string) =>
+    api<WebhookDelivery>(`/api/webhooks/deliveries/${deliveryId}/redeliver`, { method: 'POST' }),
+};
+
+// API keys (admin)
+export const apiKeys = {
+  list: () => api<ApiKey[]>('/api/api-keys'),
+
+  scopes: () => api<{ scopes: string[] }>('/api/api-keys/scopes'),
+
+  create: (data: CreateApiKeyData) =>
+    api<ApiKey & { key: string }>('/api/api-keys', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(data),
+    }),
+
+  revoke: (id: string) => api<ApiKey>(`/api/api-keys/${id}/revoke`, { method: 'POST' }),
+
+  audit: (id: string) => api<ApiKeyAuditLog[]>(`/api/api-keys/${id}/audit`),
+};
+
+// Document downloads (admin session, or signed URLs handed to signers)
+export const documents = {
+  downloadUrl: (packetId: string, kind: 'original' | 'signed' = 'signed') =>
+    `${API_URL}/api/documents/packets/${packetId}/${kind}`,
+
+  // Signed URLs come back from the API as paths
+  resolveUrl: (url: string) => `${API_URL}${url}`,
+};
+
+// Public document verification API
+export const verification = {
+  byHash: (hash: string) => api<VerificationResult>(`/api/verify/${encodeURIComponent(hash)}`),
+
+  byFile: async (file: File): Promise<VerificationResult> => {
+    const formData = new FormData();
+    formData.append('file', file, file.name);
+
+    const response = await fetch(`${API_URL}/api/verify`, {
+      method: 'POST',
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ error: 'Verification failed' }));
+      throw new Error(error.error || 'Verification failed');
+    }
+
+    return response.json();
+  },
 };
 
 // User Documents API (for regular users)
@@ -135,15 +361,49 @@ export interface UserDocument {
 }
 
 export interface Placeholder {
-  type: 'SIGNATURE' | 'DATE' | 'TEXT';
+  type: 'SIGNATURE' | 'INITIALS' | 'DATE' | 'TEXT' | 'CHECKBOX' | 'RADIO' | 'SELECT' | 'NUMBER';
   role: string;
   fieldName?: string;
+  // Choices for RADIO and SELECT fields
+  options?: string[];
   originalTag?: string;
   pageNumber: number;
   x: number;
   y: number;
   width: number;
   height: number;
+  // Set when the placeholder fills an AcroForm field of that name
+  formField?: string;
+}
+
+// A field placed in the editor; stored as a Placeholder with an empty originalTag
+export type PlacedField = Omit<Placeholder, 'originalTag' | 'formField'>;
+
+// An AcroForm field widget in the document
+export interface FormField {
+  name: string;
+  kind: 'signature' | 'text' | 'checkbox' | 'radio' | 'choice' | 'button';
+  pageNumber: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Export values of radio groups and the choices in lists
+  options?: string[];
+}
+
+// Roles assigned to form fields, keyed by field name
+export type FormFieldMapping = Record<string, {
+  type: Placeholder['type'];
+  role: string;
+  fieldName?: string;
+  options?: string[];
+}>;
+
+export interface PlaceholderDetection {
+  roles: string[];
+  signatureRoles: string[];
+  placeholders: Placeholder[];
 }
 
 export interface Recipient {
@@ -152,8 +412,15 @@ export interface Recipient {
   name: string;
   email: string;
   order: number;
-  status: 'pending' | 'notified' | 'signed' | 'skipped';
+  status: 'pending' | 'notified' | 'signed' | 'skipped' | 'declined' | 'expired';
   signedAt: string | null;
+  notifiedAt?: string | null;
+  reminderCount?: number;
+  lastReminderAt?: string | null;
+  declinedAt?: string | null;
+  declineReason?: string | null;
+  requireOtp?: boolean;
+  hasAccessCode?: boolean;
   userId?: string;
   signature?: {
     id: string;
@@ -168,9 +435,20 @@ export interface Packet {
   name: string;
   fileName: string;
   filePath: string;
+  templateId?: string | null;
   placeholders: Placeholder[];
-  status: 'draft' | 'sent' | 'in_progress' | 'completed' | 'cancelled';
+  prefilledFields?: Record<string, string>;
+  status: 'draft' | 'sent' | 'in_progress' | 'completed' | 'cancelled' | 'declined' | 'expired';
   signedPdfPath: string | null;
+  originalSha256?: string | null;
+  signedSha256?: string | null;
+  reminderEnabled: boolean;
+  reminderFirstAfterDays: number;
+  reminderIntervalDays: number;
+  reminderMaxCount: number;
+  includeCertificate: boolean;
+  stampingMode: StampingMode;
+  flattenForm: boolean;
   createdAt: string;
   updatedAt: string;
   completedAt: string | null;
@@ -179,17 +457,148 @@ export interface Packet {
   auditLogs?: AuditLog[];
 }
 
+export interface Template {
+  id: string;
+  name: string;
+  description: string | null;
+  fileName: string;
+  filePath: string;
+  placeholders: Placeholder[];
+  defaultRoles: string[];
+  roles?: string[];
+  createdAt: string;
+  updatedAt: string;
+  _count?: { packets: number };
+}
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  description: string | null;
+  secret: string;
+  events: string[];
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+  _count?: { deliveries: number };
+}
+
+export interface CreateWebhookData {
+  url: string;
+  description?: string;
+  events: string[];
+}
+
+export interface UpdateWebhookData {
+  url?: string;
+  description?: string | null;
+  events?: string[];
+  isActive?: boolean;
+  rotateSecret?: boolean;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  event: string;
+  packetId: string | null;
+  payload: Record<string, unknown>;
+  status: 'pending' | 'succeeded' | 'failed';
+  attempts: number;
+  nextAttemptAt: string | null;
+  lastAttemptAt: string | null;
+  responseStatus: number | null;
+  lastError: string | null;
+  deliveredAt: string | null;
+  createdAt: string;
+}
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  lastUsedIp: string | null;
+  revokedAt: string | null;
+  createdBy: { email: string; name: string } | null;
+}
+
+export interface CreateApiKeyData {
+  name: string;
+  scopes: string[];
+  expiresInDays?: number;
+}
+
+export interface ApiKeyAuditLog {
+  id: string;
+  apiKeyId: string;
+  action: string;
+  method: string | null;
+  path: string | null;
+  details: string | null;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+}
+
+export interface UpdateTemplateData {
+  name?: string;
+  description?: string | null;
+  defaultRoles?: string[];
+}
+
+export interface CreateFromTemplateData {
+  templateId: string;
+  name?: string;
+  recipients: {
+    roleName: string;
+    name: string;
+    email: string;
+    order: number;
+    requireOtp?: boolean;
+    accessCode?: string;
+  }[];
+  reminders?: ReminderSettings;
+  includeCertificate?: boolean;
+  stampingMode?: StampingMode;
+  flattenForm?: boolean;
+}
+
+// in_place rewrites the tags in the document; overlay draws values at the placeholder positions
+export type StampingMode = 'in_place' | 'overlay';
+
+export interface ReminderSettings {
+  enabled: boolean;
+  firstAfterDays: number;
+  intervalDays: number;
+  maxCount: number;
+}
+
 export interface UpdatePacketData {
   name?: string;
+  includeCertificate?: boolean;
+  stampingMode?: StampingMode;
+  flattenForm?: boolean;
   recipients?: {
     roleName: string;
     name: string;
     email: string;
     order: number;
+    requireOtp?: boolean;
+    accessCode?: string;
     userId?: string;
   }[];
 }
 
+export interface ReassignData {
+  name: string;
+  email: string;
+  reason?: string;
+}
+
 export interface AuditLog {
   id: string;
   packetId: string;
@@ -199,10 +608,37 @@ export interface AuditLog {
   ipAddress: string | null;
   userAgent: string | null;
   createdAt: string;
+  sequence?: number | null;
+  prevHash?: string | null;
+  hash?: string | null;
   packet?: { id: string; name: string };
   recipient?: { name: string; email: string; roleName: string };
 }
 
+export interface VerificationResult {
+  match: boolean;
+  sha256: string;
+  isUnsignedOriginal?: boolean;
+  packet?: {
+    name: string;
+    completedAt: string | null;
+    signers: { name: string; roleName: string; signedAt: string | null }[];
+  };
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checked: number;
+  unchained: number;
+  brokenAt?: {
+    id: string;
+    sequence: number | null;
+    action: string;
+    createdAt: string;
+    reason: string;
+  };
+}
+
 export interface DashboardStats {
   packets: {
     draft: number;
@@ -210,12 +646,30 @@ export interface DashboardStats {
     in_progress: number;
     completed: number;
     cancelled: number;
+    declined: number;
+    expired: number;
   };
   totalPackets: number;
   recentActivity: AuditLog[];
 }
 
+export interface VerificationChallenge {
+  verificationRequired: true;
+  // Entered first when set; null once passed or if none was configured
+  accessCode: {
+    lockedUntil: string | null;
+  } | null;
+  otp: {
+    maskedEmail: string;
+    codeSent: boolean;
+    lockedUntil: string | null;
+  } | null;
+  recipient: { name: string };
+  packet: { name: string };
+}
+
 export interface SigningSession {
+  verificationRequired: false;
   recipient: {
     id: string;
     name: string;
@@ -229,7 +683,8 @@ export interface SigningSession {
   };
   document: {
     fileName: string;
-    filePath: string;
+    url: string;
+    expiresAt: string;
   };
   placeholders: Placeholder[];
   signers: {
@@ -245,6 +700,9 @@ export interface SignatureSubmission {
   signatureData: string;
   signatureType: 'drawn' | 'typed';
   typedName: string;
+  initialsData?: string;
+  initialsType?: 'drawn' | 'typed';
+  initialedPages?: number[];
   textFields?: Record<string, string>;
   confirmed: boolean;
 }
@@ -0,0 +1,299 @@
+import { useEffect, useState } from 'react';
+import Layout from '@/components/Layout';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import { apiKeys, ApiKey, ApiKeyAuditLog } from '@/lib/api';
+import { format, formatDistanceToNow } from 'date-fns';
+
+const scopeLabels: Record<string, string> = {
+  'packets:read': 'Read packets',
+  'packets:write': 'Create and send packets',
+  'packets:manage': 'Reassign, cancel and delete packets',
+  'documents:signed': 'Download signed PDFs',
+};
+
+function ApiKeysPageContent() {
+  const [keyList, setKeyList] = useState<ApiKey[]>([]);
+  const [availableScopes, setAvailableScopes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Create form state
+  const [name, setName] = useState('');
+  const [selectedScopes, setSelectedScopes] = useState<string[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
+  const [newKey, setNewKey] = useState<string | null>(null);
+
+  // Audit trail for the expanded key
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [auditLogs, setAuditLogs] = useState<ApiKeyAuditLog[]>([]);
+
+  useEffect(() => {
+    loadKeys();
+    apiKeys.scopes().then(({ scopes }) => setAvailableScopes(scopes)).catch(() => {});
+  }, []);
+
+  const loadKeys = async () => {
+    try {
+      setLoading(true);
+      const data = await apiKeys.list();
+      setKeyList(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load API keys');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const toggleScope = (scope: string) => {
+    setSelectedScopes((scopes) =>
+      scopes.includes(scope) ? scopes.filter((s) => s !== scope) : [...scopes, scope]
+    );
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selectedScopes.length === 0) {
+      setCreateError('Select at least one scope');
+      return;
+    }
+
+    try {
+      setCreating(true);
+      setCreateError(null);
+      const created = await apiKeys.create({
+        name,
+        scopes: selectedScopes,
+        expiresInDays: expiresInDays ? parseInt(expiresInDays, 10) : undefined,
+      });
+      setNewKey(created.key);
+      setName('');
+      setSelectedScopes([]);
+      setExpiresInDays('');
+      loadKeys();
+    } catch (err) {
+      setCreateError(err instanceof Error ? err.message : 'Failed to create API key');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke "${apiKey.name}"? Scripts using it will stop working immediately.`)) return;
+    try {
+      await apiKeys.revoke(apiKey.id);
+      loadKeys();
+      if (expandedId === apiKey.id) setAuditLogs(await apiKeys.audit(apiKey.id));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to revoke');
+    }
+  };
+
+  const toggleAudit = async (id: string) => {
+    if (expandedId === id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(id);
+    setAuditLogs([]);
+    try {
+      setAuditLogs(await apiKeys.audit(id));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to load audit trail');
+    }
+  };
+
+  const keyStatus = (apiKey: ApiKey) => {
+    if (apiKey.revokedAt) return { label: 'Revoked', className: 'bg-red-100 text-red-700' };
+    if (apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date()) {
+      return { label: 'Expired', className: 'bg-orange-100 text-orange-700' };
+    }
+    return { label: 'Active', className: 'bg-green-100 text-green-700' };
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">API Keys</h1>
+          <p className="text-gray-600">
+            Keys for scripts and integrations, sent as <code>Authorization: Bearer &lt;key&gt;</code>
+          </p>
+        </div>
+
+        {/* Newly created key, shown once */}
+        {newKey && (
+          <div className="card p-6 border-green-300 bg-green-50 space-y-2">
+            <p className="font-semibold text-gray-900">Copy this key now. It will not be shown again.</p>
+            <code className="block bg-white border rounded px-3 py-2 text-sm break-all">{newKey}</code>
+            <button onClick={() => setNewKey(null)} className="btn btn-secondary text-sm px-3 py-1">
+              Done
+            </button>
+          </div>
+        )}
+
+        {/* Create */}
+        <form onSubmit={handleCreate} className="card p-6 space-y-4">
+          <h2 className="text-lg font-semibold">Create Key</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="label">Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., HRIS onboarding sync"
+                className="input"
+                required
+              />
+            </div>
+            <div>
+              <label className="label">Expires After (days, optional)</label>
+              <input
+                type="number"
+                min={1}
+                value={expiresInDays}
+                onChange={(e) => setExpiresInDays(e.target.value)}
+                placeholder="Never"
+                className="input"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="label">Scopes</label>
+            <div className="flex flex-wrap gap-4">
+              {availableScopes.map((scope) => (
+                <label key={scope} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={selectedScopes.includes(scope)}
+                    onChange={() => toggleScope(scope)}
+                  />
+                  {scopeLabels[scope] || scope}
+                </label>
+              ))}
+            </div>
+          </div>
+          {createError && <p className="text-sm text-red-600">{createError}</p>}
+          <button type="submit" disabled={creating || !name} className="btn btn-primary">
+            {creating ? 'Creating...' : 'Create Key'}
+          </button>
+        </form>
+
+        {/* Key list */}
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <p className="text-red-600 mb-4">{error}</p>
+            <button onClick={loadKeys} className="btn btn-primary">
+              Retry
+            </button>
+          </div>
+        ) : keyList.length === 0 ? (
+          <div className="card p-12 text-center">
+            <p className="text-gray-500">No API keys yet</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {keyList.map((apiKey) => {
+              const status = keyStatus(apiKey);
+              return (
+                <div key={apiKey.id} className="card p-6">
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2">
+                        <p className="text-lg font-semibold text-gray-900">{apiKey.name}</p>
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${status.className}`}>
+                          {status.label}
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-500 mt-1">
+                        <code>{apiKey.prefix}…</code>
+                        {apiKey.createdBy && ` • Created by ${apiKey.createdBy.email}`}
+                      </p>
+                      <div className="mt-3 flex flex-wrap gap-2">
+                        {apiKey.scopes.map((scope) => (
+                          <span key={scope} className="px-2 py-1 bg-gray-50 rounded text-sm text-gray-700">
+                            {scopeLabels[scope] || scope}
+                          </span>
+                        ))}
+                      </div>
+                      <p className="text-xs text-gray-400 mt-3">
+                        Created {formatDistanceToNow(new Date(apiKey.createdAt), { addSuffix: true })}
+                        {' • '}
+                        {apiKey.lastUsedAt
+                          ? `Last used ${formatDistanceToNow(new Date(apiKey.lastUsedAt), { addSuffix: true })}${apiKey.lastUsedIp ? ` from ${apiKey.lastUsedIp}` : ''}`
+                          : 'Never used'}
+                        {apiKey.expiresAt && ` • Expires ${format(new Date(apiKey.expiresAt), 'MMM d, yyyy')}`}
+                      </p>
+                    </div>
+
+                    {/* Actions */}
+                    <div className="flex gap-2 ml-4">
+                      <button
+                        onClick={() => toggleAudit(apiKey.id)}
+                        className="btn btn-secondary text-sm px-3 py-1"
+                      >
+                        {expandedId === apiKey.id ? 'Hide Activity' : 'Activity'}
+                      </button>
+                      {!apiKey.revokedAt && (
+                        <button
+                          onClick={() => handleRevoke(apiKey)}
+                          className="btn btn-danger text-sm px-3 py-1"
+                        >
+                          Revoke
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {/* Audit trail */}
+                  {expandedId === apiKey.id && (
+                    <div className="mt-6 border-t pt-4">
+                      {auditLogs.length === 0 ? (
+                        <p className="text-sm text-gray-500">No activity recorded</p>
+                      ) : (
+                        <div className="divide-y">
+                          {auditLogs.map((log) => (
+                            <div key={log.id} className="py-2 text-sm flex justify-between gap-4">
+                              <div className="min-w-0">
+                                <span className="font-medium text-gray-900 capitalize">{log.action}</span>
+                                {log.method && (
+                                  <span className="text-gray-600 ml-2">
+                                    <code>{log.method} {log.path}</code>
+                                  </span>
+                                )}
+                                {log.details && <p className="text-gray-600">{log.details}</p>}
+                              </div>
+                              <div className="text-xs text-gray-400 text-right shrink-0">
+                                <p>{format(new Date(log.createdAt), 'MMM d, yyyy h:mm a')}</p>
+                                {log.ipAddress && <p>{log.ipAddress}</p>}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
+
+export default function ApiKeysPage() {
+  return (
+    <ProtectedRoute requireAdmin>
+      <ApiKeysPageContent />
+    </ProtectedRoute>
+  );
+}
@@ -3,17 +3,49 @@ import { useRouter } from 'next/router';
 import Layout from '@/components/Layout';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import StatusBadge from '@/components/StatusBadge';
-import { packets, Packet, AuditLog, admin } from '@/lib/api';
+import FieldPlacementEditor from '@/components/FieldPlacementEditor';
+import FormFieldMappingEditor from '@/components/FormFieldMappingEditor';
+import { packets, Packet, AuditLog, AuditChainVerification, Recipient, ReminderSettings, PlacedField, FormFieldMapping, admin, documents } from '@/lib/api';
 import { format, formatDistanceToNow } from 'date-fns';
 
+// Group recipients into signing stages; recipients sharing an order sign in parallel
+function getStages(recipients: Recipient[]): Recipient[][] {
+  const stages = new Map<number, Recipient[]>();
+  for (const r of recipients) {
+    stages.set(r.order, [...(stages.get(r.order) || []), r]);
+  }
+  return Array.from(stages.keys())
+    .sort((a, b) => a - b)
+    .map((order) => stages.get(order)!);
+}
+
 function PacketDetailContent() {
   const router = useRouter();
   const { id } = router.query;
   const [packet, setPacket] = useState<Packet | null>(null);
   const [timeline, setTimeline] = useState<AuditLog[]>([]);
+  const [chain, setChain] = useState<AuditChainVerification | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Reassign form state
+  const [reassigningId, setReassigningId] = useState<string | null>(null);
+  const [reassignName, setReassignName] = useState('');
+  const [reassignEmail, setReassignEmail] = useState('');
+  const [reassignReason, setReassignReason] = useState('');
+
+  // Reminder settings edit state
+  const [editingReminders, setEditingReminders] = useState(false);
+  const [reminderForm, setReminderForm] = useState<ReminderSettings | null>(null);
+
+  // Field placement editor (drafts only)
+  const [placingFields, setPlacingFields] = useState(false);
+  const [savingFields, setSavingFields] = useState(false);
+
+  // Form field role mapping (drafts only)
+  const [mappingFormFields, setMappingFormFields] = useState(false);
+  const [savingMapping, setSavingMapping] = useState(false);
+
   useEffect(() => {
     if (id && typeof id === 'string') {
       loadPacket(id);
@@ -29,6 +61,8 @@ function PacketDetailContent() {
       ]);
       setPacket(packetData);
       setTimeline(timelineData);
+      // Verification failure shouldn't block the page
+      admin.verifyAuditChain(packetId).then(setChain).catch(() => setChain(null));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load packet');
     } finally {
@@ -46,6 +80,34 @@ function PacketDetailContent() {
     }
   };
 
+  const handleSaveFields = async (fields: PlacedField[]) => {
+    if (!packet) return;
+    try {
+      setSavingFields(true);
+      await packets.updateFields(packet.id, fields);
+      setPlacingFields(false);
+      loadPacket(packet.id);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save fields');
+    } finally {
+      setSavingFields(false);
+    }
+  };
+
+  const handleSaveMapping = async (mapping: FormFieldMapping) => {
+    if (!packet) return;
+    try {
+      setSavingMapping(true);
+      await packets.updateFormFields(packet.id, mapping);
+      setMappingFormFields(false);
+      loadPacket(packet.id);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save form field mapping');
+    } finally {
+      setSavingMapping(false);
+    }
+  };
+
   const handleResend = async () => {
     if (!packet) return;
     try {
@@ -67,6 +129,54 @@ function PacketDetailContent() {
     }
   };
 
+  const startReassign = (recipientId: string) => {
+    setReassigningId(recipientId);
+    setReassignName('');
+    setReassignEmail('');
+    setReassignReason('');
+  };
+
+  const handleReassign = async (recipientId: string) => {
+    if (!packet) return;
+    try {
+      await packets.reassign(packet.id, recipientId, {
+        name: reassignName.trim(),
+        email: reassignEmail.trim(),
+        reason: reassignReason.trim() || undefined,
+      });
+      setReassigningId(null);
+      loadPacket(packet.id);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to reassign');
+    }
+  };
+
+  const startEditReminders = () => {
+    if (!packet) return;
+    setReminderForm({
+      enabled: packet.reminderEnabled,
+      firstAfterDays: packet.reminderFirstAfterDays,
+      intervalDays: packet.reminderIntervalDays,
+      maxCount: packet.reminderMaxCount,
+    });
+    setEditingReminders(true);
+  };
+
+  const handleSaveReminders = async () => {
+    if (!packet || !reminderForm) return;
+    try {
+      await packets.updateReminders(packet.id, reminderForm);
+      setEditingReminders(false);
+      loadPacket(packet.id);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update reminders');
+    }
+  };
+
+  const canReassign = (status: string) =>
+    ['draft', 'sent', 'in_progress'].includes(packet?.status || '') &&
+    (status === 'pending' || status === 'notified');
+
   if (loading) {
     return (
       <Layout>
@@ -104,11 +214,19 @@ function PacketDetailContent() {
           </div>
           <div className="flex gap-2">
             {packet.status === 'draft' && (
-              <button onClick={handleSend} className="btn btn-success">
-                Send for Signing
-              </button>
+              <>
+                <button onClick={() => setPlacingFields(true)} className="btn btn-secondary">
+                  Place Fields
+                </button>
+                <button onClick={() => setMappingFormFields(true)} className="btn btn-secondary">
+                  Form Fields
+                </button>
+                <button onClick={handleSend} className="btn btn-success">
+                  Send for Signing
+                </button>
+              </>
             )}
-            {(packet.status === 'sent' || packet.status === 'in_progress') && (
+            {(packet.status === 'sent' || packet.status === 'in_progress' || packet.status === 'expired') && (
               <>
                 <button onClick={handleResend} className="btn btn-secondary">
                   Resend Link
@@ -119,55 +237,168 @@ function PacketDetailContent() {
               </>
             )}
             {packet.status === 'completed' && packet.signedPdfPath && (
-              <a href={admin.downloadUrl(packet.id)} className="btn btn-primary" download>
+              <a href={documents.downloadUrl(packet.id)} className="btn btn-primary" download>
                 Download Signed PDF
               </a>
             )}
           </div>
         </div>
 
+        {placingFields && packet.status === 'draft' && (
+          <FieldPlacementEditor
+            source={documents.downloadUrl(packet.id, 'original')}
+            placeholders={packet.placeholders}
+            roles={packet.recipients.map((r) => r.roleName)}
+            saving={savingFields}
+            onSave={handleSaveFields}
+            onCancel={() => setPlacingFields(false)}
+          />
+        )}
+
+        {mappingFormFields && packet.status === 'draft' && (
+          <FormFieldMappingEditor
+            loadFormFields={() => packets.formFields(packet.id)}
+            placeholders={packet.placeholders}
+            roles={packet.recipients.map((r) => r.roleName)}
+            saving={savingMapping}
+            onSave={handleSaveMapping}
+            onCancel={() => setMappingFormFields(false)}
+          />
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Recipients */}
           <div className="lg:col-span-2 card">
             <div className="p-6 border-b border-gray-200">
               <h2 className="text-lg font-semibold">Recipients</h2>
+              <p className="text-sm text-gray-500 mt-1">
+                Recipients in the same stage sign in parallel; each stage starts once the previous one is complete
+              </p>
             </div>
-            <div className="divide-y divide-gray-100">
-              {packet.recipients.map((recipient) => (
-                <div key={recipient.id} className="p-4">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <span className="w-8 h-8 rounded-full bg-blue-100 text-blue-700 font-medium flex items-center justify-center">
-                        {recipient.order}
-                      </span>
-                      <div>
-                        <p className="font-medium text-gray-900">{recipient.name}</p>
-                        <p className="text-sm text-gray-500">{recipient.email}</p>
-                        <p className="text-xs text-gray-400 capitalize">
-                          Role: {recipient.roleName}
-                        </p>
+            {getStages(packet.recipients).map((stage, stageIndex) => (
+              <div key={stage[0].order}>
+                <div className="px-4 py-2 bg-gray-50 border-b border-gray-100 flex items-center gap-2 text-sm">
+                  <span className="font-medium text-gray-700">Stage {stageIndex + 1}</span>
+                  {stage.length > 1 && (
+                    <span className="text-xs text-gray-500">Parallel • {stage.length} signers</span>
+                  )}
+                  <span className="ml-auto text-xs text-gray-500">
+                    {stage.filter((r) => r.status === 'signed').length}/{stage.length} signed
+                  </span>
+                </div>
+                <div className="divide-y divide-gray-100">
+                  {stage.map((recipient) => (
+                    <div key={recipient.id} className="p-4">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                          <span className="w-8 h-8 rounded-full bg-blue-100 text-blue-700 font-medium flex items-center justify-center">
+                            {recipient.order}
+                          </span>
+                          <div>
+                            <p className="font-medium text-gray-900">{recipient.name}</p>
+                            <p className="text-sm text-gray-500">{recipient.email}</p>
+                            <p className="text-xs text-gray-400 capitalize">
+                              Role: {recipient.roleName}
+                            </p>
+                            {recipient.requireOtp && (
+                              <p className="text-xs text-gray-400">Email code required</p>
+                            )}
+                            {recipient.hasAccessCode && (
+                              <p className="text-xs text-gray-400">Access code required</p>
+                            )}
+                          </div>
+                        </div>
+                        <div className="text-right">
+                          <StatusBadge status={recipient.status} />
+                          {recipient.signedAt && (
+                            <p className="text-xs text-gray-400 mt-1">
+                              Signed {format(new Date(recipient.signedAt), 'MMM d, yyyy h:mm a')}
+                            </p>
+                          )}
+                          {recipient.declinedAt && (
+                            <p className="text-xs text-gray-400 mt-1">
+                              Declined {format(new Date(recipient.declinedAt), 'MMM d, yyyy h:mm a')}
+                            </p>
+                          )}
+                          {!!recipient.reminderCount && recipient.status !== 'signed' && (
+                            <p className="text-xs text-gray-400 mt-1">
+                              {recipient.reminderCount} reminder{recipient.reminderCount > 1 ? 's' : ''} sent
+                            </p>
+                          )}
+                        </div>
                       </div>
-                    </div>
-                    <div className="text-right">
-                      <StatusBadge status={recipient.status} />
-                      {recipient.signedAt && (
-                        <p className="text-xs text-gray-400 mt-1">
-                          Signed {format(new Date(recipient.signedAt), 'MMM d, yyyy h:mm a')}
-                        </p>
+                      {recipient.signature && (
+                        <div className="mt-3 pl-11">
+                          <p className="text-sm text-gray-500">
+                            Signed as: {recipient.signature.typedName}
+                            {recipient.signature.signatureType === 'drawn' && ' (with drawn signature)'}
+                          </p>
+                        </div>
+                      )}
+                      {canReassign(recipient.status) && reassigningId !== recipient.id && (
+                        <div className="mt-2 pl-11">
+                          <button
+                            onClick={() => startReassign(recipient.id)}
+                            className="text-sm text-blue-600 hover:underline"
+                          >
+                            Reassign
+                          </button>
+                        </div>
+                      )}
+                      {reassigningId === recipient.id && (
+                        <div className="mt-3 pl-11 space-y-2">
+                          <div className="grid grid-cols-2 gap-2">
+                            <input
+                              type="text"
+                              value={reassignName}
+                              onChange={(e) => setReassignName(e.target.value)}
+                              placeholder="New signer name"
+                              className="input"
+                            />
+                            <input
+                              type="email"
+                              value={reassignEmail}
+                              onChange={(e) => setReassignEmail(e.target.value)}
+                              placeholder="New signer email"
+                              className="input"
+                            />
+                          </div>
+                          <input
+                            type="text"
+                            value={reassignReason}
+                            onChange={(e) => setReassignReason(e.target.value)}
+                            placeholder="Reason (optional)"
+                            className="input"
+                          />
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => handleReassign(recipient.id)}
+                              disabled={!reassignName.trim() || !reassignEmail.trim()}
+                              className="btn btn-primary text-sm px-3 py-1"
+                            >
+                              Reassign
+                            </button>
+                            <button
+                              onClick={() => setReassigningId(null)}
+                              className="btn btn-secondary text-sm px-3 py-1"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        </div>
+                      )}
+                      {recipient.declineReason && (
+                        <div className="mt-3 pl-11">
+                          <p className="text-sm text-red-600">
+                            Decline reason: {recipient.declineReason}
+                          </p>
+                        </div>
                       )}
                     </div>
-                  </div>
-                  {recipient.signature && (
-                    <div className="mt-3 pl-11">
-                      <p className="text-sm text-gray-500">
-                        Signed as: {recipient.signature.typedName}
-                        {recipient.signature.signatureType === 'drawn' && ' (with drawn signature)'}
-                      </p>
-                    </div>
-                  )}
+                  ))}
                 </div>
-              ))}
-            </div>
+              </div>
+            ))}
           </div>
 
           {/* Details */}
@@ -196,10 +427,121 @@ function PacketDetailContent() {
                   </p>
                 </div>
               )}
+              <div>
+                <div className="flex items-center justify-between">
+                  <p className="text-gray-500">Automatic Reminders</p>
+                  {!editingReminders && !['completed', 'cancelled', 'declined'].includes(packet.status) && (
+                    <button onClick={startEditReminders} className="text-blue-600 hover:underline">
+                      Edit
+                    </button>
+                  )}
+                </div>
+                {editingReminders && reminderForm ? (
+                  <div className="mt-2 space-y-2">
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={reminderForm.enabled}
+                        onChange={(e) => setReminderForm({ ...reminderForm, enabled: e.target.checked })}
+                      />
+                      Enabled
+                    </label>
+                    <div className="grid grid-cols-3 gap-2">
+                      <input
+                        type="number"
+                        min={1}
+                        max={60}
+                        title="First reminder after (days)"
+                        value={reminderForm.firstAfterDays}
+                        onChange={(e) =>
+                          setReminderForm({ ...reminderForm, firstAfterDays: parseInt(e.target.value) || 1 })
+                        }
+                        className="input"
+                      />
+                      <input
+                        type="number"
+                        min={1}
+                        max={60}
+                        title="Then every (days)"
+                        value={reminderForm.intervalDays}
+                        onChange={(e) =>
+                          setReminderForm({ ...reminderForm, intervalDays: parseInt(e.target.value) || 1 })
+                        }
+                        className="input"
+                      />
+                      <input
+                        type="number"
+                        min={1}
+                        max={10}
+                        title="Maximum reminders"
+                        value={reminderForm.maxCount}
+                        onChange={(e) =>
+                          setReminderForm({ ...reminderForm, maxCount: parseInt(e.target.value) || 1 })
+                        }
+                        className="input"
+                      />
+                    </div>
+                    <p className="text-xs text-gray-400">First after / then every (days) / maximum</p>
+                    <div className="flex gap-2">
+                      <button onClick={handleSaveReminders} className="btn btn-primary text-sm px-3 py-1">
+                        Save
+                      </button>
+                      <button
+                        onClick={() => setEditingReminders(false)}
+                        className="btn btn-secondary text-sm px-3 py-1"
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="font-medium">
+                    {packet.reminderEnabled
+                      ? `After ${packet.reminderFirstAfterDays} days, then every ${packet.reminderIntervalDays} days (max ${packet.reminderMaxCount})`
+                      : 'Off'}
+                  </p>
+                )}
+              </div>
+              <div>
+                <p className="text-gray-500">Certificate of Completion</p>
+                <p className="font-medium">{packet.includeCertificate ? 'Included' : 'Not included'}</p>
+              </div>
+              <div>
+                <p className="text-gray-500">Stamping</p>
+                <p className="font-medium">{packet.stampingMode === 'overlay' ? 'Overlay' : 'In place'}</p>
+              </div>
+              {(packet.flattenForm || packet.placeholders.some((p) => p.formField)) && (
+                <div>
+                  <p className="text-gray-500">Form Fields</p>
+                  <p className="font-medium">{packet.flattenForm ? 'Flattened' : 'Kept fillable'}</p>
+                </div>
+              )}
+              {packet.prefilledFields && Object.keys(packet.prefilledFields).length > 0 && (
+                <div>
+                  <p className="text-gray-500">Prefilled Fields</p>
+                  {Object.entries(packet.prefilledFields).map(([field, value]) => (
+                    <p key={field} className="font-medium">
+                      {field.replace(/_/g, ' ')}: {value}
+                    </p>
+                  ))}
+                </div>
+              )}
               <div>
                 <p className="text-gray-500">Packet ID</p>
                 <p className="font-mono text-xs break-all">{packet.id}</p>
               </div>
+              {packet.originalSha256 && (
+                <div>
+                  <p className="text-gray-500">Original SHA-256</p>
+                  <p className="font-mono text-xs break-all">{packet.originalSha256}</p>
+                </div>
+              )}
+              {packet.signedSha256 && (
+                <div>
+                  <p className="text-gray-500">Signed PDF SHA-256</p>
+                  <p className="font-mono text-xs break-all">{packet.signedSha256}</p>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -207,10 +549,38 @@ function PacketDetailContent() {
         {/* Timeline */}
         <div className="card">
           <div className="p-6 border-b border-gray-200">
-            <h2 className="text-lg font-semibold">Activity Timeline</h2>
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold">Activity Timeline</h2>
+              {chain && (
+                <span
+                  className={`inline-flex items-center rounded-full px-2.5 py-1 text-sm font-medium ${
+                    chain.valid ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'
+                  }`}
+                  title={
+                    chain.valid
+                      ? `${chain.checked} chained entries verified`
+                      : chain.brokenAt?.reason
+                  }
+                >
+                  {chain.valid ? 'Chain verified' : 'Chain broken'}
+                </span>
+              )}
+            </div>
             <p className="text-sm text-gray-500 mt-1">
               Basic audit log for internal tracking (not a formal legal audit trail)
             </p>
+            {chain && !chain.valid && chain.brokenAt && (
+              <p className="text-sm text-red-600 mt-2">
+                First broken link: {chain.brokenAt.action} at{' '}
+                {format(new Date(chain.brokenAt.createdAt), 'MMM d, yyyy h:mm:ss a')} -{' '}
+                {chain.brokenAt.reason}
+              </p>
+            )}
+            {chain && chain.unchained > 0 && (
+              <p className="text-xs text-gray-400 mt-1">
+                {chain.unchained} earlier entries predate the hash chain and are not verified
+              </p>
+            )}
           </div>
           <div className="p-6">
             {timeline.length === 0 ? (
@@ -222,7 +592,12 @@ function PacketDetailContent() {
 
                 <div className="space-y-6">
                   {timeline.map((log, index) => (
-                    <div key={log.id} className="relative pl-10">
+                    <div
+                      key={log.id}
+                      className={`relative pl-10 ${
+                        chain?.brokenAt?.id === log.id ? 'bg-red-50 rounded-lg py-2' : ''
+                      }`}
+                    >
                       {/* Dot */}
                       <div
                         className={`absolute left-2.5 w-3 h-3 rounded-full ${
@@ -230,8 +605,10 @@ function PacketDetailContent() {
                             ? 'bg-green-500'
                             : log.action === 'signed'
                             ? 'bg-blue-500'
-                            : log.action === 'cancelled'
+                            : log.action === 'cancelled' || log.action === 'declined'
                             ? 'bg-red-500'
+                            : log.action === 'expired'
+                            ? 'bg-orange-500'
                             : 'bg-gray-400'
                         }`}
                       />
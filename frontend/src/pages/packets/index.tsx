@@ -3,7 +3,7 @@ import { useRouter } from 'next/router';
 import Layout from '@/components/Layout';
 import ProtectedRoute from '@/components/ProtectedRoute';
 import StatusBadge from '@/components/StatusBadge';
-import { packets, Packet, admin } from '@/lib/api';
+import { packets, Packet, documents } from '@/lib/api';
 import Link from 'next/link';
 import { formatDistanceToNow } from 'date-fns';
 
@@ -76,6 +76,8 @@ function PacketsPageContent() {
     { value: 'in_progress', label: 'In Progress' },
     { value: 'completed', label: 'Completed' },
     { value: 'cancelled', label: 'Cancelled' },
+    { value: 'declined', label: 'Declined' },
+    { value: 'expired', label: 'Expired' },
   ];
 
   return (
@@ -226,7 +228,7 @@ function PacketsPageContent() {
 
                     {packet.status === 'completed' && packet.signedPdfPath && (
                       <a
-                        href={admin.downloadUrl(packet.id)}
+                        href={documents.downloadUrl(packet.id)}
                         className="btn btn-primary text-sm px-3 py-1"
                         download
                       >
@@ -2,7 +2,18 @@ import { useState, useRef, useEffect } from 'react';
 import { useRouter } from 'next/router';
 import Layout from '@/components/Layout';
 import ProtectedRoute from '@/components/ProtectedRoute';
-import { packets, admin, User } from '@/lib/api';
+import FieldPlacementEditor from '@/components/FieldPlacementEditor';
+import {
+  packets,
+  admin,
+  templates,
+  User,
+  Template,
+  ReminderSettings,
+  Placeholder,
+  PlacedField,
+  StampingMode,
+} from '@/lib/api';
 
 interface RecipientInput {
   roleName: string;
@@ -10,15 +21,76 @@ interface RecipientInput {
   email: string;
   order: number;
   userId?: string; // Track if selected from user list
+  parallelWithPrevious?: boolean; // Shares a signing stage with the recipient above
+  requireOtp?: boolean; // Signer must enter an emailed code before the document unlocks
+  accessCode?: string; // Shared with the signer out-of-band, e.g. by phone
+}
+
+// Recompute stage orders: parallel recipients share the previous recipient's order
+function assignStageOrders(list: RecipientInput[]): RecipientInput[] {
+  let order = 0;
+  return list.map((r, i) => {
+    if (i === 0 || !r.parallelWithPrevious) order++;
+    return { ...r, order, parallelWithPrevious: i === 0 ? false : r.parallelWithPrevious };
+  });
+}
+
+// Roles a recipient can take (mirrors getUniqueRoles on the server)
+function getDocumentRoles(placeholders: Placeholder[]): string[] {
+  return Array.from(
+    new Set(placeholders.filter((p) => p.type !== 'TEXT' || p.role !== 'any').map((p) => p.role))
+  );
+}
+
+function getSignatureRoles(placeholders: Placeholder[]): string[] {
+  return Array.from(new Set(placeholders.filter((p) => p.type === 'SIGNATURE').map((p) => p.role)));
+}
+
+// The checks the server runs at create and send time, so problems show up before submitting
+function findRoleProblem(placeholders: Placeholder[], recipients: RecipientInput[]): string | null {
+  const roles = getDocumentRoles(placeholders);
+  const signatureRoles = getSignatureRoles(placeholders);
+
+  if (signatureRoles.length === 0) {
+    return 'No signature placeholders were detected in this document';
+  }
+
+  const unassigned = recipients.find((r) => !r.roleName);
+  if (unassigned) {
+    return `Choose a role for ${unassigned.name || 'every recipient'}`;
+  }
+
+  const unknown = recipients.find((r) => !roles.includes(r.roleName));
+  if (unknown) {
+    return `Role "${unknown.roleName}" does not appear in this document`;
+  }
+
+  for (const role of signatureRoles) {
+    const count = recipients.filter((r) => r.roleName === role).length;
+    if (count === 0) return `No recipient is assigned to the "${role}" signature`;
+    if (count > 1) return `The "${role}" signature is assigned to ${count} recipients; it needs exactly one`;
+  }
+
+  return null;
 }
 
 function NewPacketContent() {
   const router = useRouter();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Document source: a fresh upload or a stored template
+  const [source, setSource] = useState<'upload' | 'template'>('upload');
+  const [templateList, setTemplateList] = useState<Template[]>([]);
+  const [templateId, setTemplateId] = useState('');
+
   // File state
   const [file, setFile] = useState<File | null>(null);
   const [dragActive, setDragActive] = useState(false);
+  const [uploadPlaceholders, setUploadPlaceholders] = useState<Placeholder[] | null>(null);
+  const [detecting, setDetecting] = useState(false);
+  // Fields placed in the editor, sent along with the upload
+  const [placedFields, setPlacedFields] = useState<PlacedField[]>([]);
+  const [placingFields, setPlacingFields] = useState(false);
 
   // Users list for selection
   const [users, setUsers] = useState<User[]>([]);
@@ -27,8 +99,17 @@ function NewPacketContent() {
   // Form state
   const [name, setName] = useState('');
   const [recipients, setRecipients] = useState<RecipientInput[]>([
-    { roleName: 'signer', name: '', email: '', order: 1 },
+    { roleName: '', name: '', email: '', order: 1 },
   ]);
+  const [reminders, setReminders] = useState<ReminderSettings>({
+    enabled: true,
+    firstAfterDays: 3,
+    intervalDays: 2,
+    maxCount: 3,
+  });
+  const [includeCertificate, setIncludeCertificate] = useState(true);
+  const [stampingMode, setStampingMode] = useState<StampingMode>('in_place');
+  const [flattenForm, setFlattenForm] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -38,7 +119,69 @@ function NewPacketContent() {
       .then(setUsers)
       .catch(() => {}) // Silently fail if can't load users
       .finally(() => setUsersLoading(false));
-  }, []);
+
+    templates.list()
+      .then((data) => {
+        setTemplateList(data);
+        // Preselect a template passed in the query string
+        const queryTemplate = router.query.templateId;
+        if (typeof queryTemplate === 'string') {
+          const match = data.find((t) => t.id === queryTemplate);
+          if (match) {
+            setSource('template');
+            applyTemplate(match);
+          }
+        }
+      })
+      .catch(() => {});
+  }, [router.query.templateId]);
+
+  // One recipient per signature role, keeping anyone already entered
+  const mapRecipientsToRoles = (roles: string[]) => {
+    if (roles.length === 0) return;
+    setRecipients((current) =>
+      assignStageOrders(
+        roles.map((roleName, i) => ({
+          name: current[i]?.name || '',
+          email: current[i]?.email || '',
+          userId: current[i]?.userId,
+          roleName,
+          order: i + 1,
+        }))
+      )
+    );
+  };
+
+  const applyTemplate = (template: Template) => {
+    setTemplateId(template.id);
+    setName(template.name);
+    // Signature roles in the template's default order, then any it does not list
+    const signatureRoles = getSignatureRoles(template.placeholders);
+    mapRecipientsToRoles([
+      ...template.defaultRoles.filter((r) => signatureRoles.includes(r)),
+      ...signatureRoles.filter((r) => !template.defaultRoles.includes(r)),
+    ]);
+  };
+
+  const selectTemplate = (id: string) => {
+    const template = templateList.find((t) => t.id === id);
+    if (template) {
+      applyTemplate(template);
+    } else {
+      setTemplateId('');
+    }
+  };
+
+  const selectedTemplate = templateList.find((t) => t.id === templateId);
+  const hasDocument = source === 'upload' ? !!file : !!selectedTemplate;
+
+  // Placeholders of the chosen document, or null until one is chosen and read
+  const documentPlaceholders = source === 'upload'
+    ? uploadPlaceholders && [...uploadPlaceholders, ...placedFields.map((f) => ({ ...f, originalTag: '' }))]
+    : selectedTemplate?.placeholders ?? null;
+  const documentRoles = documentPlaceholders ? getDocumentRoles(documentPlaceholders) : [];
+  const signatureRoles = documentPlaceholders ? getSignatureRoles(documentPlaceholders) : [];
+  const roleProblem = documentPlaceholders ? findRoleProblem(documentPlaceholders, recipients) : null;
 
   const handleFileSelect = (selectedFile: File) => {
     if (selectedFile.type !== 'application/pdf') {
@@ -50,6 +193,26 @@ function NewPacketContent() {
     if (!name) {
       setName(selectedFile.name.replace('.pdf', ''));
     }
+
+    setUploadPlaceholders(null);
+    setPlacedFields([]);
+    setPlacingFields(false);
+    setDetecting(true);
+    packets.detectPlaceholders(selectedFile)
+      .then((detection) => {
+        setUploadPlaceholders(detection.placeholders);
+        mapRecipientsToRoles(detection.signatureRoles);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : 'Could not read the PDF'))
+      .finally(() => setDetecting(false));
+  };
+
+  const handleSaveFields = (fields: PlacedField[]) => {
+    setPlacedFields(fields);
+    setPlacingFields(false);
+    mapRecipientsToRoles(
+      getSignatureRoles([...(uploadPlaceholders || []), ...fields.map((f) => ({ ...f, originalTag: '' }))])
+    );
   };
 
   const handleDrop = (e: React.DragEvent) => {
@@ -62,29 +225,32 @@ function NewPacketContent() {
   };
 
   const addRecipient = () => {
-    const newOrder = recipients.length + 1;
-    setRecipients([
+    const newIndex = recipients.length + 1;
+    setRecipients(assignStageOrders([
       ...recipients,
       {
-        roleName: `signer${newOrder > 1 ? newOrder : ''}`,
+        // Next signature role nobody has yet
+        roleName: signatureRoles.find((role) => !recipients.some((r) => r.roleName === role)) || '',
         name: '',
         email: '',
-        order: newOrder,
+        order: newIndex,
       },
-    ]);
+    ]));
   };
 
   const removeRecipient = (index: number) => {
     if (recipients.length <= 1) return;
-    const updated = recipients.filter((_, i) => i !== index);
     // Renumber orders
-    updated.forEach((r, i) => {
-      r.order = i + 1;
-    });
-    setRecipients(updated);
+    setRecipients(assignStageOrders(recipients.filter((_, i) => i !== index)));
   };
 
-  const updateRecipient = (index: number, field: keyof RecipientInput, value: string | number) => {
+  const toggleParallel = (index: number, parallel: boolean) => {
+    const updated = [...recipients];
+    updated[index] = { ...updated[index], parallelWithPrevious: parallel };
+    setRecipients(assignStageOrders(updated));
+  };
+
+  const updateRecipient = (index: number, field: keyof RecipientInput, value: string | number | boolean) => {
     const updated = [...recipients];
     updated[index] = { ...updated[index], [field]: value };
     // Clear userId if manually editing name/email
@@ -116,21 +282,22 @@ function NewPacketContent() {
     [updated[index], updated[newIndex]] = [updated[newIndex], updated[index]];
 
     // Update order numbers
-    updated.forEach((r, i) => {
-      r.order = i + 1;
-    });
-
-    setRecipients(updated);
+    setRecipients(assignStageOrders(updated));
   };
 
   const handleSubmit = async (e: React.FormEvent, sendImmediately: boolean = false) => {
     e.preventDefault();
 
-    if (!file) {
+    if (source === 'upload' && !file) {
       setError('Please upload a PDF document');
       return;
     }
 
+    if (source === 'template' && !selectedTemplate) {
+      setError('Please select a template');
+      return;
+    }
+
     const invalidRecipient = recipients.find((r) => !r.name || !r.email);
     if (invalidRecipient) {
       setError('Please fill in all recipient details');
@@ -145,24 +312,62 @@ function NewPacketContent() {
       return;
     }
 
+    if (detecting || !documentPlaceholders) {
+      setError('Wait for the document to finish loading');
+      return;
+    }
+
+    if (roleProblem) {
+      setError(roleProblem);
+      return;
+    }
+
+    const shortAccessCode = recipients.find((r) => r.accessCode && r.accessCode.trim().length < 4);
+    if (shortAccessCode) {
+      setError(`Access code for ${shortAccessCode.name} must be at least 4 characters`);
+      return;
+    }
+
     try {
       setSubmitting(true);
       setError(null);
 
-      // Build FormData with file and JSON fields
-      const formData = new FormData();
-      formData.append('file', file, file.name);
-      formData.append('name', name || file.name.replace('.pdf', ''));
-      formData.append('recipients', JSON.stringify(
-        recipients.map((r) => ({
-          roleName: r.roleName,
-          name: r.name,
-          email: r.email,
-          order: r.order,
-        }))
-      ));
-
-      const packet = await packets.create(formData);
+      const recipientData = recipients.map((r) => ({
+        roleName: r.roleName,
+        name: r.name,
+        email: r.email,
+        order: r.order,
+        requireOtp: r.requireOtp || undefined,
+        accessCode: r.accessCode?.trim() || undefined,
+      }));
+
+      let packet;
+      if (source === 'template') {
+        packet = await packets.createFromTemplate({
+          templateId,
+          name: name || undefined,
+          recipients: recipientData,
+          reminders,
+          includeCertificate,
+          stampingMode,
+          flattenForm,
+        });
+      } else {
+        // Build FormData with file and JSON fields
+        const formData = new FormData();
+        formData.append('file', file!, file!.name);
+        formData.append('name', name || file!.name.replace('.pdf', ''));
+        formData.append('recipients', JSON.stringify(recipientData));
+        formData.append('reminders', JSON.stringify(reminders));
+        formData.append('includeCertificate', String(includeCertificate));
+        formData.append('stampingMode', stampingMode);
+        formData.append('flattenForm', String(flattenForm));
+        if (placedFields.length > 0) {
+          formData.append('fields', JSON.stringify(placedFields));
+        }
+
+        packet = await packets.create(formData);
+      }
 
       // Send immediately if requested
       if (sendImmediately) {
@@ -182,110 +387,209 @@ function NewPacketContent() {
       <div className="max-w-3xl mx-auto">
         <div className="mb-6">
           <h1 className="text-2xl font-bold text-gray-900">Create Signing Packet</h1>
-          <p className="text-gray-600">Upload a PDF and configure recipients for signing</p>
+          <p className="text-gray-600">Upload a PDF or pick a template and configure recipients for signing</p>
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-6">
           {/* Step 1: Upload PDF */}
           <div className="card p-6">
-            <h2 className="text-lg font-semibold mb-4">1. Upload Document</h2>
-
-            <div>
-              <label className="label">PDF File</label>
-              <div
-                className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
-                  dragActive
-                    ? 'border-blue-500 bg-blue-50'
-                    : file
-                    ? 'border-green-500 bg-green-50'
-                    : 'border-gray-300 hover:border-gray-400'
+            <h2 className="text-lg font-semibold mb-4">1. Choose Document</h2>
+
+            <div className="flex border-b border-gray-200 mb-4">
+              <button
+                type="button"
+                onClick={() => setSource('upload')}
+                className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+                  source === 'upload'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
                 }`}
-                onDragOver={(e) => {
-                  e.preventDefault();
-                  setDragActive(true);
-                }}
-                onDragLeave={() => setDragActive(false)}
-                onDrop={handleDrop}
-                onClick={() => fileInputRef.current?.click()}
               >
-                <input
-                  ref={fileInputRef}
-                  type="file"
-                  accept=".pdf,application/pdf"
-                  onChange={(e) => {
-                    const f = e.target.files?.[0];
-                    if (f) handleFileSelect(f);
-                  }}
-                  className="hidden"
-                />
-                {file ? (
-                  <div>
-                    <svg
-                      className="mx-auto h-12 w-12 text-green-500"
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"
-                      />
-                    </svg>
-                    <p className="mt-2 font-medium text-gray-900">{file.name}</p>
-                    <p className="text-sm text-gray-500">
-                      {(file.size / 1024).toFixed(1)} KB
+                Upload PDF
+              </button>
+              <button
+                type="button"
+                onClick={() => setSource('template')}
+                className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors ${
+                  source === 'template'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                Use Template
+              </button>
+            </div>
+
+            {source === 'template' ? (
+              <div>
+                <label className="label">Template</label>
+                {templateList.length === 0 ? (
+                  <p className="text-sm text-gray-500">
+                    No templates yet. Upload one on the Templates page.
+                  </p>
+                ) : (
+                  <select
+                    value={templateId}
+                    onChange={(e) => selectTemplate(e.target.value)}
+                    className="input"
+                  >
+                    <option value="">-- Select a template --</option>
+                    {templateList.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.name} ({template.fileName})
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {selectedTemplate && (
+                  <div className="mt-3 text-sm text-gray-600">
+                    {selectedTemplate.description && <p>{selectedTemplate.description}</p>}
+                    <p>
+                      {selectedTemplate.placeholders.length} placeholders detected • Roles:{' '}
+                      {selectedTemplate.defaultRoles.join(', ') || 'none'}
+                    </p>
+                  </div>
+                )}
+              </div>
+            ) : (
+              <>
+                <div>
+                  <label className="label">PDF File</label>
+                  <div
+                    className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
+                      dragActive
+                        ? 'border-blue-500 bg-blue-50'
+                        : file
+                        ? 'border-green-500 bg-green-50'
+                        : 'border-gray-300 hover:border-gray-400'
+                    }`}
+                    onDragOver={(e) => {
+                      e.preventDefault();
+                      setDragActive(true);
+                    }}
+                    onDragLeave={() => setDragActive(false)}
+                    onDrop={handleDrop}
+                    onClick={() => fileInputRef.current?.click()}
+                  >
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      accept=".pdf,application/pdf"
+                      onChange={(e) => {
+                        const f = e.target.files?.[0];
+                        if (f) handleFileSelect(f);
+                      }}
+                      className="hidden"
+                    />
+                    {file ? (
+                      <div>
+                        <svg
+                          className="mx-auto h-12 w-12 text-green-500"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z"
+                          />
+                        </svg>
+                        <p className="mt-2 font-medium text-gray-900">{file.name}</p>
+                        <p className="text-sm text-gray-500">
+                          {(file.size / 1024).toFixed(1)} KB
+                        </p>
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setFile(null);
+                            setUploadPlaceholders(null);
+                            setPlacedFields([]);
+                            setPlacingFields(false);
+                          }}
+                          className="mt-2 text-sm text-red-600 hover:underline"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    ) : (
+                      <div>
+                        <svg
+                          className="mx-auto h-12 w-12 text-gray-400"
+                          fill="none"
+                          stroke="currentColor"
+                          viewBox="0 0 24 24"
+                        >
+                          <path
+                            strokeLinecap="round"
+                            strokeLinejoin="round"
+                            strokeWidth={2}
+                            d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
+                          />
+                        </svg>
+                        <p className="mt-2 text-gray-600">
+                          Drag and drop a PDF, or click to select
+                        </p>
+                        <p className="text-sm text-gray-400">Max 50MB</p>
+                      </div>
+                    )}
+                  </div>
+                </div>
+
+                {file && uploadPlaceholders && !placingFields && (
+                  <div className="mt-4 flex items-center justify-between gap-4 text-sm text-gray-600">
+                    <p>
+                      {uploadPlaceholders.length} tagged {uploadPlaceholders.length === 1 ? 'field' : 'fields'}
+                      {placedFields.length > 0 && `, ${placedFields.length} placed`}
+                      {signatureRoles.length === 0 && ' • No signature fields yet; place them on the document'}
                     </p>
                     <button
                       type="button"
-                      onClick={(e) => {
-                        e.stopPropagation();
-                        setFile(null);
-                      }}
-                      className="mt-2 text-sm text-red-600 hover:underline"
+                      onClick={() => setPlacingFields(true)}
+                      className="btn btn-secondary text-sm px-3 py-1 shrink-0"
                     >
-                      Remove
+                      Place Fields
                     </button>
                   </div>
-                ) : (
-                  <div>
-                    <svg
-                      className="mx-auto h-12 w-12 text-gray-400"
-                      fill="none"
-                      stroke="currentColor"
-                      viewBox="0 0 24 24"
-                    >
-                      <path
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                        strokeWidth={2}
-                        d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12"
-                      />
-                    </svg>
-                    <p className="mt-2 text-gray-600">
-                      Drag and drop a PDF, or click to select
-                    </p>
-                    <p className="text-sm text-gray-400">Max 50MB</p>
+                )}
+
+                {file && uploadPlaceholders && placingFields && (
+                  <div className="mt-4">
+                    <FieldPlacementEditor
+                      source={file}
+                      placeholders={documentPlaceholders || []}
+                      roles={documentRoles.length > 0 ? documentRoles : recipients.map((r) => r.roleName).filter(Boolean)}
+                      onSave={handleSaveFields}
+                      onCancel={() => setPlacingFields(false)}
+                    />
                   </div>
                 )}
-              </div>
-            </div>
 
-            {/* Placeholder info */}
-            <div className="mt-4 bg-blue-50 border border-blue-200 rounded-lg p-4">
-              <h3 className="font-medium text-blue-900 mb-2">
-                Placeholder Tags (Optional)
-              </h3>
-              <p className="text-sm text-blue-800 mb-2">
-                Add these tags to your PDF where signatures should appear:
-              </p>
-              <ul className="text-sm text-blue-700 space-y-1 font-mono">
-                <li>[[SIGNATURE:roleName]] - Signature field</li>
-                <li>[[DATE:roleName]] - Date field</li>
-                <li>[[TEXT:fieldName]] - Text input field</li>
-              </ul>
-            </div>
+                {/* Placeholder info */}
+                <div className="mt-4 bg-blue-50 border border-blue-200 rounded-lg p-4">
+                  <h3 className="font-medium text-blue-900 mb-2">
+                    Placeholder Tags
+                  </h3>
+                  <p className="text-sm text-blue-800 mb-2">
+                    Add these tags to your PDF where signatures should appear, or place fields
+                    on the document instead. Each signature role is assigned to exactly one
+                    recipient below:
+                  </p>
+                  <ul className="text-sm text-blue-700 space-y-1 font-mono">
+                    <li>[[SIGNATURE:roleName]] - Signature field</li>
+                    <li>[[INITIALS:roleName]] - Initials, on as many pages as needed</li>
+                    <li>[[DATE:roleName]] - Date field</li>
+                    <li>[[TEXT:fieldName]] - Text input field</li>
+                    <li>[[CHECKBOX:roleName:fieldName]] - Checkbox</li>
+                    <li>[[RADIO:roleName:fieldName:Yes|No]] - Radio buttons</li>
+                    <li>[[SELECT:roleName:fieldName:S|M|L]] - Dropdown</li>
+                    <li>[[NUMBER:roleName:fieldName]] - Number input</li>
+                  </ul>
+                </div>
+              </>
+            )}
           </div>
 
           {/* Step 2: Configure Recipients */}
@@ -298,11 +602,69 @@ function NewPacketContent() {
                 type="text"
                 value={name}
                 onChange={(e) => setName(e.target.value)}
-                placeholder={file ? file.name.replace('.pdf', '') : 'e.g., Contract Agreement'}
+                placeholder={
+                  source === 'template' && selectedTemplate
+                    ? selectedTemplate.name
+                    : file
+                    ? file.name.replace('.pdf', '')
+                    : 'e.g., Contract Agreement'
+                }
                 className="input"
               />
             </div>
 
+            {/* Detected roles and who they are assigned to */}
+            {detecting ? (
+              <p className="mb-4 text-sm text-gray-500">Reading placeholders from the document...</p>
+            ) : documentPlaceholders ? (
+              <div className="mb-4 border border-gray-200 rounded-lg overflow-hidden">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="text-left px-3 py-2 font-medium">Role</th>
+                      <th className="text-left px-3 py-2 font-medium">Fields</th>
+                      <th className="text-left px-3 py-2 font-medium">Pages</th>
+                      <th className="text-left px-3 py-2 font-medium">Recipient</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-100">
+                    {documentRoles.map((role) => {
+                      const fields = documentPlaceholders.filter((p) => p.role === role);
+                      const assigned = recipients.filter((r) => r.roleName === role);
+                      const needsOne = signatureRoles.includes(role) && assigned.length !== 1;
+                      return (
+                        <tr key={role}>
+                          <td className="px-3 py-2 font-medium text-gray-900">{role}</td>
+                          <td className="px-3 py-2 text-gray-600">
+                            {(['SIGNATURE', 'INITIALS', 'DATE', 'TEXT', 'CHECKBOX', 'RADIO', 'SELECT', 'NUMBER'] as const)
+                              .map((type) => [type, fields.filter((p) => p.type === type).length] as const)
+                              .filter(([, count]) => count > 0)
+                              .map(([type, count]) => `${count} ${type.toLowerCase()}`)
+                              .join(', ')}
+                          </td>
+                          <td className="px-3 py-2 text-gray-600">
+                            {Array.from(new Set(fields.map((p) => p.pageNumber))).sort((a, b) => a - b).join(', ')}
+                          </td>
+                          <td className={`px-3 py-2 ${needsOne ? 'text-red-600' : 'text-gray-700'}`}>
+                            {assigned.length === 0
+                              ? signatureRoles.includes(role) ? 'Unassigned' : '-'
+                              : assigned.map((r) => r.name || `Recipient ${recipients.indexOf(r) + 1}`).join(', ')}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+                {roleProblem && (
+                  <p className="px-3 py-2 bg-red-50 text-sm text-red-700 border-t border-red-100">{roleProblem}</p>
+                )}
+              </div>
+            ) : (
+              <p className="mb-4 text-sm text-gray-500">
+                Choose a document to see its signature roles.
+              </p>
+            )}
+
             <div className="space-y-4">
               {recipients.map((recipient, index) => (
                 <div
@@ -315,7 +677,11 @@ function NewPacketContent() {
                         {recipient.order}
                       </span>
                       <span className="font-medium text-gray-900">
-                        Recipient {recipient.order}
+                        Recipient {index + 1}
+                      </span>
+                      <span className="text-sm text-gray-500">
+                        Stage {recipient.order}
+                        {recipients.filter((r) => r.order === recipient.order).length > 1 && ' (parallel)'}
                       </span>
                     </div>
                     <div className="flex gap-1">
@@ -352,6 +718,43 @@ function NewPacketContent() {
                       )}
                     </div>
                   </div>
+                  {index > 0 && (
+                    <label className="flex items-center gap-2 mb-3 text-sm text-gray-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={!!recipient.parallelWithPrevious}
+                        onChange={(e) => toggleParallel(index, e.target.checked)}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      Sign in parallel with the previous recipient
+                    </label>
+                  )}
+                  <label className="flex items-center gap-2 mb-3 text-sm text-gray-600 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={!!recipient.requireOtp}
+                      onChange={(e) => updateRecipient(index, 'requireOtp', e.target.checked)}
+                      className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                    />
+                    Require a one-time code sent to their email before signing
+                  </label>
+                  <div className="mb-3">
+                    <label className="label">Role</label>
+                    <select
+                      value={recipient.roleName}
+                      onChange={(e) => updateRecipient(index, 'roleName', e.target.value)}
+                      className="input"
+                      disabled={documentRoles.length === 0}
+                    >
+                      <option value="">-- Select a role --</option>
+                      {documentRoles.map((role) => (
+                        <option key={role} value={role}>
+                          {role}
+                          {signatureRoles.includes(role) ? ' (signature)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                   {/* User Selection */}
                   {users.length > 0 && (
                     <div className="mb-3">
@@ -404,6 +807,20 @@ function NewPacketContent() {
                       />
                     </div>
                   </div>
+                  <div className="mt-3">
+                    <label className="label">Access Code (Optional)</label>
+                    <input
+                      type="text"
+                      value={recipient.accessCode || ''}
+                      onChange={(e) => updateRecipient(index, 'accessCode', e.target.value)}
+                      placeholder="Share this with the signer by phone or in person"
+                      className="input"
+                      autoComplete="off"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      The signer must enter this code before they can open the document. It is not included in any email.
+                    </p>
+                  </div>
                 </div>
               ))}
             </div>
@@ -417,7 +834,112 @@ function NewPacketContent() {
             </button>
 
             <p className="mt-4 text-sm text-gray-500">
-              Recipients will be notified in the order shown above (sequential signing).
+              Recipients are notified stage by stage in the order shown above. Everyone in a
+              parallel stage is notified together, and the next stage starts once they have all signed.
+            </p>
+          </div>
+
+          {/* Step 3: Options */}
+          <div className="card p-6">
+            <h2 className="text-lg font-semibold mb-4">3. Options</h2>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={reminders.enabled}
+                onChange={(e) => setReminders({ ...reminders, enabled: e.target.checked })}
+              />
+              Automatically remind recipients who have not signed
+            </label>
+
+            {reminders.enabled && (
+              <div className="grid grid-cols-3 gap-4 mt-4">
+                <div>
+                  <label className="label">First reminder after (days)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={60}
+                    value={reminders.firstAfterDays}
+                    onChange={(e) =>
+                      setReminders({ ...reminders, firstAfterDays: parseInt(e.target.value) || 1 })
+                    }
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <label className="label">Then every (days)</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={60}
+                    value={reminders.intervalDays}
+                    onChange={(e) =>
+                      setReminders({ ...reminders, intervalDays: parseInt(e.target.value) || 1 })
+                    }
+                    className="input"
+                  />
+                </div>
+                <div>
+                  <label className="label">Maximum reminders</label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={reminders.maxCount}
+                    onChange={(e) =>
+                      setReminders({ ...reminders, maxCount: parseInt(e.target.value) || 1 })
+                    }
+                    className="input"
+                  />
+                </div>
+              </div>
+            )}
+
+            <p className="mt-4 text-sm text-gray-500">
+              Signing links that expire unsigned mark the packet as expired and notify the admin.
+            </p>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700 mt-6">
+              <input
+                type="checkbox"
+                checked={includeCertificate}
+                onChange={(e) => setIncludeCertificate(e.target.checked)}
+              />
+              Append a Certificate of Completion page to the signed PDF
+            </label>
+            <p className="mt-1 text-sm text-gray-500 pl-6">
+              Lists each signer with their signing method, time, IP address and browser, the activity
+              timeline and the SHA-256 fingerprint of the original document.
+            </p>
+
+            <div className="mt-6 max-w-md">
+              <label className="label">Stamping</label>
+              <select
+                value={stampingMode}
+                onChange={(e) => setStampingMode(e.target.value as StampingMode)}
+                className="input"
+              >
+                <option value="in_place">In place: replace the tag text</option>
+                <option value="overlay">Overlay: cover tags and draw values on top</option>
+              </select>
+              <p className="mt-1 text-sm text-gray-500">
+                Overlay works for PDFs whose tags cannot be rewritten, and is used automatically
+                when in-place stamping finds no tags to replace.
+              </p>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700 mt-6">
+              <input
+                type="checkbox"
+                checked={flattenForm}
+                onChange={(e) => setFlattenForm(e.target.checked)}
+              />
+              Flatten form fields in the signed PDF
+            </label>
+            <p className="mt-1 text-sm text-gray-500 pl-6">
+              Fillable fields are filled with the signers&apos; values either way. Flattening makes them
+              part of the page so they can no longer be edited.
             </p>
           </div>
 
@@ -433,14 +955,14 @@ function NewPacketContent() {
             <button
               type="button"
               onClick={(e) => handleSubmit(e as any, true)}
-              disabled={submitting || !file || recipients.length === 0}
+              disabled={submitting || detecting || !hasDocument || recipients.length === 0}
               className="btn btn-primary flex-1"
             >
               {submitting ? 'Creating...' : 'Create & Send'}
             </button>
             <button
               type="submit"
-              disabled={submitting || !file || recipients.length === 0}
+              disabled={submitting || detecting || !hasDocument || recipients.length === 0}
               className="btn btn-secondary"
             >
               Save as Draft
@@ -2,8 +2,101 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/router';
 import Head from 'next/head';
 import SignaturePad from '@/components/SignaturePad';
+import InitialsPad from '@/components/InitialsPad';
 import StatusBadge from '@/components/StatusBadge';
-import { signing, SigningSession, Placeholder } from '@/lib/api';
+import { signing, documents, SigningSession, VerificationChallenge, Placeholder } from '@/lib/api';
+
+// Signers fill every field but signatures, initials and dates through a named value
+function isValueField(placeholder: Placeholder): boolean {
+  return (
+    placeholder.type !== 'SIGNATURE' &&
+    placeholder.type !== 'INITIALS' &&
+    placeholder.type !== 'DATE' &&
+    !!placeholder.fieldName
+  );
+}
+
+// Pages with at least one initials field, in order
+function getInitialsPages(placeholders: Placeholder[]): number[] {
+  return Array.from(
+    new Set(placeholders.filter((p) => p.type === 'INITIALS').map((p) => p.pageNumber))
+  ).sort((a, b) => a - b);
+}
+
+function fieldLabel(placeholder: Placeholder): string {
+  return placeholder.fieldName?.replace(/_/g, ' ').replace(/#/g, ' #') || '';
+}
+
+interface FieldInputProps {
+  placeholder: Placeholder;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+// The input for one named field; checkbox values are "true" or "false"
+function FieldInput({ placeholder, value, onChange }: FieldInputProps) {
+  const label = fieldLabel(placeholder);
+
+  if (placeholder.type === 'CHECKBOX') {
+    return (
+      <label className="flex items-center gap-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={value === 'true'}
+          onChange={(e) => onChange(e.target.checked ? 'true' : 'false')}
+          className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+        />
+        <span className="text-sm text-gray-700 capitalize">{label}</span>
+      </label>
+    );
+  }
+
+  if (placeholder.type === 'RADIO') {
+    return (
+      <fieldset>
+        <legend className="label capitalize">{label}</legend>
+        <div className="flex flex-wrap gap-4">
+          {(placeholder.options || []).map((option) => (
+            <label key={option} className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <input
+                type="radio"
+                name={placeholder.fieldName}
+                checked={value === option}
+                onChange={() => onChange(option)}
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+    );
+  }
+
+  return (
+    <div>
+      <label className="label capitalize">{label}</label>
+      {placeholder.type === 'SELECT' ? (
+        <select value={value} onChange={(e) => onChange(e.target.value)} className="input">
+          <option value="">Select...</option>
+          {(placeholder.options || []).map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <input
+          type={placeholder.type === 'NUMBER' ? 'number' : 'text'}
+          step={placeholder.type === 'NUMBER' ? 'any' : undefined}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="input"
+          placeholder={`Enter ${placeholder.fieldName?.replace(/_/g, ' ')}`}
+        />
+      )}
+    </div>
+  );
+}
 
 export default function SigningPage() {
   const router = useRouter();
@@ -16,10 +109,37 @@ export default function SigningPage() {
   const [submitted, setSubmitted] = useState(false);
   const [completed, setCompleted] = useState(false);
 
+  // Access code / one-time passcode state
+  const [challenge, setChallenge] = useState<VerificationChallenge | null>(null);
+  const [sessionToken, setSessionToken] = useState<string | null>(null);
+  const [accessCode, setAccessCode] = useState('');
+  const [otpCode, setOtpCode] = useState('');
+  const [otpSending, setOtpSending] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [otpMessage, setOtpMessage] = useState<string | null>(null);
+  const [verifyError, setVerifyError] = useState<string | null>(null);
+
+  // Decline state
+  const [showDecline, setShowDecline] = useState(false);
+  const [declineReason, setDeclineReason] = useState('');
+  const [declining, setDeclining] = useState(false);
+  const [declined, setDeclined] = useState(false);
+
+  // Delegate state
+  const [showDelegate, setShowDelegate] = useState(false);
+  const [delegateName, setDelegateName] = useState('');
+  const [delegateEmail, setDelegateEmail] = useState('');
+  const [delegateReason, setDelegateReason] = useState('');
+  const [delegating, setDelegating] = useState(false);
+  const [delegatedTo, setDelegatedTo] = useState<string | null>(null);
+
   // Form state
   const [signatureData, setSignatureData] = useState<string | null>(null);
   const [signatureType, setSignatureType] = useState<'drawn' | 'typed'>('drawn');
   const [typedName, setTypedName] = useState('');
+  const [initialsData, setInitialsData] = useState<string | null>(null);
+  const [initialsType, setInitialsType] = useState<'drawn' | 'typed'>('typed');
+  const [initialedPages, setInitialedPages] = useState<number[]>([]);
   const [textFields, setTextFields] = useState<Record<string, string>>({});
   const [confirmed, setConfirmed] = useState(false);
 
@@ -29,27 +149,46 @@ export default function SigningPage() {
     }
   }, [token]);
 
-  const loadSession = async (signingToken: string) => {
+  const loadSession = async (signingToken: string, verifiedSession?: string) => {
+    // A verified code is remembered for this tab only
+    const storageKey = `signing-session:${signingToken}`;
+    const storedSession = verifiedSession || sessionStorage.getItem(storageKey);
+
     try {
       setLoading(true);
-      const data = await signing.getSession(signingToken);
+      const data = await signing.getSession(signingToken, storedSession);
+
+      if (data.verificationRequired) {
+        // A session that passed the access code is still needed for the emailed passcode
+        if (data.accessCode || !storedSession) {
+          sessionStorage.removeItem(storageKey);
+          setSessionToken(null);
+        } else {
+          sessionStorage.setItem(storageKey, storedSession);
+          setSessionToken(storedSession);
+        }
+        setChallenge(data);
+        return;
+      }
+
+      if (storedSession) {
+        sessionStorage.setItem(storageKey, storedSession);
+        setSessionToken(storedSession);
+      }
+      setChallenge(null);
       setSession(data);
 
       // Pre-fill name
       setTypedName(data.recipient.name);
 
-      // Initialize text fields (including DATE fields which get fieldName like 'Dte1')
-      const textPlaceholders = data.placeholders.filter(
-        (p: Placeholder) => p.type === 'TEXT'
-      );
+      // Initialize named fields (including DATE fields which get fieldName like 'Dte1')
+      const valuePlaceholders = data.placeholders.filter(isValueField);
       const datePlaceholders = data.placeholders.filter(
         (p: Placeholder) => p.type === 'DATE'
       );
       const initialTextFields: Record<string, string> = {};
-      textPlaceholders.forEach((p: Placeholder) => {
-        if (p.fieldName) {
-          initialTextFields[p.fieldName] = '';
-        }
+      valuePlaceholders.forEach((p: Placeholder) => {
+        initialTextFields[p.fieldName!] = p.type === 'CHECKBOX' ? 'false' : '';
       });
       // Also add date fields - use fieldName or a generated key
       datePlaceholders.forEach((p: Placeholder, idx: number) => {
@@ -64,11 +203,72 @@ export default function SigningPage() {
     }
   };
 
+  const handleVerifyAccessCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || typeof token !== 'string') return;
+
+    try {
+      setVerifying(true);
+      setVerifyError(null);
+      const result = await signing.verifyAccessCode(token, accessCode.trim());
+      setAccessCode('');
+      await loadSession(token, result.sessionToken);
+    } catch (err) {
+      setVerifyError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleSendOtp = async () => {
+    if (!token || typeof token !== 'string') return;
+
+    try {
+      setOtpSending(true);
+      setVerifyError(null);
+      const result = await signing.sendOtp(token, sessionToken);
+      setOtpMessage(`We sent a 6-digit code to ${result.maskedEmail}`);
+    } catch (err) {
+      setVerifyError(err instanceof Error ? err.message : 'Failed to send code');
+    } finally {
+      setOtpSending(false);
+    }
+  };
+
+  const handleVerifyOtp = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token || typeof token !== 'string') return;
+
+    try {
+      setVerifying(true);
+      setVerifyError(null);
+      const result = await signing.verifyOtp(token, otpCode.trim(), sessionToken);
+      await loadSession(token, result.sessionToken);
+    } catch (err) {
+      setVerifyError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
   const handleSignatureChange = (data: string | null, type: 'drawn' | 'typed') => {
     setSignatureData(data);
     setSignatureType(type);
   };
 
+  const handleInitialsChange = (data: string | null, type: 'drawn' | 'typed') => {
+    setInitialsData(data);
+    setInitialsType(type);
+    // Pages initialed with initials that were then cleared need initialing again
+    if (!data) setInitialedPages([]);
+  };
+
+  const toggleInitialedPage = (page: number) => {
+    setInitialedPages((pages) =>
+      pages.includes(page) ? pages.filter((p) => p !== page) : [...pages, page]
+    );
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
@@ -84,6 +284,17 @@ export default function SigningPage() {
       return;
     }
 
+    const initialsPages = getInitialsPages(session?.placeholders || []);
+    if (initialsPages.length > 0 && !initialsData) {
+      setError('Please provide your initials');
+      return;
+    }
+
+    if (initialsPages.some((page) => !initialedPages.includes(page))) {
+      setError('Please initial every page that asks for your initials');
+      return;
+    }
+
     if (!confirmed) {
       setError('Please confirm you are the intended signer');
       return;
@@ -97,9 +308,12 @@ export default function SigningPage() {
         signatureData,
         signatureType,
         typedName: typedName.trim(),
+        initialsData: initialsPages.length > 0 ? initialsData! : undefined,
+        initialsType: initialsPages.length > 0 ? initialsType : undefined,
+        initialedPages: initialsPages.length > 0 ? initialedPages : undefined,
         textFields: Object.keys(textFields).length > 0 ? textFields : undefined,
         confirmed,
-      });
+      }, sessionToken);
 
       setSubmitted(true);
       setCompleted(result.completed);
@@ -110,6 +324,50 @@ export default function SigningPage() {
     }
   };
 
+  const handleDecline = async () => {
+    if (!token || typeof token !== 'string') return;
+
+    if (!declineReason.trim()) {
+      setError('Please provide a reason for declining');
+      return;
+    }
+
+    try {
+      setDeclining(true);
+      setError(null);
+      await signing.decline(token, declineReason.trim(), sessionToken);
+      setDeclined(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to decline');
+    } finally {
+      setDeclining(false);
+    }
+  };
+
+  const handleDelegate = async () => {
+    if (!token || typeof token !== 'string') return;
+
+    if (!delegateName.trim() || !delegateEmail.trim()) {
+      setError('Please enter the name and email of the person to delegate to');
+      return;
+    }
+
+    try {
+      setDelegating(true);
+      setError(null);
+      await signing.delegate(token, {
+        name: delegateName.trim(),
+        email: delegateEmail.trim(),
+        reason: delegateReason.trim() || undefined,
+      }, sessionToken);
+      setDelegatedTo(delegateName.trim());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delegate');
+    } finally {
+      setDelegating(false);
+    }
+  };
+
   // Loading state
   if (loading) {
     return (
@@ -149,6 +407,154 @@ export default function SigningPage() {
     );
   }
 
+  // Access code / passcode gate
+  if (challenge && !session) {
+    const isLocked = (until: string | null) => !!until && new Date(until) > new Date();
+    const lockedUntil = challenge.accessCode ? challenge.accessCode.lockedUntil : challenge.otp?.lockedUntil ?? null;
+
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <Head>
+          <title>Verify Your Identity - {challenge.packet.name}</title>
+        </Head>
+        <div className="card p-8 max-w-md w-full">
+          <h1 className="text-xl font-bold text-gray-900 mb-2 text-center">Verify Your Identity</h1>
+          <p className="text-gray-600 text-center mb-6">
+            Hello {challenge.recipient.name}. To open <strong>{challenge.packet.name}</strong>,{' '}
+            {challenge.accessCode
+              ? 'enter the access code you were given by the sender.'
+              : `enter the code we email to ${challenge.otp?.maskedEmail}.`}
+          </p>
+
+          {isLocked(lockedUntil) ? (
+            <p className="text-sm text-red-600 text-center">
+              Too many incorrect codes. Please try again after{' '}
+              {new Date(lockedUntil!).toLocaleTimeString()}.
+            </p>
+          ) : challenge.accessCode ? (
+            <form onSubmit={handleVerifyAccessCode} className="space-y-4">
+              <div>
+                <label className="label">Access Code</label>
+                <input
+                  type="password"
+                  autoComplete="off"
+                  value={accessCode}
+                  onChange={(e) => setAccessCode(e.target.value)}
+                  className="input"
+                />
+              </div>
+              {verifyError && <p className="text-sm text-red-600">{verifyError}</p>}
+              <button
+                type="submit"
+                disabled={verifying || !accessCode.trim()}
+                className="btn btn-primary w-full"
+              >
+                {verifying ? 'Checking...' : 'Continue'}
+              </button>
+            </form>
+          ) : (
+            <form onSubmit={handleVerifyOtp} className="space-y-4">
+              <button
+                type="button"
+                onClick={handleSendOtp}
+                disabled={otpSending}
+                className="btn btn-secondary w-full"
+              >
+                {otpSending
+                  ? 'Sending...'
+                  : otpMessage || challenge.otp?.codeSent
+                  ? 'Send a New Code'
+                  : 'Email Me a Code'}
+              </button>
+              {otpMessage && <p className="text-sm text-gray-600 text-center">{otpMessage}</p>}
+              <div>
+                <label className="label">Verification Code</label>
+                <input
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={6}
+                  value={otpCode}
+                  onChange={(e) => setOtpCode(e.target.value.replace(/\D/g, ''))}
+                  placeholder="123456"
+                  className="input text-center text-2xl tracking-widest"
+                />
+              </div>
+              {verifyError && <p className="text-sm text-red-600">{verifyError}</p>}
+              <button
+                type="submit"
+                disabled={verifying || otpCode.length !== 6}
+                className="btn btn-primary w-full"
+              >
+                {verifying ? 'Verifying...' : 'Verify & Open Document'}
+              </button>
+            </form>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  // Declined state
+  if (declined) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="card p-8 max-w-md w-full text-center">
+          <div className="w-16 h-16 bg-red-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <svg
+              className="w-8 h-8 text-red-600"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M6 18L18 6M6 6l12 12"
+              />
+            </svg>
+          </div>
+          <h1 className="text-xl font-bold text-gray-900 mb-2">You Declined to Sign</h1>
+          <p className="text-gray-600">
+            The sender has been notified along with your reason. No further action is needed.
+          </p>
+          <p className="text-sm text-gray-500 mt-4">You can close this window.</p>
+        </div>
+      </div>
+    );
+  }
+
+  // Delegated state
+  if (delegatedTo) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <div className="card p-8 max-w-md w-full text-center">
+          <div className="w-16 h-16 bg-blue-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <svg
+              className="w-8 h-8 text-blue-600"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M13 7l5 5m0 0l-5 5m5-5H6"
+              />
+            </svg>
+          </div>
+          <h1 className="text-xl font-bold text-gray-900 mb-2">Signing Delegated</h1>
+          <p className="text-gray-600">
+            {delegatedTo} has been sent a new signing link. Your link is no longer valid.
+          </p>
+          <p className="text-sm text-gray-500 mt-4">You can close this window.</p>
+        </div>
+      </div>
+    );
+  }
+
   // Success state
   if (submitted) {
     return (
@@ -175,7 +581,7 @@ export default function SigningPage() {
           <p className="text-gray-600">
             {completed
               ? 'All signatures have been collected. You will receive the signed document via email.'
-              : 'Your signature has been recorded. The document will be sent to the next signer.'}
+              : 'Your signature has been recorded. The document will move on once everyone in your signing stage has signed.'}
           </p>
           <p className="text-sm text-gray-500 mt-4">You can close this window.</p>
         </div>
@@ -185,8 +591,13 @@ export default function SigningPage() {
 
   if (!session) return null;
 
-  const textPlaceholders = session.placeholders.filter((p) => p.type === 'TEXT');
+  // A field tagged in several places gets one input
+  const valuePlaceholders = session.placeholders
+    .filter(isValueField)
+    .filter((p, i, all) => all.findIndex((other) => other.fieldName === p.fieldName) === i);
   const datePlaceholders = session.placeholders.filter((p) => p.type === 'DATE');
+  const initialsPages = getInitialsPages(session.placeholders);
+  const pagesToInitial = initialsPages.filter((page) => !initialedPages.includes(page));
 
   return (
     <>
@@ -221,7 +632,7 @@ export default function SigningPage() {
               </div>
               <div className="bg-gray-200">
                 <iframe
-                  src={signing.getPdfUrl(token as string)}
+                  src={documents.resolveUrl(session.document.url)}
                   className="w-full h-[600px]"
                   title="Document Preview"
                 />
@@ -234,9 +645,9 @@ export default function SigningPage() {
               <div className="card p-4">
                 <h3 className="font-medium text-gray-900 mb-3">Signing Progress</h3>
                 <div className="space-y-2">
-                  {session.signers.map((signer) => (
+                  {session.signers.map((signer, index) => (
                     <div
-                      key={signer.order}
+                      key={index}
                       className={`flex items-center gap-3 p-2 rounded ${
                         signer.isCurrentUser ? 'bg-blue-50' : ''
                       }`}
@@ -259,6 +670,9 @@ export default function SigningPage() {
                       >
                         {signer.name}
                         {signer.isCurrentUser && ' (You)'}
+                        {session.signers.filter((s) => s.order === signer.order).length > 1 && (
+                          <span className="ml-1 text-xs text-gray-400">parallel</span>
+                        )}
                       </span>
                       <StatusBadge status={signer.status} size="sm" />
                     </div>
@@ -277,8 +691,55 @@ export default function SigningPage() {
                   />
                 </div>
 
-                {/* Text fields and Date fields */}
-                {(textPlaceholders.length > 0 || datePlaceholders.length > 0) && (
+                {/* Initials, tracked per page */}
+                {initialsPages.length > 0 && (
+                  <div>
+                    <h3 className="font-medium text-gray-900 mb-4">Your Initials</h3>
+                    <InitialsPad typedName={typedName} onInitialsChange={handleInitialsChange} />
+                    <div className="mt-4 space-y-2">
+                      <div className="flex items-center justify-between gap-4">
+                        <p className={`text-sm ${pagesToInitial.length > 0 ? 'text-gray-700' : 'text-green-700'}`}>
+                          {pagesToInitial.length > 0
+                            ? `${pagesToInitial.length} of ${initialsPages.length} ${initialsPages.length === 1 ? 'page needs' : 'pages need'} your initials`
+                            : 'All pages initialed'}
+                        </p>
+                        {pagesToInitial.length > 1 && (
+                          <button
+                            type="button"
+                            onClick={() => setInitialedPages(initialsPages)}
+                            disabled={!initialsData}
+                            className="text-sm text-blue-500 hover:text-blue-700 font-medium disabled:text-gray-400"
+                          >
+                            Initial all pages
+                          </button>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        {initialsPages.map((page) => {
+                          const done = initialedPages.includes(page);
+                          return (
+                            <button
+                              key={page}
+                              type="button"
+                              onClick={() => toggleInitialedPage(page)}
+                              disabled={!initialsData && !done}
+                              className={`px-3 py-1 rounded border text-sm ${
+                                done
+                                  ? 'bg-green-50 border-green-300 text-green-700'
+                                  : 'bg-white border-gray-300 text-gray-700 hover:border-blue-400'
+                              }`}
+                            >
+                              {done ? '✓ ' : ''}Page {page}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                {/* Named fields and Date fields */}
+                {(valuePlaceholders.length > 0 || datePlaceholders.length > 0) && (
                   <div>
                     <h3 className="font-medium text-gray-900 mb-4">
                       Required Information
@@ -306,25 +767,19 @@ export default function SigningPage() {
                           </div>
                         );
                       })}
-                      {/* Text fields */}
-                      {textPlaceholders.map((placeholder) => (
-                        <div key={placeholder.fieldName}>
-                          <label className="label capitalize">
-                            {placeholder.fieldName?.replace(/_/g, ' ').replace(/#/g, ' #')}
-                          </label>
-                          <input
-                            type="text"
-                            value={textFields[placeholder.fieldName!] || ''}
-                            onChange={(e) =>
-                              setTextFields({
-                                ...textFields,
-                                [placeholder.fieldName!]: e.target.value,
-                              })
-                            }
-                            className="input"
-                            placeholder={`Enter ${placeholder.fieldName?.replace(/_/g, ' ')}`}
-                          />
-                        </div>
+                      {/* Text, checkbox, choice and number fields */}
+                      {valuePlaceholders.map((placeholder) => (
+                        <FieldInput
+                          key={placeholder.fieldName}
+                          placeholder={placeholder}
+                          value={textFields[placeholder.fieldName!] || ''}
+                          onChange={(value) =>
+                            setTextFields({
+                              ...textFields,
+                              [placeholder.fieldName!]: value,
+                            })
+                          }
+                        />
                       ))}
                     </div>
                   </div>
@@ -368,6 +823,113 @@ export default function SigningPage() {
                   not provide a formal legal audit trail.
                 </p>
               </form>
+
+              {/* Delegate */}
+              <div className="card p-6">
+                {showDelegate ? (
+                  <div className="space-y-4">
+                    <h3 className="font-medium text-gray-900">Delegate to Someone Else</h3>
+                    <div>
+                      <label className="label">Full Name</label>
+                      <input
+                        type="text"
+                        value={delegateName}
+                        onChange={(e) => setDelegateName(e.target.value)}
+                        className="input"
+                      />
+                    </div>
+                    <div>
+                      <label className="label">Email Address</label>
+                      <input
+                        type="email"
+                        value={delegateEmail}
+                        onChange={(e) => setDelegateEmail(e.target.value)}
+                        className="input"
+                      />
+                    </div>
+                    <div>
+                      <label className="label">Reason (Optional)</label>
+                      <input
+                        type="text"
+                        value={delegateReason}
+                        onChange={(e) => setDelegateReason(e.target.value)}
+                        className="input"
+                        placeholder="e.g., On leave until next month"
+                      />
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={handleDelegate}
+                        disabled={delegating || !delegateName.trim() || !delegateEmail.trim()}
+                        className="btn btn-primary flex-1"
+                      >
+                        {delegating ? 'Delegating...' : 'Delegate Signing'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setShowDelegate(false)}
+                        className="btn btn-secondary"
+                      >
+                        Back
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setShowDelegate(true)}
+                    className="w-full text-sm text-blue-600 hover:text-blue-700 font-medium"
+                  >
+                    Delegate to someone else
+                  </button>
+                )}
+              </div>
+
+              {/* Decline */}
+              <div className="card p-6">
+                {showDecline ? (
+                  <div className="space-y-4">
+                    <h3 className="font-medium text-gray-900">Decline to Sign</h3>
+                    <div>
+                      <label className="label">Reason for declining</label>
+                      <textarea
+                        value={declineReason}
+                        onChange={(e) => setDeclineReason(e.target.value)}
+                        rows={3}
+                        maxLength={2000}
+                        className="input"
+                        placeholder="Let the sender know why you are declining"
+                      />
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        type="button"
+                        onClick={handleDecline}
+                        disabled={declining || !declineReason.trim()}
+                        className="btn btn-danger flex-1"
+                      >
+                        {declining ? 'Declining...' : 'Confirm Decline'}
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setShowDecline(false)}
+                        className="btn btn-secondary"
+                      >
+                        Back
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <button
+                    type="button"
+                    onClick={() => setShowDecline(true)}
+                    className="w-full text-sm text-red-600 hover:text-red-700 font-medium"
+                  >
+                    Decline to sign
+                  </button>
+                )}
+              </div>
             </div>
           </div>
         </main>
@@ -0,0 +1,368 @@
+import { useEffect, useRef, useState } from 'react';
+import Layout from '@/components/Layout';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import FieldPlacementEditor from '@/components/FieldPlacementEditor';
+import FormFieldMappingEditor from '@/components/FormFieldMappingEditor';
+import { templates, Template, PlacedField, FormFieldMapping } from '@/lib/api';
+import Link from 'next/link';
+import { formatDistanceToNow } from 'date-fns';
+
+function TemplatesPageContent() {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [templateList, setTemplateList] = useState<Template[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Upload form state
+  const [file, setFile] = useState<File | null>(null);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  // Inline edit state
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editRoles, setEditRoles] = useState('');
+
+  // Field placement editor
+  const [placingTemplate, setPlacingTemplate] = useState<Template | null>(null);
+  const [savingFields, setSavingFields] = useState(false);
+
+  // Form field role mapping
+  const [mappingTemplate, setMappingTemplate] = useState<Template | null>(null);
+  const [savingMapping, setSavingMapping] = useState(false);
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      setLoading(true);
+      const data = await templates.list();
+      setTemplateList(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleFileSelect = (selectedFile: File) => {
+    if (selectedFile.type !== 'application/pdf') {
+      setUploadError('Please select a PDF file');
+      return;
+    }
+    setFile(selectedFile);
+    setUploadError(null);
+    if (!name) {
+      setName(selectedFile.name.replace('.pdf', ''));
+    }
+  };
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) {
+      setUploadError('Please select a PDF file');
+      return;
+    }
+
+    try {
+      setUploading(true);
+      setUploadError(null);
+
+      const formData = new FormData();
+      formData.append('file', file, file.name);
+      formData.append('name', name || file.name.replace('.pdf', ''));
+      if (description) {
+        formData.append('description', description);
+      }
+
+      await templates.create(formData);
+
+      setFile(null);
+      setName('');
+      setDescription('');
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      loadTemplates();
+    } catch (err) {
+      setUploadError(err instanceof Error ? err.message : 'Failed to upload template');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const startEdit = (template: Template) => {
+    setEditingId(template.id);
+    setEditName(template.name);
+    setEditRoles(template.defaultRoles.join(', '));
+  };
+
+  const handleSaveEdit = async (id: string) => {
+    try {
+      await templates.update(id, {
+        name: editName,
+        defaultRoles: editRoles.split(',').map((r) => r.trim()).filter(Boolean),
+      });
+      setEditingId(null);
+      loadTemplates();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update template');
+    }
+  };
+
+  const handleSaveFields = async (fields: PlacedField[]) => {
+    if (!placingTemplate) return;
+    try {
+      setSavingFields(true);
+      await templates.updateFields(placingTemplate.id, fields);
+      setPlacingTemplate(null);
+      loadTemplates();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save fields');
+    } finally {
+      setSavingFields(false);
+    }
+  };
+
+  const handleSaveMapping = async (mapping: FormFieldMapping) => {
+    if (!mappingTemplate) return;
+    try {
+      setSavingMapping(true);
+      await templates.updateFormFields(mappingTemplate.id, mapping);
+      setMappingTemplate(null);
+      loadTemplates();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save form field mapping');
+    } finally {
+      setSavingMapping(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this template? Packets already created from it are not affected.')) return;
+    try {
+      await templates.delete(id);
+      loadTemplates();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete');
+    }
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Templates</h1>
+            <p className="text-gray-600">Reusable documents for new signing packets</p>
+          </div>
+          <Link href="/packets/new" className="btn btn-primary">
+            Create Packet
+          </Link>
+        </div>
+
+        {/* Upload */}
+        <form onSubmit={handleUpload} className="card p-6 space-y-4">
+          <h2 className="text-lg font-semibold">Upload Template</h2>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="label">PDF File</label>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".pdf,application/pdf"
+                onChange={(e) => {
+                  const f = e.target.files?.[0];
+                  if (f) handleFileSelect(f);
+                }}
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="label">Template Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Onboarding Acknowledgement"
+                className="input"
+              />
+            </div>
+            <div>
+              <label className="label">Description (Optional)</label>
+              <input
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="input"
+              />
+            </div>
+          </div>
+          {uploadError && <p className="text-sm text-red-600">{uploadError}</p>}
+          <button type="submit" disabled={uploading || !file} className="btn btn-primary">
+            {uploading ? 'Uploading...' : 'Upload Template'}
+          </button>
+        </form>
+
+        {placingTemplate && (
+          <FieldPlacementEditor
+            source={templates.getPdfUrl(placingTemplate.id)}
+            placeholders={placingTemplate.placeholders}
+            roles={placingTemplate.defaultRoles}
+            saving={savingFields}
+            onSave={handleSaveFields}
+            onCancel={() => setPlacingTemplate(null)}
+          />
+        )}
+
+        {mappingTemplate && (
+          <FormFieldMappingEditor
+            loadFormFields={() => templates.formFields(mappingTemplate.id)}
+            placeholders={mappingTemplate.placeholders}
+            roles={mappingTemplate.defaultRoles}
+            saving={savingMapping}
+            onSave={handleSaveMapping}
+            onCancel={() => setMappingTemplate(null)}
+          />
+        )}
+
+        {/* Template list */}
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <p className="text-red-600 mb-4">{error}</p>
+            <button onClick={loadTemplates} className="btn btn-primary">
+              Retry
+            </button>
+          </div>
+        ) : templateList.length === 0 ? (
+          <div className="card p-12 text-center">
+            <p className="text-gray-500">No templates uploaded yet</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {templateList.map((template) => (
+              <div key={template.id} className="card p-6">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1">
+                    {editingId === template.id ? (
+                      <div className="space-y-2 max-w-md">
+                        <input
+                          type="text"
+                          value={editName}
+                          onChange={(e) => setEditName(e.target.value)}
+                          className="input"
+                        />
+                        <input
+                          type="text"
+                          value={editRoles}
+                          onChange={(e) => setEditRoles(e.target.value)}
+                          placeholder="Default roles, comma separated"
+                          className="input"
+                        />
+                      </div>
+                    ) : (
+                      <>
+                        <p className="text-lg font-semibold text-gray-900">{template.name}</p>
+                        {template.description && (
+                          <p className="text-sm text-gray-600">{template.description}</p>
+                        )}
+                      </>
+                    )}
+                    <p className="text-sm text-gray-500 mt-1">
+                      Document: {template.fileName} • {template.placeholders.length} placeholders
+                    </p>
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      {template.defaultRoles.map((role, index) => (
+                        <span
+                          key={role}
+                          className="px-2 py-1 bg-gray-50 rounded text-sm text-gray-700"
+                        >
+                          {index + 1}. {role}
+                        </span>
+                      ))}
+                    </div>
+                    <p className="text-xs text-gray-400 mt-3">
+                      Uploaded{' '}
+                      {formatDistanceToNow(new Date(template.createdAt), { addSuffix: true })}
+                      {template._count && ` • Used by ${template._count.packets} packets`}
+                    </p>
+                  </div>
+
+                  {/* Actions */}
+                  <div className="flex gap-2 ml-4">
+                    {editingId === template.id ? (
+                      <>
+                        <button
+                          onClick={() => handleSaveEdit(template.id)}
+                          className="btn btn-primary text-sm px-3 py-1"
+                        >
+                          Save
+                        </button>
+                        <button
+                          onClick={() => setEditingId(null)}
+                          className="btn btn-secondary text-sm px-3 py-1"
+                        >
+                          Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <a
+                          href={templates.getPdfUrl(template.id)}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="btn btn-secondary text-sm px-3 py-1"
+                        >
+                          Preview
+                        </a>
+                        <button
+                          onClick={() => setPlacingTemplate(template)}
+                          className="btn btn-secondary text-sm px-3 py-1"
+                        >
+                          Place Fields
+                        </button>
+                        <button
+                          onClick={() => setMappingTemplate(template)}
+                          className="btn btn-secondary text-sm px-3 py-1"
+                        >
+                          Form Fields
+                        </button>
+                        <button
+                          onClick={() => startEdit(template)}
+                          className="btn btn-secondary text-sm px-3 py-1"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => handleDelete(template.id)}
+                          className="btn btn-danger text-sm px-3 py-1"
+                        >
+                          Delete
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
+
+export default function TemplatesPage() {
+  return (
+    <ProtectedRoute requireAdmin>
+      <TemplatesPageContent />
+    </ProtectedRoute>
+  );
+}
@@ -0,0 +1,160 @@
+import { useState } from 'react';
+import Head from 'next/head';
+import { format } from 'date-fns';
+import { verification, VerificationResult } from '@/lib/api';
+
+export default function VerifyPage() {
+  const [mode, setMode] = useState<'file' | 'hash'>('file');
+  const [file, setFile] = useState<File | null>(null);
+  const [hash, setHash] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<VerificationResult | null>(null);
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setResult(null);
+
+    if (mode === 'file' && !file) {
+      setError('Please select a PDF file');
+      return;
+    }
+    if (mode === 'hash' && !/^[a-fA-F0-9]{64}$/.test(hash.trim())) {
+      setError('Enter a 64-character SHA-256 hash');
+      return;
+    }
+
+    try {
+      setChecking(true);
+      setResult(mode === 'file' ? await verification.byFile(file!) : await verification.byHash(hash.trim()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <>
+      <Head>
+        <title>Verify Document - AHS Signatures</title>
+      </Head>
+      <div className="min-h-screen bg-gray-50 py-12 px-4">
+        <div className="max-w-xl mx-auto space-y-6">
+          <div className="text-center">
+            <h1 className="text-2xl font-bold text-gray-900">Verify a Signed Document</h1>
+            <p className="text-gray-600 mt-1">
+              Check whether a PDF is an unmodified copy of a document completed in AHS Signatures
+            </p>
+          </div>
+
+          <form onSubmit={handleVerify} className="card p-6 space-y-4">
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setMode('file')}
+                className={`btn flex-1 ${mode === 'file' ? 'btn-primary' : 'btn-secondary'}`}
+              >
+                Upload PDF
+              </button>
+              <button
+                type="button"
+                onClick={() => setMode('hash')}
+                className={`btn flex-1 ${mode === 'hash' ? 'btn-primary' : 'btn-secondary'}`}
+              >
+                Paste Hash
+              </button>
+            </div>
+
+            {mode === 'file' ? (
+              <div>
+                <label className="label">PDF File</label>
+                <input
+                  type="file"
+                  accept=".pdf,application/pdf"
+                  onChange={(e) => setFile(e.target.files?.[0] || null)}
+                  className="input"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  The file is only used to compute its fingerprint and is not stored.
+                </p>
+              </div>
+            ) : (
+              <div>
+                <label className="label">SHA-256 Hash</label>
+                <input
+                  type="text"
+                  value={hash}
+                  onChange={(e) => setHash(e.target.value)}
+                  placeholder="e.g., 3a7bd3e2360a3d29eea436fcfb7e44c735d117c42d1c1835420b6b9942dd4f1b"
+                  className="input font-mono text-sm"
+                />
+              </div>
+            )}
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+
+            <button type="submit" disabled={checking} className="btn btn-primary w-full">
+              {checking ? 'Checking...' : 'Verify'}
+            </button>
+          </form>
+
+          {result && (
+            <div
+              className={`card p-6 border-l-4 ${
+                result.match ? 'border-green-500' : 'border-red-500'
+              }`}
+            >
+              {result.match && result.packet ? (
+                <>
+                  <h2 className="text-lg font-semibold text-green-700">Document verified</h2>
+                  <p className="text-sm text-gray-600 mt-1">
+                    This file exactly matches a completed signed document.
+                  </p>
+                  <dl className="mt-4 space-y-3 text-sm">
+                    <div>
+                      <dt className="text-gray-500">Document</dt>
+                      <dd className="font-medium">{result.packet.name}</dd>
+                    </div>
+                    {result.packet.completedAt && (
+                      <div>
+                        <dt className="text-gray-500">Completed</dt>
+                        <dd className="font-medium">
+                          {format(new Date(result.packet.completedAt), 'MMM d, yyyy h:mm a')}
+                        </dd>
+                      </div>
+                    )}
+                    <div>
+                      <dt className="text-gray-500">Signed by</dt>
+                      <dd>
+                        <ul className="space-y-1">
+                          {result.packet.signers.map((signer, index) => (
+                            <li key={index} className="font-medium">
+                              {signer.name}{' '}
+                              <span className="font-normal text-gray-500 capitalize">({signer.roleName})</span>
+                            </li>
+                          ))}
+                        </ul>
+                      </dd>
+                    </div>
+                  </dl>
+                </>
+              ) : (
+                <>
+                  <h2 className="text-lg font-semibold text-red-700">No match found</h2>
+                  <p className="text-sm text-gray-600 mt-1">
+                    {result.isUnsignedOriginal
+                      ? 'This is an unsigned original that was sent for signing, not a signed copy.'
+                      : 'This file does not match any completed document. It may have been modified after signing.'}
+                  </p>
+                </>
+              )}
+              <p className="text-xs text-gray-400 mt-4 font-mono break-all">SHA-256: {result.sha256}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
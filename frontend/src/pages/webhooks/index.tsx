@@ -0,0 +1,379 @@
+import { useEffect, useState } from 'react';
+import Layout from '@/components/Layout';
+import ProtectedRoute from '@/components/ProtectedRoute';
+import StatusBadge from '@/components/StatusBadge';
+import { webhooks, WebhookSubscription, WebhookDelivery } from '@/lib/api';
+import { formatDistanceToNow } from 'date-fns';
+
+function WebhooksPageContent() {
+  const [subscriptions, setSubscriptions] = useState<WebhookSubscription[]>([]);
+  const [availableEvents, setAvailableEvents] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Create form state
+  const [url, setUrl] = useState('');
+  const [description, setDescription] = useState('');
+  const [selectedEvents, setSelectedEvents] = useState<string[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [createError, setCreateError] = useState<string | null>(null);
+
+  // Delivery log for the expanded subscription
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [deliveriesLoading, setDeliveriesLoading] = useState(false);
+  // A secret is only sent in full when it is issued, so show it until the next issue
+  const [issuedSecret, setIssuedSecret] = useState<{ id: string; secret: string } | null>(null);
+
+  useEffect(() => {
+    loadWebhooks();
+    webhooks.events().then(({ events }) => {
+      setAvailableEvents(events);
+      setSelectedEvents(events);
+    }).catch(() => {});
+  }, []);
+
+  const loadWebhooks = async () => {
+    try {
+      setLoading(true);
+      const data = await webhooks.list();
+      setSubscriptions(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load webhooks');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadDeliveries = async (id: string) => {
+    try {
+      setDeliveriesLoading(true);
+      setDeliveries(await webhooks.deliveries(id));
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to load deliveries');
+    } finally {
+      setDeliveriesLoading(false);
+    }
+  };
+
+  const toggleEvent = (event: string, events: string[], setEvents: (events: string[]) => void) => {
+    setEvents(events.includes(event) ? events.filter((e) => e !== event) : [...events, event]);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selectedEvents.length === 0) {
+      setCreateError('Select at least one event');
+      return;
+    }
+
+    try {
+      setCreating(true);
+      setCreateError(null);
+      const created = await webhooks.create({
+        url,
+        description: description || undefined,
+        events: selectedEvents,
+      });
+      setUrl('');
+      setDescription('');
+      setSelectedEvents(availableEvents);
+      setIssuedSecret({ id: created.id, secret: created.secret });
+      loadWebhooks();
+    } catch (err) {
+      setCreateError(err instanceof Error ? err.message : 'Failed to create webhook');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleToggleActive = async (subscription: WebhookSubscription) => {
+    try {
+      await webhooks.update(subscription.id, { isActive: !subscription.isActive });
+      loadWebhooks();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update webhook');
+    }
+  };
+
+  const handleUpdateEvents = async (subscription: WebhookSubscription, event: string) => {
+    const events = subscription.events.includes(event)
+      ? subscription.events.filter((e) => e !== event)
+      : [...subscription.events, event];
+    if (events.length === 0) return;
+
+    try {
+      await webhooks.update(subscription.id, { events });
+      loadWebhooks();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update webhook');
+    }
+  };
+
+  const handleRotateSecret = async (id: string) => {
+    if (!confirm('Issue a new signing secret? The receiver must be updated before the next delivery.')) return;
+    try {
+      const updated = await webhooks.update(id, { rotateSecret: true });
+      setIssuedSecret({ id, secret: updated.secret });
+      loadWebhooks();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to rotate secret');
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this webhook and its delivery log?')) return;
+    try {
+      await webhooks.delete(id);
+      if (expandedId === id) setExpandedId(null);
+      loadWebhooks();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to delete');
+    }
+  };
+
+  const handleTest = async (id: string) => {
+    try {
+      await webhooks.test(id);
+      setExpandedId(id);
+      loadDeliveries(id);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to send test event');
+    }
+  };
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    try {
+      await webhooks.redeliver(delivery.id);
+      loadDeliveries(delivery.subscriptionId);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to redeliver');
+    }
+  };
+
+  const toggleDeliveries = (id: string) => {
+    if (expandedId === id) {
+      setExpandedId(null);
+      return;
+    }
+    setExpandedId(id);
+    setDeliveries([]);
+    loadDeliveries(id);
+  };
+
+  return (
+    <Layout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Webhooks</h1>
+          <p className="text-gray-600">Notify other systems when packets move through signing</p>
+        </div>
+
+        {/* Create */}
+        <form onSubmit={handleCreate} className="card p-6 space-y-4">
+          <h2 className="text-lg font-semibold">Add Endpoint</h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <label className="label">Endpoint URL</label>
+              <input
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://hris.example.com/webhooks/signatures"
+                className="input"
+                required
+              />
+            </div>
+            <div>
+              <label className="label">Description (Optional)</label>
+              <input
+                type="text"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                className="input"
+              />
+            </div>
+          </div>
+          <div>
+            <label className="label">Events</label>
+            <div className="flex flex-wrap gap-4">
+              {availableEvents.map((event) => (
+                <label key={event} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={selectedEvents.includes(event)}
+                    onChange={() => toggleEvent(event, selectedEvents, setSelectedEvents)}
+                  />
+                  {event}
+                </label>
+              ))}
+            </div>
+          </div>
+          {createError && <p className="text-sm text-red-600">{createError}</p>}
+          <button type="submit" disabled={creating || !url} className="btn btn-primary">
+            {creating ? 'Adding...' : 'Add Endpoint'}
+          </button>
+        </form>
+
+        {/* Subscription list */}
+        {loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : error ? (
+          <div className="text-center py-12">
+            <p className="text-red-600 mb-4">{error}</p>
+            <button onClick={loadWebhooks} className="btn btn-primary">
+              Retry
+            </button>
+          </div>
+        ) : subscriptions.length === 0 ? (
+          <div className="card p-12 text-center">
+            <p className="text-gray-500">No webhook endpoints yet</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {subscriptions.map((subscription) => (
+              <div key={subscription.id} className="card p-6">
+                <div className="flex items-start justify-between">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-lg font-semibold text-gray-900 break-all">{subscription.url}</p>
+                    {subscription.description && (
+                      <p className="text-sm text-gray-600">{subscription.description}</p>
+                    )}
+                    <div className="mt-3 flex flex-wrap gap-3">
+                      {availableEvents.map((event) => (
+                        <label key={event} className="flex items-center gap-1 text-sm text-gray-700">
+                          <input
+                            type="checkbox"
+                            checked={subscription.events.includes(event)}
+                            onChange={() => handleUpdateEvents(subscription, event)}
+                          />
+                          {event}
+                        </label>
+                      ))}
+                    </div>
+                    <div className="mt-3 text-sm text-gray-600">
+                      Signing secret:{' '}
+                      {issuedSecret?.id === subscription.id ? (
+                        <>
+                          <code className="bg-gray-50 px-2 py-0.5 rounded break-all">{issuedSecret.secret}</code>
+                          <span className="block text-xs text-gray-400 mt-1">
+                            Copy it now; it will not be shown again.
+                          </span>
+                        </>
+                      ) : (
+                        <code className="bg-gray-50 px-2 py-0.5 rounded">{subscription.secret}</code>
+                      )}
+                    </div>
+                    <p className="text-xs text-gray-400 mt-3">
+                      {subscription.isActive ? 'Active' : 'Paused'} • Added{' '}
+                      {formatDistanceToNow(new Date(subscription.createdAt), { addSuffix: true })}
+                      {subscription._count && ` • ${subscription._count.deliveries} deliveries`}
+                    </p>
+                  </div>
+
+                  {/* Actions */}
+                  <div className="flex flex-wrap justify-end gap-2 ml-4">
+                    <button
+                      onClick={() => toggleDeliveries(subscription.id)}
+                      className="btn btn-secondary text-sm px-3 py-1"
+                    >
+                      {expandedId === subscription.id ? 'Hide Log' : 'Delivery Log'}
+                    </button>
+                    <button
+                      onClick={() => handleTest(subscription.id)}
+                      className="btn btn-secondary text-sm px-3 py-1"
+                    >
+                      Send Test
+                    </button>
+                    <button
+                      onClick={() => handleToggleActive(subscription)}
+                      className="btn btn-secondary text-sm px-3 py-1"
+                    >
+                      {subscription.isActive ? 'Pause' : 'Resume'}
+                    </button>
+                    <button
+                      onClick={() => handleRotateSecret(subscription.id)}
+                      className="btn btn-secondary text-sm px-3 py-1"
+                    >
+                      Rotate Secret
+                    </button>
+                    <button
+                      onClick={() => handleDelete(subscription.id)}
+                      className="btn btn-danger text-sm px-3 py-1"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                {/* Delivery log */}
+                {expandedId === subscription.id && (
+                  <div className="mt-6 border-t pt-4">
+                    <div className="flex items-center justify-between mb-3">
+                      <h3 className="font-semibold text-gray-900">Recent Deliveries</h3>
+                      <button
+                        onClick={() => loadDeliveries(subscription.id)}
+                        className="text-sm text-blue-600 hover:underline"
+                      >
+                        Refresh
+                      </button>
+                    </div>
+                    {deliveriesLoading && deliveries.length === 0 ? (
+                      <p className="text-sm text-gray-500">Loading...</p>
+                    ) : deliveries.length === 0 ? (
+                      <p className="text-sm text-gray-500">No deliveries yet</p>
+                    ) : (
+                      <div className="divide-y">
+                        {deliveries.map((delivery) => (
+                          <div key={delivery.id} className="py-3 flex items-start justify-between gap-4">
+                            <div className="min-w-0">
+                              <div className="flex items-center gap-2">
+                                <StatusBadge status={delivery.status} size="sm" />
+                                <span className="font-medium text-gray-900">{delivery.event}</span>
+                                {delivery.responseStatus !== null && (
+                                  <span className="text-xs text-gray-500">HTTP {delivery.responseStatus}</span>
+                                )}
+                              </div>
+                              <p className="text-xs text-gray-500 mt-1">
+                                {delivery.attempts} {delivery.attempts === 1 ? 'attempt' : 'attempts'} • Created{' '}
+                                {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}
+                                {delivery.status === 'pending' && delivery.nextAttemptAt &&
+                                  ` • Next attempt ${formatDistanceToNow(new Date(delivery.nextAttemptAt), { addSuffix: true })}`}
+                              </p>
+                              {delivery.lastError && (
+                                <p className="text-xs text-red-600 mt-1 break-all">{delivery.lastError}</p>
+                              )}
+                            </div>
+                            {delivery.status !== 'pending' && (
+                              <button
+                                onClick={() => handleRedeliver(delivery)}
+                                className="btn btn-secondary text-sm px-3 py-1 shrink-0"
+                              >
+                                Redeliver
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Layout>
+  );
+}
+
+export default function WebhooksPage() {
+  return (
+    <ProtectedRoute requireAdmin>
+      <WebhooksPageContent />
+    </ProtectedRoute>
+  );
+}